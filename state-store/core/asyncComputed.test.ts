@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import { asyncComputed } from './asyncComputed';
+import { createStore } from './createStore';
+
+type SearchState = {
+  query: string;
+  other: number;
+  fail: boolean;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createSearchStore() {
+  const signals: AbortSignal[] = [];
+  const compute = jest.fn(async (state: SearchState, signal: AbortSignal) => {
+    signals.push(signal);
+    const query = state.query;
+    const fail = state.fail;
+    await sleep(10);
+    if (fail) throw new Error('parse failed');
+    return query.toUpperCase();
+  });
+  const store = createStore<SearchState>({ mode: 'server' })
+    .initialState({ query: 'a', other: 0, fail: false })
+    .computed({
+      upper: asyncComputed(compute, { initialValue: '' }),
+    })
+    .actions({
+      setQuery: (query: string) => ({ query }),
+      setOther: (other: number) => ({ other }),
+      setFail: (fail: boolean) => ({ fail }),
+    })
+    .build();
+
+  return { store, compute, signals };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+test('exposes the pending state and then the resolved value', async () => {
+  const { store } = createSearchStore();
+  const listener = jest.fn();
+  store.subscribe(listener);
+
+  expect(store.computed.upper).toEqual({ status: 'pending', value: '', error: null });
+  await sleep(20);
+
+  expect(store.computed.upper).toEqual({ status: 'success', value: 'A', error: null });
+  expect(listener).toHaveBeenCalledTimes(1);
+});
+
+test('does not recompute when unrelated state changes', async () => {
+  const { store, compute } = createSearchStore();
+  await sleep(20);
+
+  store.actions.setOther(1);
+  await sleep(20);
+
+  expect(store.computed.upper.status).toBe('success');
+  expect(compute).toHaveBeenCalledTimes(1);
+});
+
+test('aborts superseded computations and discards their results', async () => {
+  const { store, compute, signals } = createSearchStore();
+  await sleep(20);
+  const values: string[] = [];
+  store.subscribe(() => values.push(store.computed.upper.value ?? ''));
+
+  store.actions.setQuery('b');
+  expect(store.computed.upper).toEqual({ status: 'pending', value: 'A', error: null });
+  await sleep(2);
+  store.actions.setQuery('c');
+  await sleep(20);
+
+  expect(compute).toHaveBeenCalledTimes(3);
+  expect(signals[1].aborted).toBe(true);
+  expect(values).not.toContain('B');
+  expect(store.computed.upper).toEqual({ status: 'success', value: 'C', error: null });
+});
+
+test('keeps the last value when the computation fails', async () => {
+  const { store } = createSearchStore();
+  await sleep(20);
+
+  store.actions.setFail(true);
+  await sleep(20);
+
+  expect(store.computed.upper.status).toBe('error');
+  expect(store.computed.upper.value).toBe('A');
+  expect(store.computed.upper.error?.message).toBe('parse failed');
+});
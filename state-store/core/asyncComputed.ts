@@ -0,0 +1,77 @@
+import { AsyncComputedValue } from './types/internal/state.ts';
+
+// 비동기 계산된 값 정의를 표시하는 심볼
+export const ASYNC_COMPUTED = Symbol('asyncComputed');
+
+/**
+ * 비동기 계산된 값 옵션 인터페이스
+ * @template T 계산 결과 타입
+ */
+export interface AsyncComputedOptions<T> {
+  /**
+   * 첫 계산이 끝나기 전에 노출할 값 (기본값: undefined)
+   */
+  initialValue?: T;
+}
+
+/**
+ * 비동기 계산 함수 타입
+ * 의존하는 상태가 바뀌어 다시 계산이 시작되면 이전 계산의 signal이 중단되며, 중단된 계산의 결과는 버려집니다.
+ * @template TState 스토어 상태 타입
+ * @template T 계산 결과 타입
+ */
+export type AsyncComputeFn<TState, T> = (state: Readonly<TState>, signal: AbortSignal) => Promise<T>;
+
+/**
+ * 비동기 계산된 값 정의 타입
+ * computed 정의에 그대로 넣을 수 있으며, store.computed[key]는 { status, value, error }로 노출됩니다.
+ * @template TState 스토어 상태 타입
+ * @template T 계산 결과 타입
+ */
+export type AsyncComputedDef<TState, T> = ((state: Readonly<TState>) => AsyncComputedValue<T>) & {
+  readonly [ASYNC_COMPUTED]: {
+    compute: AsyncComputeFn<TState, T>;
+    options: AsyncComputedOptions<T>;
+  };
+};
+
+/**
+ * 비동기 계산된 값을 정의합니다.
+ * 계산 중 읽은 상태가 바뀌면 진행 중인 계산을 중단하고 다시 계산합니다.
+ *
+ * @template TState 스토어 상태 타입
+ * @template T 계산 결과 타입
+ * @param compute 상태와 중단 신호를 받아 결과를 반환하는 비동기 함수
+ * @param options 비동기 계산된 값 옵션
+ * @returns computed 정의에 넣을 수 있는 비동기 계산된 값 정의
+ *
+ * @example
+ * createStore<VaultState>()
+ *   .initialState({ encrypted: '', key: '' })
+ *   .computed({
+ *     secrets: asyncComputed(async (state, signal) => decryptInChunks(state.encrypted, state.key, { signal })),
+ *   })
+ *   .build();
+ *
+ * vaultStore.computed.secrets; // { status: 'pending' | 'success' | 'error', value, error }
+ */
+export function asyncComputed<TState extends Record<string, any>, T>(
+  compute: AsyncComputeFn<TState, T>,
+  options: AsyncComputedOptions<T> = {},
+): AsyncComputedDef<TState, T> {
+  const definition = (): AsyncComputedValue<T> => ({
+    status: 'pending',
+    value: options.initialValue,
+    error: null,
+  });
+
+  return Object.assign(definition, { [ASYNC_COMPUTED]: { compute, options } });
+}
+
+/**
+ * 계산된 값 정의가 비동기 계산된 값인지 확인합니다.
+ * @param computedFn 계산된 값 정의
+ */
+export function isAsyncComputed<TState, T>(computedFn: unknown): computedFn is AsyncComputedDef<TState, T> {
+  return typeof computedFn === 'function' && ASYNC_COMPUTED in computedFn;
+}
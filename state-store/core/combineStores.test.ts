@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+import { combineStores } from './combineStores';
+import { createSlice } from './createSlice';
+import { mutate } from './mutate';
+import { parameterized } from './parameterized';
+
+type User = { id: number; name: string };
+type Message = { from: number; text: string };
+
+type AuthState = { user: User | null; token: string };
+type ChatState = { messages: Message[]; draft: string };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const authSlice = createSlice<AuthState>()
+  .initialState({ user: null, token: '' })
+  .computed({ isLoggedIn: (state: AuthState) => state.user !== null })
+  .actions({
+    login: (user: User) => ({ user, token: `token-${user.id}` }),
+  })
+  .asyncActions(
+    {
+      refresh: async (id: number) => {
+        await sleep(10);
+        return { success: true as const, state: { token: `refreshed-${id}` } };
+      },
+    },
+    { refresh: { optimistic: () => ({ token: 'optimistic' }) } },
+  );
+
+const chatSlice = createSlice<ChatState>()
+  .initialState({ messages: [], draft: '' })
+  .computed({
+    count: (state: ChatState) => state.messages.length,
+    byUser: parameterized((state: ChatState, id: number) =>
+      state.messages.filter((message) => message.from === id),
+    ),
+  })
+  .actions({
+    send: (from: number, text: string) =>
+      mutate<ChatState>((draft) => {
+        draft.messages.push({ from, text });
+      }),
+    setDraft: (draft: string) => ({ draft }),
+  });
+
+function createChatRoot() {
+  const actionTypes: string[] = [];
+  const store = combineStores({ auth: authSlice, chat: chatSlice }, { mode: 'client' })
+    .computed({
+      myMessageCount: (state: { auth: AuthState; chat: ChatState }) =>
+        state.chat.messages.filter((message) => message.from === state.auth.user?.id).length,
+    })
+    .middleware([
+      () => (next) => (action) => {
+        actionTypes.push(action.type);
+        return next(action);
+      },
+    ])
+    .build();
+
+  return { store, actionTypes };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+test('namespaces slice state and actions under the root store', () => {
+  const { store, actionTypes } = createChatRoot();
+
+  store.slices.auth.actions.login({ id: 1, name: 'kim' });
+  store.actions['chat/send'](1, 'hi');
+
+  expect(store.getState()).toEqual({
+    auth: { user: { id: 1, name: 'kim' }, token: 'token-1' },
+    chat: { messages: [{ from: 1, text: 'hi' }], draft: '' },
+  });
+  expect(store.slices.chat.getState().messages).toHaveLength(1);
+  expect(actionTypes).toEqual(['auth/login', 'chat/send']);
+});
+
+test('exposes slice computed values on the slice and the root', () => {
+  const { store } = createChatRoot();
+
+  store.slices.chat.actions.send(1, 'hi');
+  store.slices.chat.actions.send(2, 'yo');
+
+  expect(store.slices.auth.computed.isLoggedIn).toBe(false);
+  expect(store.computed['chat/count']).toBe(2);
+  expect(store.slices.chat.computed.byUser(2)).toEqual([{ from: 2, text: 'yo' }]);
+});
+
+test('updates cross-slice computed values when either slice changes', () => {
+  const { store } = createChatRoot();
+  store.slices.chat.actions.send(1, 'hi');
+
+  expect(store.computed.myMessageCount).toBe(0);
+  store.slices.auth.actions.login({ id: 1, name: 'kim' });
+  expect(store.computed.myMessageCount).toBe(1);
+  store.slices.chat.actions.send(1, 'again');
+  expect(store.computed.myMessageCount).toBe(2);
+});
+
+test('notifies slice subscribers only for changes in their slice', () => {
+  const { store } = createChatRoot();
+  const authListener = jest.fn();
+  store.slices.auth.subscribe(authListener);
+
+  store.slices.chat.actions.setDraft('typing');
+  expect(authListener).not.toHaveBeenCalled();
+
+  store.slices.auth.actions.login({ id: 1, name: 'kim' });
+  expect(authListener).toHaveBeenCalledTimes(1);
+});
+
+test('runs slice async actions against the slice state', async () => {
+  const { store, actionTypes } = createChatRoot();
+  store.slices.chat.actions.setDraft('typing');
+
+  const pending = store.slices.auth.asyncActions.refresh(7);
+  expect(store.slices.auth.getState().token).toBe('optimistic');
+  expect(store.slices.auth.asyncState.refresh.pending).toBe(true);
+
+  await pending;
+
+  expect(store.getState().auth.token).toBe('refreshed-7');
+  expect(store.getState().chat.draft).toBe('typing');
+  expect(actionTypes).toContain('auth/refresh/fulfilled');
+});
@@ -0,0 +1,266 @@
+import { entries, fx } from '@fxts/core';
+import { StoreBuilder } from './internal/StoreBuilder';
+import { asyncComputed, ASYNC_COMPUTED, isAsyncComputed } from './asyncComputed';
+import { isParameterized, parameterized, PARAMETERIZED } from './parameterized';
+import {
+  ActionResult,
+  AsyncActionContext,
+  AsyncActionOptions,
+  AsyncActionsOptions,
+  AsyncResult,
+  ComputedDef,
+} from './types/public-types';
+import { AsyncActionPromise } from './types/internal/action';
+import { StoreBuilderOptions, StoreInternal } from './types/internal/store';
+import {
+  CombinedActionsDef,
+  CombinedAsyncActionsDef,
+  CombinedComputedDef,
+  CombinedState,
+  CombinedStoreBuilder,
+  CombinedStoreConfigBuilder,
+  CombinedStoresExtension,
+  SlicesDef,
+} from './types/internal/slice';
+import { Draft } from '../utils/draft';
+import { isMutation, mutate, MUTATE } from './mutate';
+
+type AnyState = Record<string, any>;
+type AnyComputedFn = ComputedDef<AnyState>[string];
+type AnyActionFn = (...args: any[]) => ActionResult<AnyState>;
+type AnyAsyncActionFn = (...args: any[]) => Promise<AsyncResult<AnyState>>;
+
+/**
+ * 슬라이스의 계산된 값 정의를 루트 상태에서 슬라이스 상태를 읽도록 변환합니다.
+ * @param name 슬라이스 이름
+ * @param computedFn 슬라이스의 계산된 값 정의
+ */
+function scopeComputed(name: string, computedFn: AnyComputedFn): AnyComputedFn {
+  if (isAsyncComputed<AnyState, unknown>(computedFn)) {
+    const { compute, options } = computedFn[ASYNC_COMPUTED];
+    return asyncComputed<AnyState, unknown>((state, signal) => compute(state[name], signal), options);
+  }
+
+  if (isParameterized<AnyState, unknown[], unknown>(computedFn)) {
+    const compute = computedFn[PARAMETERIZED];
+    return parameterized<AnyState, unknown[], unknown>((state, ...args) => compute(state[name], ...args));
+  }
+
+  return (state: AnyState) => computedFn(state[name]);
+}
+
+/**
+ * 슬라이스 액션을 루트 상태의 슬라이스 드래프트를 수정하는 액션으로 변환합니다.
+ * 변경 경로가 'name.key' 형태로 기록되어 슬라이스 안의 경로 구독도 그대로 동작합니다.
+ * @param name 슬라이스 이름
+ * @param actionFn 슬라이스 액션
+ */
+function scopeAction(name: string, actionFn: AnyActionFn): AnyActionFn {
+  return (...args) =>
+    mutate((draft: Draft<AnyState>) => {
+      const sliceDraft = draft[name];
+      const result = actionFn(...args);
+
+      if (isMutation<AnyState>(result)) {
+        result[MUTATE](sliceDraft);
+        return;
+      }
+
+      const patch = typeof result === 'function' ? result(sliceDraft) : result;
+
+      if (patch && patch !== sliceDraft) {
+        Object.assign(sliceDraft, patch);
+      }
+    });
+}
+
+/**
+ * 슬라이스 비동기 액션을 루트 상태 결과를 반환하는 비동기 액션으로 변환합니다.
+ * 슬라이스 액션의 컨텍스트 getState는 슬라이스 상태를 반환하며, 성공 결과는 슬라이스 패치를 슬라이스 이름 아래에 담습니다.
+ * @param name 슬라이스 이름
+ * @param asyncActionFn 슬라이스 비동기 액션
+ */
+function scopeAsyncAction(name: string, asyncActionFn: AnyAsyncActionFn): AnyAsyncActionFn {
+  return async (...params) => {
+    const context = params[params.length - 1] as AsyncActionContext<AnyState>;
+    const sliceContext: AsyncActionContext<AnyState> = {
+      ...context,
+      getState: () => context.getState()[name],
+    };
+
+    const result = await asyncActionFn(...params.slice(0, -1), sliceContext);
+    if (!result.success) return result;
+
+    return { success: true, state: { [name]: result.state } };
+  };
+}
+
+/**
+ * 슬라이스 비동기 액션 옵션을 루트 상태 기준으로 변환합니다.
+ * 낙관적 패치와 성공 결과의 슬라이스 패치는 적용 시점의 슬라이스 상태에 합쳐집니다.
+ * @param name 슬라이스 이름
+ * @param options 슬라이스 비동기 액션 옵션
+ */
+function scopeAsyncActionOptions(
+  name: string,
+  options: AsyncActionOptions<AnyState> = {},
+): AsyncActionOptions<AnyState> {
+  const { optimistic } = options;
+
+  return {
+    ...options,
+    optimistic:
+      optimistic &&
+      ((state, ...args) => ({ [name]: { ...state[name], ...optimistic(state[name], ...args) } })),
+    mergeResult: (state, resultState) =>
+      resultState[name] ? { [name]: { ...state[name], ...resultState[name] } } : {},
+  };
+}
+
+/**
+ * 루트 스토어의 'name/key' 정의로 슬라이스별 API를 생성합니다.
+ * @param store 루트 스토어
+ * @param slices 이름별 슬라이스 정의
+ */
+function createSlicesExtension<TSlices extends SlicesDef>(
+  store: StoreInternal<CombinedState<TSlices>, any, any, any>,
+  slices: TSlices,
+): CombinedStoresExtension<TSlices> {
+  const sliceApis: Record<string, unknown> = {};
+
+  fx(entries(slices)).each(([name, { config }]) => {
+    const computed = {};
+    const actions: Record<string, unknown> = {};
+    const asyncActions: Record<string, unknown> = {};
+    const asyncState = {};
+
+    Object.defineProperties(
+      computed,
+      Object.fromEntries(
+        Object.keys(config.computed).map((key) => [
+          key,
+          { get: () => store.computed[`${name}/${key}`], enumerable: true },
+        ]),
+      ),
+    );
+
+    fx(Object.keys(config.actions)).each((key) => {
+      actions[key] = (...args: unknown[]) => {
+        store.actions[`${name}/${key}`](...args);
+      };
+    });
+
+    fx(Object.keys(config.asyncActions)).each((key) => {
+      const rootAsyncAction = store.asyncActions[`${name}/${key}`];
+      const sliceAsyncAction = (...args: unknown[]) => {
+        const request: AsyncActionPromise<AsyncResult<AnyState>> = rootAsyncAction(...args);
+        const sliceRequest = request.then((result) =>
+          result.success ? { success: true, state: result.state[name] } : result,
+        );
+
+        return Object.assign(sliceRequest, { abort: request.abort });
+      };
+
+      asyncActions[key] = Object.assign(sliceAsyncAction, {
+        cancel: rootAsyncAction.cancel,
+        invalidate: rootAsyncAction.invalidate,
+      });
+    });
+
+    Object.defineProperties(
+      asyncState,
+      Object.fromEntries(
+        Object.keys(config.asyncActions).map((key) => [
+          key,
+          { get: () => store.asyncState[`${name}/${key}`], enumerable: true },
+        ]),
+      ),
+    );
+
+    sliceApis[name] = {
+      getState: () => store.getState()[name],
+      subscribe: (listener: (state: unknown, oldState: unknown) => void) =>
+        store.subscribePath(name, (state, oldState) => listener(state, oldState)),
+      computed,
+      actions,
+      asyncActions,
+      asyncState,
+    };
+  });
+
+  return { slices: sliceApis } as CombinedStoresExtension<TSlices>;
+}
+
+/**
+ * 여러 슬라이스를 하나의 루트 스토어로 합칩니다.
+ * 루트 상태는 슬라이스 이름 아래에 각 슬라이스 상태를 두며, 슬라이스의 계산된 값, 액션, 비동기 액션은
+ * 루트 스토어에 'name/key' 키로 등록되어 하나의 미들웨어 체인과 DevTools 인스턴스를 공유합니다.
+ * 슬라이스별 API는 store.slices[name]으로 사용할 수 있습니다.
+ * 슬라이스 비동기 액션의 성공 결과는 (캐시된 결과를 다시 적용할 때도) 적용 시점의 슬라이스 상태에 합쳐집니다.
+ *
+ * @template TSlices 이름별 슬라이스 정의 타입
+ * @param slices 이름별 슬라이스 정의 (createSlice로 생성, 이름에 '/'를 쓸 수 없음)
+ * @param options 스토어 빌더 옵션
+ * @returns 루트 스토어 설정 빌더
+ *
+ * @example
+ * const appStore = combineStores({ auth: authSlice, chat: chatSlice })
+ *   .computed({ unreadForUser: (state) => (state.auth.user ? state.chat.unread : 0) })
+ *   .middleware([createLogger()])
+ *   .devTool('App')
+ *   .build();
+ *
+ * appStore.slices.auth.actions.logout(); // 'auth/logout' 액션으로 디스패치
+ * appStore.computed.unreadForUser;
+ */
+export function combineStores<TSlices extends SlicesDef>(
+  slices: TSlices,
+  options: StoreBuilderOptions = {},
+): CombinedStoreConfigBuilder<TSlices> {
+  const initialState: AnyState = {};
+  const computed: Record<string, AnyComputedFn> = {};
+  const actions: Record<string, AnyActionFn> = {};
+  const asyncActions: Record<string, AnyAsyncActionFn> = {};
+  const asyncActionOptions: Record<string, AsyncActionOptions<AnyState>> = {};
+
+  fx(entries(slices)).each(([name, { config }]) => {
+    if (name.includes('/')) {
+      throw new Error(`[combineStores] Slice name "${name}" must not contain "/"`);
+    }
+
+    initialState[name] = config.initialState;
+
+    fx(entries(config.computed as Record<string, AnyComputedFn>)).each(([key, computedFn]) => {
+      computed[`${name}/${key}`] = scopeComputed(name, computedFn);
+    });
+
+    fx(entries(config.actions as Record<string, AnyActionFn>)).each(([key, actionFn]) => {
+      actions[`${name}/${key}`] = scopeAction(name, actionFn);
+    });
+
+    const sliceAsyncActionOptions = config.asyncActionOptions as Record<string, AsyncActionOptions<AnyState>>;
+    fx(entries(config.asyncActions as Record<string, AnyAsyncActionFn>)).each(([key, asyncActionFn]) => {
+      asyncActions[`${name}/${key}`] = scopeAsyncAction(name, asyncActionFn);
+      asyncActionOptions[`${name}/${key}`] = scopeAsyncActionOptions(name, sliceAsyncActionOptions[key]);
+    });
+  });
+
+  const createBuilder = <TComputed extends ComputedDef<CombinedState<TSlices>>>(
+    rootComputed: TComputed,
+  ): CombinedStoreBuilder<TSlices, TComputed> =>
+    new StoreBuilder<CombinedState<TSlices>>(options)
+      .initialState(initialState as CombinedState<TSlices>)
+      .computed({ ...computed, ...rootComputed } as CombinedComputedDef<TSlices, TComputed>)
+      .actions(actions as CombinedActionsDef<TSlices>)
+      .asyncActions(
+        asyncActions as CombinedAsyncActionsDef<TSlices>,
+        asyncActionOptions as AsyncActionsOptions<CombinedAsyncActionsDef<TSlices>, CombinedState<TSlices>>,
+      )
+      .enhance((store: StoreInternal<CombinedState<TSlices>>) => createSlicesExtension(store, slices));
+
+  // 루트 계산된 속성은 슬라이스 계산된 속성과 합쳐서 설정
+  return Object.assign(createBuilder({}), {
+    computed: <NewComputed extends ComputedDef<CombinedState<TSlices>>>(computedDefs: NewComputed) =>
+      createBuilder(computedDefs),
+  });
+}
@@ -0,0 +1,16 @@
+import { SliceBuilder } from './internal/SliceBuilder';
+
+/**
+ * 슬라이스 정의를 시작하는 함수 (빌더 패턴 진입점)
+ * 정의한 슬라이스는 combineStores로 하나의 루트 스토어에 합칩니다.
+ * @template TState 슬라이스 상태 타입 (객체여야 함)
+ *
+ * @example
+ * const authSlice = createSlice<AuthState>()
+ *   .initialState({ user: null, token: '' })
+ *   .computed({ isLoggedIn: (state) => state.user !== null })
+ *   .actions({ logout: () => ({ user: null, token: '' }) });
+ */
+export function createSlice<TState extends Record<string, any>>() {
+  return new SliceBuilder<TState>();
+}
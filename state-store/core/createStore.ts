@@ -1,13 +1,16 @@
 import { StoreBuilder } from './internal/StoreBuilder.ts';
+import { StoreBuilderOptions } from './types/internal/store.ts';
 
 /**
  * 스토어 생성을 시작하는 함수 (빌더 패턴 진입점)
  * @template TState 스토어의 상태(State) 타입 (객체여야 함)
+ * @param options 빌더 옵션 (mode로 서버/클라이언트 동작을 명시적으로 지정, serverMiddleware로 서버 미들웨어 적용, dynamicKeys로 상태 키 추가/제거 허용)
  *
  * @warning 서버 사이드 렌더링(SSR) 환경에서 사용 시 주의사항:
  * 이 스토어를 서버에서 싱글톤으로 사용하지 마세요.
  * 서버에서 생성된 스토어를 다수의 요청에서 공유하면 상태가 요청 간에 섞여서
  * 데이터 유출이나 예기치 않은 동작이 발생할 수 있습니다.
+ * React 렌더 트리에서 인스턴스를 공유해야 한다면 `react/createStoreContext`의 StoreProvider를 사용하세요.
  *
  * @example
  * // ❌ 잘못된 사용법 (서버에서 위험한 싱글톤 패턴):
@@ -61,6 +64,8 @@ import { StoreBuilder } from './internal/StoreBuilder.ts';
  *   // ...로직 처리 후 응답
  * }
  */
-export function createStore<TState extends Record<string, any>>(): StoreBuilder<TState> {
-  return new StoreBuilder<TState>();
+export function createStore<TState extends Record<string, any>>(
+  options: StoreBuilderOptions = {},
+): StoreBuilder<TState> {
+  return new StoreBuilder<TState>(options);
 }
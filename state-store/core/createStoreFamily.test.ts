@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from './createStore';
+import { createStoreFamily } from './createStoreFamily';
+import { CancelledError, StoreDestroyedError } from './errors';
+import { mutate } from './mutate';
+
+type RoomState = {
+  id: string;
+  messages: string[];
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createRoomFamily(onEvict = jest.fn()) {
+  return createStoreFamily(
+    (id: string) =>
+      createStore<RoomState>({ mode: 'server' })
+        .initialState({ id, messages: [] })
+        .actions({
+          add: (message: string) =>
+            mutate<RoomState>((draft) => {
+              draft.messages.push(message);
+            }),
+        })
+        .asyncActions({
+          load: async () => {
+            await sleep(10);
+            return { success: true as const, state: { messages: ['loaded'] } };
+          },
+        }),
+    { maxIdle: 2, onEvict },
+  );
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+test('returns the same instance for a key until it is evicted', () => {
+  const rooms = createRoomFamily();
+
+  rooms.get('a').actions.add('hi');
+
+  expect(rooms.get('a')).toBe(rooms.get('a'));
+  expect(rooms.get('a').getState()).toEqual({ id: 'a', messages: ['hi'] });
+  expect(rooms.get('b').getState()).toEqual({ id: 'b', messages: [] });
+});
+
+test('evicts the least recently used idle instances but keeps retained ones', () => {
+  const onEvict = jest.fn();
+  const rooms = createRoomFamily(onEvict);
+  const release = rooms.retain('a');
+
+  rooms.get('b');
+  rooms.get('c');
+  rooms.get('d');
+
+  expect(onEvict).toHaveBeenCalledTimes(1);
+  expect(onEvict).toHaveBeenCalledWith(expect.anything(), 'b');
+  expect(rooms.keys().sort()).toEqual(['a', 'c', 'd']);
+
+  release();
+  expect(onEvict).toHaveBeenLastCalledWith(expect.anything(), 'c');
+  expect(rooms.keys().sort()).toEqual(['a', 'd']);
+});
+
+test('counts references and ignores repeated releases', () => {
+  const rooms = createRoomFamily();
+  const releaseFirst = rooms.retain('a');
+  rooms.retain('a');
+
+  expect(rooms.getRefCount('a')).toBe(2);
+  releaseFirst();
+  releaseFirst();
+  expect(rooms.getRefCount('a')).toBe(1);
+});
+
+test('destroys evicted instances and cancels their async work', async () => {
+  const rooms = createRoomFamily();
+  const room = rooms.get('a');
+  const listener = jest.fn();
+  room.subscribe(listener);
+  const pending = room.asyncActions.load();
+
+  expect(rooms.evict('a')).toBe(true);
+
+  const result = await pending;
+  expect(result.success).toBe(false);
+  expect(!result.success && result.error).toBeInstanceOf(CancelledError);
+  expect(() => room.actions.add('late')).toThrow(StoreDestroyedError);
+  expect(listener).not.toHaveBeenCalled();
+  expect(rooms.get('a')).not.toBe(room);
+});
+
+test('keeps keys of different types apart', () => {
+  const family = createStoreFamily((id: string | number) =>
+    createStore<{ id: string }>({ mode: 'server' }).initialState({ id: `${typeof id}:${id}` }),
+  );
+
+  expect(family.get(1).getState().id).toBe('number:1');
+  expect(family.get('1').getState().id).toBe('string:1');
+  expect(family.size).toBe(2);
+});
+
+test('clear evicts every instance', () => {
+  const onEvict = jest.fn();
+  const rooms = createRoomFamily(onEvict);
+  rooms.retain('a');
+  rooms.get('b');
+
+  rooms.clear();
+
+  expect(rooms.size).toBe(0);
+  expect(onEvict.mock.calls.map(([, key]) => key).sort()).toEqual(['a', 'b']);
+});
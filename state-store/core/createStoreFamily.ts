@@ -0,0 +1,37 @@
+import { StoreFamily } from './internal/StoreFamily.ts';
+import { FamilyStore, StoreFamilyFactory, StoreFamilyOptions } from './types/internal/family.ts';
+
+/**
+ * 키별로 스토어 인스턴스를 만드는 스토어 패밀리를 생성합니다.
+ * 인스턴스는 처음 접근할 때 생성되며, retain으로 참조하는 동안 유지되고
+ * 참조가 모두 해제되면 maxIdle, idleTime에 따라 자동으로 제거됩니다.
+ * 제거된 인스턴스는 destroy()로 해제되어 진행 중인 비동기 작업이 취소되고 모든 구독자가 제거됩니다.
+ * 패밀리는 구독 여부를 보지 않으므로, 구독하는 동안에는 retain으로 인스턴스를 참조해야 합니다.
+ *
+ * @warning 서버에서 모듈 수준의 패밀리를 여러 요청이 공유하면 요청 간에 상태가 섞일 수 있습니다.
+ *
+ * @template TKey 인스턴스 키 타입
+ * @template TStore 스토어 인스턴스 타입
+ * @param factory 키로 스토어 빌더나 스토어를 만드는 함수
+ * @param options 스토어 패밀리 옵션
+ * @returns 스토어 패밀리
+ *
+ * @example
+ * const roomStores = createStoreFamily(
+ *   (roomId: string) =>
+ *     createStore<RoomState>()
+ *       .initialState({ roomId, messages: [] })
+ *       .asyncActions({ load: async () => fetchRoom(roomId) }),
+ *   { maxIdle: 5, onEvict: (store, roomId) => saveDraft(roomId, store.getState()) },
+ * );
+ *
+ * const release = roomStores.retain('general');
+ * roomStores.get('general').asyncActions.load();
+ * release(); // 참조가 없으면 LRU 캐시로 옮겨져 maxIdle을 넘을 때 제거
+ */
+export function createStoreFamily<TKey, TStore extends FamilyStore>(
+  factory: StoreFamilyFactory<TKey, TStore>,
+  options: StoreFamilyOptions<TKey, TStore> = {},
+): StoreFamily<TKey, TStore> {
+  return new StoreFamily(factory, options);
+}
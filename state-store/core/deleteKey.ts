@@ -0,0 +1,44 @@
+import { fx } from '@fxts/core';
+
+/**
+ * 상태 키 삭제를 표시하는 값
+ * dynamicKeys 옵션을 켠 스토어에서 액션 결과의 값으로 반환하면 해당 키를 상태에서 제거합니다.
+ * 옵션을 켜지 않은 스토어에서는 적용되지 않으며, 개발 환경에서 액션 이름과 함께 경고를 출력합니다.
+ *
+ * @example
+ * const userStore = createStore<Record<string, User>>({ dynamicKeys: true })
+ *   .initialState({})
+ *   .actions({
+ *     upsertUser: (user: User) => ({ [user.id]: user }),
+ *     removeUser: (id: string) => ({ [id]: deleteKey }),
+ *   })
+ *   .build();
+ */
+export const deleteKey: unique symbol = Symbol('deleteKey');
+
+/**
+ * 상태 키 삭제 표시 타입
+ */
+export type DeleteKey = typeof deleteKey;
+
+/**
+ * 다음 상태로 교체하기 위한 업데이트를 만듭니다.
+ * 현재 상태에만 있는 키는 deleteKey로 표시하여, 되돌리기나 롤백으로 추가되었던 키도 제거되게 합니다.
+ * @param current 현재 상태
+ * @param next 교체할 상태
+ * @returns next와 삭제할 키로 구성된 업데이트
+ */
+export function withDeletedKeys<TState extends Record<string, any>>(
+  current: Readonly<TState>,
+  next: Readonly<TState>,
+): Record<string, unknown> {
+  const update: Record<string, unknown> = { ...next };
+
+  fx(Object.keys(current))
+    .filter((key) => !Object.hasOwn(next, key))
+    .each((key) => {
+      update[key] = deleteKey;
+    });
+
+  return update;
+}
@@ -0,0 +1,78 @@
+import { SchemaIssue } from '../utils/schema.ts';
+
+/**
+ * 비동기 액션 시간 초과 오류
+ * 비동기 액션이 timeout 옵션으로 지정한 시간 안에 끝나지 않으면 asyncState[key].error로 전달됩니다.
+ */
+export class TimeoutError extends Error {
+  /**
+   * 초과된 제한 시간(ms)
+   */
+  readonly timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * 비동기 액션 취소 오류
+ * 호출자가 요청을 취소하면(handle.abort, asyncActions[key].cancel, cancelAllAsync) 요청 결과의 error로 전달됩니다.
+ */
+export class CancelledError extends Error {
+  /**
+   * 취소 시 전달된 사유
+   */
+  readonly reason: unknown;
+
+  constructor(reason?: unknown) {
+    super(typeof reason === 'string' ? reason : 'Async action was cancelled');
+    this.name = 'CancelledError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * 상태 스키마 검증 오류
+ * .schema()로 등록한 검증을 통과하지 못한 상태 업데이트는 커밋되지 않고 이 오류로 거부됩니다.
+ */
+export class SchemaValidationError extends Error {
+  /**
+   * 거부된 액션 타입
+   */
+  readonly actionType: string;
+
+  /**
+   * 검증 실패 항목 목록
+   */
+  readonly issues: SchemaIssue[];
+
+  constructor(actionType: string, issues: SchemaIssue[]) {
+    super(
+      `Action "${actionType}" failed schema validation: ` +
+        issues.map((issue) => `${issue.path}: ${issue.message}`).join('; '),
+    );
+    this.name = 'SchemaValidationError';
+    this.actionType = actionType;
+    this.issues = issues;
+  }
+}
+
+/**
+ * 해제된 스토어 사용 오류
+ * destroy()로 해제된 스토어의 액션이나 비동기 액션을 호출하면 던져집니다.
+ */
+export class StoreDestroyedError extends Error {
+  /**
+   * 호출된 액션 타입
+   */
+  readonly actionType: string;
+
+  constructor(actionType: string) {
+    super(`Cannot run action "${actionType}" because the store has been destroyed`);
+    this.name = 'StoreDestroyedError';
+    this.actionType = actionType;
+  }
+}
@@ -1,7 +1,15 @@
 import { ActionsDef, AsyncActionsDef, ComputedDef } from '../types/public-types.ts';
 import { Action, ActionsApi } from '../types/internal/action.ts';
 import { StoreInternal } from '../types/internal/store.ts';
-import { fx, keys } from '@fxts/core';
+import { UpdateOptions } from './state/interfaces.ts';
+import { produceWithPaths } from '../../utils/draft.ts';
+import { StateValidator } from '../../utils/schema.ts';
+import { ErrorBoundary, globalErrorBoundary } from '../../utils/errorBoundary';
+import { SchemaValidationError } from '../errors.ts';
+import { deleteKey } from '../deleteKey.ts';
+import { isMutation, MUTATE } from '../mutate.ts';
+import { isDevelopment } from '../../utils/env';
+import { fx } from '@fxts/core';
 
 /**
  * 액션 관리자 - 동기 액션을 처리하고 관리합니다.
@@ -18,23 +26,48 @@ export class ActionManager<
 > {
   private readonly actions: TActions;
   private readonly store: StoreInternal<TState, TComputed, TActions, TAsyncActions>;
+  private readonly validator?: StateValidator<TState>;
+  private readonly errorBoundary: ErrorBoundary;
+  private readonly dynamicKeys: boolean;
+  private readonly dispatch: (action: Action) => unknown;
 
-  constructor(actions: TActions, store: StoreInternal<TState, TComputed, TActions, TAsyncActions>) {
+  constructor(
+    actions: TActions,
+    store: StoreInternal<TState, TComputed, TActions, TAsyncActions>,
+    validator?: StateValidator<TState>,
+    errorBoundary: ErrorBoundary = globalErrorBoundary,
+    dynamicKeys = false,
+    dispatch: (action: Action) => unknown = (action) => store.dispatch(action),
+  ) {
     this.actions = actions;
     this.store = store;
+    this.validator = validator;
+    this.errorBoundary = errorBoundary;
+    this.dynamicKeys = dynamicKeys;
+    this.dispatch = dispatch;
   }
 
   /**
    * 기본 디스패치 함수를 생성합니다.
+   * 드래프트 액션이 변경 경로(meta.changedPaths)를 전달하면 구조 비교 없이 해당 경로로 알림을 보냅니다.
+   * 스키마가 설정된 경우 상태 업데이트를 커밋하기 전에 검증하며, 실패하면 적용하지 않고 SchemaValidationError를 던집니다.
+   * dynamicKeys 모드가 아니면 초기 상태에 없는 키와 키 제거는 적용되지 않으며, 개발 환경에서 경고를 출력합니다.
    * @param setState 상태 업데이트 함수
    * @returns 디스패치 함수
    */
-  createDispatcher(setState: (state: Partial<TState>) => void): (action: Action) => any {
+  createDispatcher(
+    setState: (state: Partial<TState>, options?: UpdateOptions) => void,
+  ): (action: Action) => any {
     return (action: Action): any => {
       // 상태 업데이트 액션 처리 - 메타데이터로 구분
       if (action.meta?.isStateUpdate) {
         if (action.payload && Object.keys(action.payload).length > 0) {
-          setState(action.payload);
+          this.warnUnknownKeys(action);
+          const actionType = (action.meta.originalActionType as string | undefined) ?? action.type;
+          this.validate(action.payload, actionType);
+
+          const changedPaths = action.meta.changedPaths as string[] | undefined;
+          setState(action.payload, changedPaths ? { changedPaths } : {});
         }
         return this.store;
       }
@@ -43,19 +76,103 @@ export class ActionManager<
     };
   }
 
+  /**
+   * dynamicKeys 모드가 아닐 때 현재 상태에 없는 키를 갱신하거나 키를 제거하려는 액션을 경고합니다. (개발 환경 전용)
+   * 해당 키는 상태에 적용되지 않습니다.
+   * @param action 상태 업데이트 액션
+   */
+  private warnUnknownKeys(action: Action): void {
+    if (this.dynamicKeys || !isDevelopment) return;
+
+    const currentState = this.store.getState();
+    const payload = action.payload as Record<string, unknown>;
+    const actionType = (action.meta?.originalActionType as string | undefined) ?? action.type;
+
+    const unknownKeys = Object.keys(payload).filter(
+      (stateKey) => !Object.hasOwn(currentState, stateKey) && payload[stateKey] !== deleteKey,
+    );
+    const deletedKeys = Object.keys(payload).filter((stateKey) => payload[stateKey] === deleteKey);
+
+    if (unknownKeys.length > 0) {
+      console.warn(
+        `[Store] Action "${actionType}" set state keys not in initialState (${unknownKeys.join(', ')}). ` +
+          'They were ignored. Enable the dynamicKeys option to add keys at runtime.',
+      );
+    }
+
+    if (deletedKeys.length > 0) {
+      console.warn(
+        `[Store] Action "${actionType}" tried to delete state keys (${deletedKeys.join(', ')}). ` +
+          'They were kept. Enable the dynamicKeys option to remove keys at runtime.',
+      );
+    }
+  }
+
+  /**
+   * 상태 업데이트가 적용된 다음 상태를 스키마로 검증합니다.
+   * 디스패치뿐 아니라 액션을 거치지 않는 상태 설정(hydrate, _setState)에서도 커밋 전에 호출됩니다.
+   * 실패하면 오류 경계에 보고한 뒤 SchemaValidationError를 던집니다.
+   * @param payload 적용할 부분 상태
+   * @param actionType 오류에 표시할 업데이트 출처 (액션 타입)
+   */
+  validate(payload: Partial<TState>, actionType: string): void {
+    if (!this.validator) return;
+
+    const currentState = this.store.getState();
+    const changedKeys = Object.keys(payload).filter(
+      (stateKey) =>
+        (this.dynamicKeys || Object.hasOwn(currentState, stateKey)) &&
+        payload[stateKey] !== currentState[stateKey],
+    );
+
+    if (changedKeys.length === 0) return;
+
+    // 제거되는 키를 뺀 다음 상태로 검증
+    const nextState = { ...currentState, ...payload } as Record<string, unknown>;
+    fx(Object.keys(payload))
+      .filter((stateKey) => payload[stateKey] === deleteKey)
+      .each((stateKey) => {
+        if (this.dynamicKeys) {
+          delete nextState[stateKey];
+        } else {
+          nextState[stateKey] = currentState[stateKey];
+        }
+      });
+
+    const issues = this.validator(nextState as TState, { changedKeys, actionType }) ?? [];
+
+    if (issues.length === 0) return;
+
+    const error = new SchemaValidationError(actionType, issues);
+    this.errorBoundary.report(error, { actionType, statePath: issues[0].path });
+
+    throw error;
+  }
+
   /**
    * 액션 API를 생성합니다.
    * @returns 액션 API 객체
    */
   createActionsApi(): ActionsApi<TState, TActions, TComputed, TAsyncActions> {
-    const api = {} as ActionsApi<TState, TActions, TComputed, TAsyncActions>;
+    return this.createActionsApiFor(this.actions);
+  }
+
+  /**
+   * 주어진 액션 정의로 액션 API를 생성합니다. (런타임에 주입된 액션에도 사용)
+   * @param actionDefs 액션 정의 객체
+   * @returns 액션 API 객체
+   */
+  createActionsApiFor<TDefs extends ActionsDef<TState>>(
+    actionDefs: TDefs,
+  ): ActionsApi<TState, TDefs, TComputed, TAsyncActions> {
+    const api = {} as ActionsApi<TState, TDefs, TComputed, TAsyncActions>;
 
-    fx(keys(this.actions))
-      .filter((key) => Object.hasOwn(this.actions, key) && !!this.actions[key])
+    fx(Object.keys(actionDefs))
+      .filter((key) => Object.hasOwn(actionDefs, key) && !!actionDefs[key])
       .each((key) => {
-        const actionKey = key as keyof TActions;
-        const actionFn = this.actions[actionKey];
-        api[actionKey] = this.createActionWrapper(key, actionFn);
+        const actionKey = key as keyof TDefs;
+        const actionFn = actionDefs[actionKey] as unknown as TActions[keyof TActions];
+        api[actionKey] = this.createActionWrapper(key, actionFn) as unknown as (typeof api)[keyof TDefs];
       });
 
     return api;
@@ -71,11 +188,34 @@ export class ActionManager<
     return (...args: Parameters<TActions[K]>): StoreInternal<TState, TComputed, TActions, TAsyncActions> => {
       const result = actionFn(...args);
       let stateUpdatePayload: Partial<TState>;
+      let changedPaths: string[] | undefined;
 
-      if (typeof result === 'function') {
-        stateUpdatePayload = result(this.store.getState());
+      if (isMutation<TState>(result)) {
+        const currentState = this.store.getState();
+        const draftResult = produceWithPaths(currentState, result[MUTATE]);
+
+        // 드래프트 업데이트는 반환값 없이 드래프트만 수정해야 함
+        if (draftResult.result !== undefined && draftResult.result !== draftResult.state) {
+          throw new Error(
+            `[ActionManager] Action "${key}" must modify the draft in mutate() instead of returning a value`,
+          );
+        }
+
+        stateUpdatePayload = this.pickChangedKeys(currentState, draftResult.state);
+        changedPaths = draftResult.changedPaths;
+      } else if (typeof result === 'function') {
+        const update = result(this.store.getState()) as Partial<TState> | undefined;
+
+        // 드래프트 없이 실행되므로 상태를 직접 수정한 업데이트 함수는 반영되지 않음
+        if (update === undefined && isDevelopment) {
+          console.warn(
+            `[ActionManager] Action "${key}" returned no state update. Wrap the updater in mutate() to modify a draft.`,
+          );
+        }
+
+        stateUpdatePayload = update ?? {};
       } else {
-        stateUpdatePayload = result;
+        stateUpdatePayload = result as Partial<TState>;
       }
 
       // 액션 타입을 원래 액션 함수 이름으로 설정하여 DevTools에서 식별 가능하게 합니다
@@ -85,12 +225,38 @@ export class ActionManager<
         meta: {
           isStateUpdate: true, // 상태 업데이트임을 표시하는 플래그
           args,
+          ...(changedPaths && { changedPaths }),
         },
       } as Action;
 
-      this.store.dispatch(actionToDispatch);
+      this.dispatch(actionToDispatch);
 
       return this.store;
     };
   }
+
+  /**
+   * 드래프트 결과에서 참조가 바뀐 최상위 키만 추출합니다.
+   * 드래프트에서 delete로 제거한 최상위 키는 deleteKey로 표시합니다.
+   * @param currentState 드래프트 생성 전 상태
+   * @param nextState 드래프트 수정이 반영된 상태
+   * @returns 변경된 최상위 키로 구성된 부분 상태
+   */
+  private pickChangedKeys(currentState: Readonly<TState>, nextState: TState): Partial<TState> {
+    const payload: Record<string, unknown> = {};
+
+    fx(Object.keys(nextState))
+      .filter((stateKey) => nextState[stateKey] !== currentState[stateKey])
+      .each((stateKey) => {
+        payload[stateKey] = nextState[stateKey];
+      });
+
+    fx(Object.keys(currentState))
+      .filter((stateKey) => !Object.hasOwn(nextState, stateKey))
+      .each((stateKey) => {
+        payload[stateKey] = deleteKey;
+      });
+
+    return payload as Partial<TState>;
+  }
 }
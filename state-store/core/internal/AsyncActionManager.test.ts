@@ -0,0 +1,475 @@
+/**
+ * @jest-environment node
+ */
+import { debounce } from '../../utils/asyncHelpers';
+import { createStore } from '../createStore';
+import { CancelledError, TimeoutError } from '../errors';
+import { Action } from '../types/internal/action';
+import { Middleware } from '../types/internal/store';
+import { AsyncActionsOptions } from '../types/public-types';
+
+type SearchState = {
+  query: string;
+};
+
+// jest 27의 node 환경은 DOMException을 전역으로 노출하지 않으므로 AbortSignal이 만든 오류의 생성자를 사용
+globalThis.DOMException ??= AbortSignal.abort().reason.constructor;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createSearchStore(options: AsyncActionsOptions<{ run: unknown }, SearchState>, delay = 10) {
+  const calls: string[] = [];
+  const store = createStore<SearchState>({ mode: 'server' })
+    .initialState({ query: '' })
+    .asyncActions(
+      {
+        run: async (query: string) => {
+          calls.push(query);
+          await sleep(delay);
+          return { success: true as const, state: { query } };
+        },
+      },
+      options,
+    )
+    .build();
+
+  return { store, calls };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('concurrency policies', () => {
+  test('latest aborts the earlier request and applies only the last result', async () => {
+    const { store } = createSearchStore({});
+
+    const results = await Promise.all([store.asyncActions.run('a'), store.asyncActions.run('b')]);
+
+    expect(results.map((result) => result.success)).toEqual([false, true]);
+    expect(store.getState().query).toBe('b');
+  });
+
+  test('every runs all requests in parallel and applies each result', async () => {
+    const { store } = createSearchStore({ run: { policy: 'every' } });
+
+    const requests = [store.asyncActions.run('a'), store.asyncActions.run('b'), store.asyncActions.run('c')];
+    expect(store.asyncState.run).toMatchObject({ pending: true, pendingCount: 3 });
+    const results = await Promise.all(requests);
+
+    expect(results.map((result) => result.success)).toEqual([true, true, true]);
+    expect(store.getState().query).toBe('c');
+    expect(store.asyncState.run).toMatchObject({ pending: false, pendingCount: 0, loaded: true });
+  });
+
+  test('leading ignores calls while a request is in flight', async () => {
+    const { store, calls } = createSearchStore({ run: { policy: 'leading' } });
+
+    const results = await Promise.all([store.asyncActions.run('a'), store.asyncActions.run('b')]);
+
+    expect(calls).toEqual(['a']);
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(store.getState().query).toBe('a');
+  });
+
+  test('queue runs requests one after another in call order', async () => {
+    const { store, calls } = createSearchStore({ run: { policy: 'queue' } });
+
+    const requests = [store.asyncActions.run('1'), store.asyncActions.run('2'), store.asyncActions.run('3')];
+    expect(calls).toEqual([]);
+    await sleep(0);
+    expect(calls).toEqual(['1']);
+    await Promise.all(requests);
+
+    expect(calls).toEqual(['1', '2', '3']);
+    expect(store.getState().query).toBe('3');
+  });
+
+  test('debounce runs only the last call and resolves every caller with its result', async () => {
+    const { store, calls } = createSearchStore({ run: { policy: debounce(20) } });
+
+    const results = await Promise.all([
+      store.asyncActions.run('a'),
+      store.asyncActions.run('ab'),
+      store.asyncActions.run('abc'),
+    ]);
+
+    expect(calls).toEqual(['abc']);
+    expect(results).toEqual([
+      { success: true, state: { query: 'abc' } },
+      { success: true, state: { query: 'abc' } },
+      { success: true, state: { query: 'abc' } },
+    ]);
+  });
+
+  test('throws for an unknown policy', () => {
+    const { store } = createSearchStore({ run: { policy: 'parallel' as 'every' } });
+
+    expect(() => store.asyncActions.run('a')).toThrow('Unknown policy "parallel"');
+  });
+});
+
+describe('timeout and retry', () => {
+  function createFlakyStore(failures: number, options: AsyncActionsOptions<{ load: unknown }, SearchState>) {
+    const attempts: number[] = [];
+    const store = createStore<SearchState>({ mode: 'server' })
+      .initialState({ query: '' })
+      .asyncActions(
+        {
+          load: async () => {
+            attempts.push(Date.now());
+            if (attempts.length <= failures) throw new Error(`failure ${attempts.length}`);
+            return { success: true as const, state: { query: `attempt ${attempts.length}` } };
+          },
+        },
+        options,
+      )
+      .build();
+
+    return { store, attempts };
+  }
+
+  test('retries failed attempts and reports the current attempt', async () => {
+    const { store, attempts } = createFlakyStore(2, { load: { retry: { attempts: 3, delay: 1 } } });
+    const reportedAttempts: (number | undefined)[] = [];
+    store.subscribeAsyncState(() => {
+      if (store.asyncState.load.pending) reportedAttempts.push(store.asyncState.load.attempt);
+    });
+
+    const result = await store.asyncActions.load();
+
+    expect(result).toEqual({ success: true, state: { query: 'attempt 3' } });
+    expect(attempts).toHaveLength(3);
+    expect(reportedAttempts).toEqual([1, 2, 3]);
+    expect(store.asyncState.load).toMatchObject({ pending: false, loaded: true, error: null, attempt: 3 });
+  });
+
+  test('waits longer between attempts with exponential backoff', async () => {
+    const { store, attempts } = createFlakyStore(2, { load: { retry: { attempts: 2, delay: 20 } } });
+
+    await store.asyncActions.load();
+
+    expect(attempts[1] - attempts[0]).toBeGreaterThanOrEqual(15);
+    expect(attempts[2] - attempts[1]).toBeGreaterThanOrEqual(35);
+  });
+
+  test('stops retrying when retryIf rejects the error', async () => {
+    const { store, attempts } = createFlakyStore(5, {
+      load: { retry: { attempts: 5, delay: 1, retryIf: (error) => error.message !== 'failure 2' } },
+    });
+
+    const result = await store.asyncActions.load();
+
+    expect(result.success).toBe(false);
+    expect(attempts).toHaveLength(2);
+    expect(store.asyncState.load.error?.message).toBe('failure 2');
+  });
+
+  test('fails an attempt with TimeoutError and aborts its signal', async () => {
+    let signal: AbortSignal | undefined;
+    const store = createStore<SearchState>({ mode: 'server' })
+      .initialState({ query: '' })
+      .asyncActions(
+        {
+          hang: (context?: { signal: AbortSignal }) => {
+            signal = context?.signal;
+            return new Promise<{ success: true; state: Partial<SearchState> }>(() => {});
+          },
+        },
+        { hang: { timeout: 10 } },
+      )
+      .build();
+
+    const result = await store.asyncActions.hang();
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toBeInstanceOf(TimeoutError);
+    expect(store.asyncState.hang.error).toBeInstanceOf(TimeoutError);
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe('optimistic updates', () => {
+  type LikeState = {
+    likes: number;
+    comments: string[];
+  };
+
+  // 서버에 확정된 좋아요 수
+  const serverLikes = {
+    total: 0,
+    add(count: number) {
+      this.total += count;
+      return this.total;
+    },
+  };
+
+  beforeEach(() => {
+    serverLikes.total = 0;
+  });
+
+  function createLikeStore() {
+    return createStore<LikeState>({ mode: 'server' })
+      .initialState({ likes: 0, comments: [] })
+      .actions({
+        addComment: (comment: string) => (state: LikeState) => ({ comments: [...state.comments, comment] }),
+      })
+      .asyncActions(
+        {
+          like: async (count: number, delay: number, fail: boolean) => {
+            await sleep(delay);
+            if (fail) return { success: false as const, error: new Error('like failed') };
+            return { success: true as const, state: { likes: serverLikes.add(count) } };
+          },
+        },
+        {
+          like: {
+            policy: 'every',
+            optimistic: (state: LikeState, count: number) => ({ likes: state.likes + count }),
+          },
+        },
+      )
+      .build();
+  }
+
+  test('applies the patch immediately and replaces it with the result', async () => {
+    const store = createLikeStore();
+
+    const request = store.asyncActions.like(2, 5, false);
+    expect(store.getState().likes).toBe(2);
+
+    await request;
+    expect(store.getState().likes).toBe(2);
+  });
+
+  test('rolls back a failed request and keeps the other pending patches', async () => {
+    const store = createLikeStore();
+
+    const failing = store.asyncActions.like(1, 20, true);
+    const succeeding = store.asyncActions.like(10, 5, false);
+    expect(store.getState().likes).toBe(11);
+
+    await succeeding;
+    expect(store.getState().likes).toBe(11);
+
+    await failing;
+    expect(store.getState().likes).toBe(10);
+    expect(store.asyncState.like.error?.message).toBe('like failed');
+  });
+
+  test('keeps updates made while the request was pending', async () => {
+    const store = createLikeStore();
+
+    const request = store.asyncActions.like(1, 5, true);
+    store.actions.addComment('nice');
+    await request;
+
+    expect(store.getState()).toEqual({ likes: 0, comments: ['nice'] });
+  });
+});
+
+describe('cancellation', () => {
+  type CountState = {
+    count: number;
+    likes: number;
+  };
+
+  function createCountStore() {
+    return createStore<CountState>({ mode: 'server' })
+      .initialState({ count: 0, likes: 0 })
+      .asyncActions(
+        {
+          load: async (count: number) => {
+            await sleep(10);
+            return { success: true as const, state: { count } };
+          },
+          like: async (likes: number) => {
+            await sleep(10);
+            return { success: true as const, state: { likes } };
+          },
+        },
+        {
+          load: { policy: 'every' },
+          like: { optimistic: (state: CountState, likes: number) => ({ likes: state.likes + likes }) },
+        },
+      )
+      .build();
+  }
+
+  test('abort() on the returned promise cancels only that request', async () => {
+    const store = createCountStore();
+
+    const kept = store.asyncActions.load(1);
+    const aborted = store.asyncActions.load(2);
+    aborted.abort('not needed');
+    const [keptResult, abortedResult] = await Promise.all([kept, aborted]);
+
+    expect(keptResult.success).toBe(true);
+    expect(abortedResult.success).toBe(false);
+    expect(!abortedResult.success && abortedResult.error).toBeInstanceOf(CancelledError);
+    expect(!abortedResult.success && (abortedResult.error as CancelledError).reason).toBe('not needed');
+    await sleep(20);
+    expect(store.getState().count).toBe(1);
+  });
+
+  test('cancel() cancels every in-flight request of the action', async () => {
+    const store = createCountStore();
+
+    const requests = [store.asyncActions.load(1), store.asyncActions.load(2)];
+    store.asyncActions.load.cancel();
+    const results = await Promise.all(requests);
+
+    expect(results.map((result) => result.success)).toEqual([false, false]);
+    expect(store.asyncState.load).toMatchObject({ pending: false, cancelled: true, error: null });
+    await sleep(20);
+    expect(store.getState().count).toBe(0);
+  });
+
+  test('cancelAllAsync cancels every action and rolls back optimistic patches', async () => {
+    const store = createCountStore();
+
+    const requests = [store.asyncActions.load(1), store.asyncActions.like(5)];
+    expect(store.getState().likes).toBe(5);
+    store.cancelAllAsync('leaving page');
+    await Promise.all(requests);
+
+    expect(store.getState()).toEqual({ count: 0, likes: 0 });
+    expect(store.asyncState.like.cancelled).toBe(true);
+  });
+
+  test('a new call clears the cancelled flag', async () => {
+    const store = createCountStore();
+
+    const cancelled = store.asyncActions.load(1);
+    store.asyncActions.load.cancel();
+    await cancelled;
+    await store.asyncActions.load(2);
+
+    expect(store.asyncState.load).toMatchObject({ cancelled: false, loaded: true });
+    expect(store.getState().count).toBe(2);
+  });
+});
+
+describe('result cache', () => {
+  type UserState = {
+    user: string | null;
+  };
+
+  function createUserStore(staleTime: number) {
+    const calls: number[] = [];
+    const store = createStore<UserState>({ mode: 'server' })
+      .initialState({ user: null })
+      .asyncActions(
+        {
+          load: async (id: number) => {
+            calls.push(id);
+            await sleep(5);
+            return { success: true as const, state: { user: `user ${id} #${calls.length}` } };
+          },
+        },
+        { load: { cache: { staleTime } } },
+      )
+      .build();
+
+    return { store, calls };
+  }
+
+  test('shares one request between concurrent calls with the same arguments', async () => {
+    const { store, calls } = createUserStore(1000);
+
+    const [first, second] = await Promise.all([store.asyncActions.load(1), store.asyncActions.load(1)]);
+
+    expect(calls).toEqual([1]);
+    expect(first).toEqual(second);
+  });
+
+  test('returns fresh cached results without running the action and applies them again', async () => {
+    const { store, calls } = createUserStore(1000);
+    await store.asyncActions.load(1);
+    await store.asyncActions.load(2);
+
+    const result = await store.asyncActions.load(1);
+
+    expect(calls).toEqual([1, 2]);
+    expect(result).toEqual({ success: true, state: { user: 'user 1 #1' } });
+    expect(store.getState().user).toBe('user 1 #1');
+    expect(Object.keys(store.asyncCache.load)).toEqual(['[1]', '[2]']);
+  });
+
+  test('returns stale results right away and revalidates them in the background', async () => {
+    const { store, calls } = createUserStore(10);
+    await store.asyncActions.load(1);
+    await sleep(20);
+
+    const result = await store.asyncActions.load(1);
+
+    expect(result).toEqual({ success: true, state: { user: 'user 1 #1' } });
+    expect(store.asyncState.load).toMatchObject({ pending: false, revalidating: true });
+    await sleep(20);
+    expect(calls).toEqual([1, 1]);
+    expect(store.getState().user).toBe('user 1 #2');
+    expect(store.asyncState.load.revalidating).toBeFalsy();
+  });
+
+  test('invalidate marks entries stale and refetches the active one', async () => {
+    const { store, calls } = createUserStore(1000);
+    await store.asyncActions.load(2);
+    await store.asyncActions.load(1);
+
+    store.asyncActions.load.invalidate((args: [number]) => args[0] === 1);
+    expect(store.asyncCache.load['[1]'].isStale).toBe(true);
+    store.asyncActions.load.invalidate('[2]');
+    await sleep(20);
+
+    expect(calls).toEqual([2, 1, 1]);
+    expect(store.getState().user).toBe('user 1 #3');
+    expect(store.asyncCache.load['[2]'].isStale).toBe(true);
+  });
+});
+
+describe('lifecycle actions', () => {
+  function createRecordedStore() {
+    const actions: Action[] = [];
+    const recorder: Middleware<SearchState> = () => (next) => (action) => {
+      actions.push(action);
+      return next(action);
+    };
+    const store = createStore<SearchState>({ mode: 'client' })
+      .initialState({ query: '' })
+      .asyncActions({
+        search: async (query: string) => {
+          await sleep(5);
+          if (!query) return { success: false as const, error: new Error('empty query') };
+          return { success: true as const, state: { query } };
+        },
+      })
+      .middleware([recorder])
+      .build();
+
+    return { store, actions };
+  }
+
+  test('dispatches pending and fulfilled actions with the request metadata', async () => {
+    const { store, actions } = createRecordedStore();
+
+    await store.asyncActions.search('state');
+
+    expect(actions.map((action) => action.type)).toEqual(['search/pending', 'search/fulfilled']);
+    const [pending, fulfilled] = actions;
+    expect(pending.meta).toMatchObject({ asyncAction: 'search', phase: 'pending', args: ['state'] });
+    expect(fulfilled.payload).toEqual({ query: 'state' });
+    expect(fulfilled.meta).toMatchObject({ requestId: pending.meta?.requestId, isStateUpdate: true });
+    expect(fulfilled.meta?.duration).toEqual(expect.any(Number));
+    expect(store.getState().query).toBe('state');
+  });
+
+  test('dispatches a rejected action when the request fails', async () => {
+    const { store, actions } = createRecordedStore();
+
+    await store.asyncActions.search('');
+
+    expect(actions.map((action) => action.type)).toEqual(['search/pending', 'search/rejected']);
+    expect(actions[1].meta).toMatchObject({ asyncAction: 'search', phase: 'rejected', args: [''] });
+  });
+});
@@ -1,7 +1,36 @@
-import { AsyncActionsDef, AsyncResult } from '../types/public-types.ts';
-import { AsyncState } from '../types/internal/state.ts';
+import {
+  AsyncActionContext,
+  AsyncActionPolicy,
+  AsyncActionsDef,
+  AsyncActionsOptions,
+  AsyncResult,
+  AsyncRetryOptions,
+} from '../types/public-types.ts';
+import { Action, ActionMeta, AsyncActionPromise } from '../types/internal/action.ts';
+import { AsyncCacheState, AsyncState, DehydratedAsyncState } from '../types/internal/state.ts';
+import { CancelledError, SchemaValidationError, TimeoutError } from '../errors.ts';
+import { LRUCache } from '../../utils/lruCache';
 import { fx, keys } from '@fxts/core';
 
+// 기본 요청 제한 시간 (1분)
+const DEFAULT_TIMEOUT = 60000;
+// 기본 재시도 대기 시간 (ms)
+const DEFAULT_RETRY_DELAY = 1000;
+// 기본 캐시 보관 시간 (5분)
+const DEFAULT_CACHE_TIME = 300000;
+// 기본 최대 캐시 항목 수
+const DEFAULT_CACHE_SIZE = 100;
+
+/**
+ * 결과 캐시 항목
+ */
+interface QueryCacheEntry<TData> {
+  args: unknown[];
+  data: TData;
+  updatedAt: number;
+  invalidated: boolean;
+}
+
 /**
  * 비동기 액션 관리자 - 비동기 액션의 상태를 추적하고 관리합니다.
  * @template TState 스토어 상태 타입
@@ -13,24 +42,77 @@ export class AsyncActionManager<
 > {
   private readonly asyncStateMap: { [K in keyof TAsyncActions]: AsyncState };
   private readonly asyncActions: TAsyncActions;
-  private readonly setState: (newState: Partial<TState>) => void;
+  private readonly dispatch: (action: Action) => unknown;
   private listeners: Set<() => void>;
-  // 요청 취소 이벤트 수신을 위한 맵
+  // 요청 취소 이벤트 수신을 위한 맵 (요청 단위, 시도별 컨트롤러는 이 신호를 따름)
   private abortControllers = new Map<string, AbortController>();
   // 현재 실행 중인 액션 ID를 추적
   private activeActionRequests = new Map<keyof TAsyncActions, string>();
   // 타임아웃 관리를 위한 맵 추가
   private timeoutIds = new Map<string, ReturnType<typeof setTimeout>>();
+  // 액션별 진행 중이거나 대기 중인 요청 ID (취소되거나 대체된 요청은 제외)
+  private pendingRequests = new Map<keyof TAsyncActions, Set<string>>();
+  // leading 정책: 진행 중인 요청 ID와 Promise
+  private leadingRequests = new Map<
+    keyof TAsyncActions,
+    { requestId: string; request: Promise<AsyncResult<Partial<TState>>> }
+  >();
+  // queue 정책: 마지막으로 대기열에 추가된 요청의 완료 Promise
+  private queueTails = new Map<keyof TAsyncActions, Promise<void>>();
+  // debounce 정책: 대기 중인 타이머와 결과를 기다리는 호출
+  private debouncedRequests = new Map<
+    keyof TAsyncActions,
+    {
+      timer: ReturnType<typeof setTimeout> | null;
+      waiters: Array<{
+        requestId: string;
+        args: unknown[];
+        resolve: (result: AsyncResult<Partial<TState>>) => void;
+        reject: (error: unknown) => void;
+      }>;
+    }
+  >();
+  // 낙관적 업데이트 레이어 (적용 순서대로)
+  private optimisticLayers: Array<{
+    requestId: string;
+    apply: (state: Readonly<TState>) => Partial<TState>;
+  }> = [];
+  // 낙관적 레이어를 제외한 확정 상태 (레이어가 없으면 null)
+  private confirmedState: TState | null = null;
+  // 마지막으로 적용한 낙관적 상태 (다른 경로의 상태 변경 감지용)
+  private optimisticState: Readonly<TState> | null = null;
+  // cache 옵션을 지정한 액션별 결과 캐시 (키: 직렬화된 인자)
+  private queryCaches = new Map<keyof TAsyncActions, LRUCache<string, QueryCacheEntry<Partial<TState>>>>();
+  // 캐시 키별 진행 중인 요청 (같은 인자의 동시 호출 중복 제거)
+  private inFlightQueries = new Map<
+    keyof TAsyncActions,
+    Map<string, { requestId: string; request: Promise<AsyncResult<Partial<TState>>> }>
+  >();
+  // 시작된 요청의 인자와 시작 시각 (생명주기 액션 메타데이터용)
+  private requestMeta = new Map<string, { args: unknown[]; startedAt: number }>();
+  // 액션별 마지막으로 호출된 캐시 키와 인자 (무효화 시 백그라운드 재검증 대상)
+  private activeQueries = new Map<keyof TAsyncActions, { cacheKey: string; args: unknown[] }>();
+  // 캐시된 결과를 유지한 채 백그라운드에서 다시 가져오는 요청 ID
+  private revalidatingRequests = new Set<string>();
+  private readonly getState: () => Readonly<TState>;
+  private readonly actionOptions: AsyncActionsOptions<TAsyncActions, TState>;
 
   constructor(
     asyncActions: TAsyncActions,
     listeners: Set<() => void>,
-    setState: (newState: Partial<TState>) => void,
+    dispatch: (action: Action) => unknown,
+    getState: () => Readonly<TState>,
+    actionOptions: AsyncActionsOptions<TAsyncActions, TState> = {},
   ) {
-    this.asyncActions = asyncActions;
+    // 런타임 주입으로 항목이 추가/제거되므로 복사본을 사용
+    this.asyncActions = { ...asyncActions };
     this.listeners = listeners;
-    this.setState = setState;
+    this.dispatch = dispatch;
+    this.getState = getState;
+    this.actionOptions = { ...actionOptions };
     this.asyncStateMap = this.initializeAsyncState(asyncActions);
+
+    fx(Object.keys(actionOptions)).each((key) => this.initializeQueryCache(key as keyof TAsyncActions));
   }
 
   /**
@@ -40,19 +122,286 @@ export class AsyncActionManager<
     return { ...this.asyncStateMap };
   }
 
+  /**
+   * 캐시를 사용하는 액션의 캐시 키별 결과 상태를 반환합니다.
+   * cache 옵션을 지정하지 않은 액션은 빈 객체입니다.
+   */
+  getAsyncCache(): Record<keyof TAsyncActions, Record<string, AsyncCacheState<Partial<TState>>>> {
+    const asyncCache = {} as Record<keyof TAsyncActions, Record<string, AsyncCacheState<Partial<TState>>>>;
+
+    fx(Object.keys(this.asyncStateMap)).each((key) => {
+      const actionKey = key as keyof TAsyncActions;
+      const entries: Record<string, AsyncCacheState<Partial<TState>>> = {};
+      const cache = this.queryCaches.get(actionKey);
+
+      if (cache) {
+        cache.purgeExpired();
+
+        cache.entries().forEach(([cacheKey, entry]) => {
+          entries[cacheKey] = {
+            data: entry.data,
+            updatedAt: entry.updatedAt,
+            isStale: this.isQueryStale(actionKey, entry),
+          };
+        });
+      }
+
+      asyncCache[actionKey] = entries;
+    });
+
+    return asyncCache;
+  }
+
+  /**
+   * 비동기 액션 상태를 직렬화 가능한 형태로 반환합니다.
+   * 진행 중인 요청은 전달할 수 없으므로 pending 여부는 기록하지 않습니다.
+   */
+  dehydrateAsyncState(): Record<string, DehydratedAsyncState> {
+    const dehydrated = {} as Record<string, DehydratedAsyncState>;
+
+    fx(Object.keys(this.asyncStateMap)).each((key) => {
+      const { error, loaded } = this.asyncStateMap[key as keyof TAsyncActions];
+      dehydrated[key] = {
+        error: error ? { name: error.name, message: error.message } : null,
+        loaded,
+      };
+    });
+
+    return dehydrated;
+  }
+
+  /**
+   * 직렬화된 비동기 액션 상태를 복원합니다.
+   * 정의되지 않은 액션 키와 진행 중인 액션은 건너뜁니다.
+   * @param dehydrated 직렬화된 비동기 액션 상태
+   */
+  hydrateAsyncState(dehydrated: Record<string, DehydratedAsyncState>): void {
+    fx(Object.keys(dehydrated))
+      .filter((key) => Object.hasOwn(this.asyncStateMap, key))
+      .filter((key) => !this.asyncStateMap[key as keyof TAsyncActions].pending)
+      .each((key) => {
+        const { error, loaded } = dehydrated[key] as DehydratedAsyncState;
+        let restoredError: Error | null = null;
+
+        if (error) {
+          restoredError = new Error(error.message);
+          restoredError.name = error.name;
+        }
+
+        this.asyncStateMap[key as keyof TAsyncActions] = {
+          pending: false,
+          error: restoredError,
+          loaded,
+          pendingCount: 0,
+          attempt: 0,
+          cancelled: false,
+        };
+      });
+
+    this.notifyListeners();
+  }
+
+  /**
+   * 비동기 액션 상태 변경을 구독합니다.
+   * @param listener 비동기 상태가 변경될 때 호출될 콜백 함수
+   * @returns 구독 해제 함수
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 모든 비동기 상태 구독자를 제거합니다.
+   */
+  clearListeners(): void {
+    this.listeners.clear();
+  }
+
+  /**
+   * 특정 비동기 액션의 진행 중이거나 대기 중인 요청을 모두 취소합니다.
+   * 취소된 요청의 Promise는 CancelledError 결과로 바로 이행되며, asyncState는 cancelled 상태가 됩니다.
+   * @param key 액션 키
+   * @param reason 취소 사유
+   */
+  cancel(key: keyof TAsyncActions, reason?: unknown): void {
+    // 실행 대기 중인 debounce 호출 취소
+    const debounced = this.debouncedRequests.get(key);
+    if (debounced) {
+      if (debounced.timer !== null) {
+        clearTimeout(debounced.timer);
+      }
+      this.debouncedRequests.delete(key);
+
+      debounced.waiters.forEach((waiter) => {
+        this.cancelRequest(key, waiter.requestId, reason);
+        this.abortControllers.delete(waiter.requestId);
+      });
+    }
+
+    fx(Array.from(this.pendingRequests.get(key) ?? [])).each((requestId) => {
+      this.cancelRequest(key, requestId, reason);
+    });
+  }
+
+  /**
+   * 모든 비동기 액션의 진행 중이거나 대기 중인 요청을 취소합니다.
+   * @param reason 취소 사유
+   */
+  cancelAll(reason?: unknown): void {
+    fx(Object.keys(this.asyncStateMap)).each((key) => this.cancel(key as keyof TAsyncActions, reason));
+  }
+
+  /**
+   * 비동기 액션 관리자를 해제합니다.
+   * 모든 요청을 취소하고 타이머, 결과 캐시, 비동기 상태 구독자를 정리합니다.
+   * @param reason 취소 사유
+   */
+  destroy(reason?: unknown): void {
+    this.cancelAll(reason);
+
+    fx(this.timeoutIds.values()).each((timeoutId) => clearTimeout(timeoutId));
+    this.timeoutIds.clear();
+
+    fx(this.queryCaches.values()).each((cache) => cache.clear());
+    this.inFlightQueries.clear();
+    this.activeQueries.clear();
+
+    this.clearListeners();
+  }
+
+  /**
+   * 비동기 액션을 추가하고 추가된 액션의 API를 반환합니다. (런타임 주입)
+   * @param asyncActionDefs 추가할 비동기 액션 정의 객체
+   * @param options 추가할 액션별 옵션
+   * @returns 추가된 비동기 액션 API 객체
+   */
+  inject<TDefs extends AsyncActionsDef<TState>>(
+    asyncActionDefs: TDefs,
+    options: AsyncActionsOptions<TDefs, TState> = {},
+  ): ReturnType<AsyncActionManager<TState, TDefs>['createAsyncActionsApi']> {
+    const api = {} as ReturnType<AsyncActionManager<TState, TDefs>['createAsyncActionsApi']>;
+
+    fx(Object.keys(asyncActionDefs))
+      .filter((key) => Object.hasOwn(asyncActionDefs, key) && !!asyncActionDefs[key])
+      .each((key) => {
+        const actionKey = key as keyof TAsyncActions;
+        const actionFn = asyncActionDefs[key] as TAsyncActions[keyof TAsyncActions];
+
+        this.asyncActions[actionKey] = actionFn;
+        this.asyncStateMap[actionKey] = this.createSettledState(actionKey, null, false, 0);
+
+        const actionOptions = options[key as keyof TDefs];
+        if (actionOptions) {
+          this.actionOptions[actionKey] = actionOptions as AsyncActionsOptions<
+            TAsyncActions,
+            TState
+          >[keyof TAsyncActions];
+          this.initializeQueryCache(actionKey);
+        }
+
+        const wrapper = this.createAsyncActionWrapper(actionKey, actionFn);
+        api[key as keyof TDefs] = wrapper as unknown as (typeof api)[keyof TDefs];
+      });
+
+    this.notifyListeners();
+    return api;
+  }
+
+  /**
+   * 비동기 액션을 제거합니다. (런타임 주입 해제)
+   * 진행 중이거나 대기 중인 요청은 취소되며, 상태와 옵션, 결과 캐시도 함께 제거됩니다.
+   * @param actionKeys 제거할 액션 키 목록
+   * @param reason 취소 사유
+   */
+  eject(actionKeys: Array<keyof TAsyncActions>, reason?: unknown): void {
+    fx(actionKeys)
+      .filter((key) => Object.hasOwn(this.asyncStateMap, key))
+      .each((key) => {
+        this.cancel(key, reason);
+
+        delete this.asyncActions[key];
+        delete this.asyncStateMap[key];
+        delete this.actionOptions[key];
+
+        this.queryCaches.get(key)?.clear();
+        this.queryCaches.delete(key);
+        this.inFlightQueries.delete(key);
+        this.activeQueries.delete(key);
+        this.leadingRequests.delete(key);
+        this.queueTails.delete(key);
+        this.activeActionRequests.delete(key);
+        this.pendingRequests.delete(key);
+      });
+
+    this.notifyListeners();
+  }
+
+  /**
+   * 비동기 액션의 캐시 항목을 무효화합니다.
+   * 무효화된 항목은 다음 호출 시 다시 가져오며, 마지막으로 호출된 인자의 항목이면 백그라운드에서 바로 다시 가져옵니다.
+   * @param key 액션 키
+   * @param target 캐시 키 또는 무효화할 항목을 고르는 함수 (생략 시 모든 항목)
+   */
+  invalidate<K extends keyof TAsyncActions>(
+    key: K,
+    target?: string | ((args: Parameters<TAsyncActions[K]>, cacheKey: string) => boolean),
+  ): void {
+    const cache = this.queryCaches.get(key);
+    if (!cache) return;
+
+    const matches = (cacheKey: string, entry: QueryCacheEntry<Partial<TState>>) => {
+      if (target === undefined) return true;
+      if (typeof target === 'string') return cacheKey === target;
+      return target(entry.args as Parameters<TAsyncActions[K]>, cacheKey);
+    };
+
+    const invalidatedKeys = cache
+      .entries()
+      .filter(([cacheKey, entry]) => matches(cacheKey, entry))
+      .map(([cacheKey, entry]) => {
+        entry.invalidated = true;
+        return cacheKey;
+      });
+
+    if (invalidatedKeys.length === 0) return;
+    this.notifyListeners();
+
+    // 현재 사용 중인 항목은 백그라운드에서 다시 가져옴
+    const active = this.activeQueries.get(key);
+    if (active && invalidatedKeys.includes(active.cacheKey)) {
+      const requestId = this.createRequestId(key);
+      this.abortControllers.set(requestId, new AbortController());
+      this.revalidateQuery(
+        key,
+        this.asyncActions[key],
+        active.args as Parameters<TAsyncActions[K]>,
+        requestId,
+      );
+    }
+  }
+
   /**
    * 비동기 액션 API를 생성합니다.
    * @returns 비동기 액션 API 객체
    */
   createAsyncActionsApi(): Record<
     keyof TAsyncActions,
-    <K extends keyof TAsyncActions>(
+    (<K extends keyof TAsyncActions>(
       ...args: Parameters<TAsyncActions[K]>
-    ) => Promise<AsyncResult<Partial<TState>>>
+    ) => AsyncActionPromise<AsyncResult<Partial<TState>>>) & {
+      cancel: (reason?: unknown) => void;
+      invalidate: (target?: string | ((args: any[], key: string) => boolean)) => void;
+    }
   > {
-    type AsyncActionApi = <K extends keyof TAsyncActions>(
+    type AsyncActionApi = (<K extends keyof TAsyncActions>(
       ...args: Parameters<TAsyncActions[K]>
-    ) => Promise<AsyncResult<Partial<TState>>>;
+    ) => AsyncActionPromise<AsyncResult<Partial<TState>>>) & {
+      cancel: (reason?: unknown) => void;
+      invalidate: (target?: string | ((args: any[], key: string) => boolean)) => void;
+    };
 
     const api = {} as Record<keyof TAsyncActions, AsyncActionApi>;
 
@@ -69,174 +418,979 @@ export class AsyncActionManager<
 
   /**
    * 개별 비동기 액션 래퍼 함수를 생성합니다.
+   * cache 옵션이 있으면 캐시를 먼저 확인하고, 실행할 때는 동시 실행 정책을 따릅니다.
+   * 호출마다 abort()로 취소할 수 있는 Promise를 반환합니다.
    * @param key 액션 키
    * @param asyncActionFn 원본 비동기 액션 함수
    * @returns 래핑된 비동기 액션 함수
    */
   private createAsyncActionWrapper<K extends keyof TAsyncActions>(key: K, asyncActionFn: TAsyncActions[K]) {
-    return async (...args: Parameters<TAsyncActions[K]>): Promise<AsyncResult<Partial<TState>>> => {
-      // 각 요청마다 고유 ID 생성
-      const requestId = `${String(key)}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-
-      // 이전 진행 중인 요청이 있으면 취소
-      const prevRequestId = this.activeActionRequests.get(key);
-      if (prevRequestId) {
-        const prevController = this.abortControllers.get(prevRequestId);
-        if (prevController) {
-          try {
-            prevController.abort(); // 이전 요청 취소
-          } catch (e) {
-            console.debug(`[AsyncActionManager] Error aborting previous request: ${e}`);
-          }
-          this.abortControllers.delete(prevRequestId);
-        }
-        // 이전 타임아웃이 있다면 취소
-        const prevTimeout = this.timeoutIds.get(prevRequestId);
-        if (prevTimeout) {
-          clearTimeout(prevTimeout);
-          this.timeoutIds.delete(prevRequestId);
-        }
+    const wrapper = (
+      ...args: Parameters<TAsyncActions[K]>
+    ): AsyncActionPromise<AsyncResult<Partial<TState>>> => {
+      // 각 호출마다 고유 ID와 취소용 AbortController 생성
+      const requestId = this.createRequestId(key);
+      this.abortControllers.set(requestId, new AbortController());
+
+      if (this.queryCaches.has(key)) {
+        return this.executeCached(key, asyncActionFn, args, requestId);
       }
 
-      // 새 요청을 위한 AbortController 생성
-      const abortController = new AbortController();
-      this.abortControllers.set(requestId, abortController);
+      const execution = this.executeWithPolicy(key, asyncActionFn, args, requestId);
+      return this.createRequestHandle(key, execution.requestId, execution.request);
+    };
 
-      // 이 액션에 대한 현재 요청 ID 저장
-      this.activeActionRequests.set(key, requestId);
+    return Object.assign(wrapper, {
+      cancel: (reason?: unknown) => this.cancel(key, reason),
+      invalidate: (target?: string | ((args: Parameters<TAsyncActions[K]>, cacheKey: string) => boolean)) =>
+        this.invalidate(key, target),
+    });
+  }
 
-      // 액션 함수 실행 시 컨텍스트 제공
-      const actionContext = {
-        signal: abortController.signal, // AbortController의 signal 전달
-        requestId, // 고유 요청 ID 전달
-        key: key as string, // 액션 키 전달
-      };
+  /**
+   * 액션 옵션의 동시 실행 정책에 따라 요청을 실행합니다.
+   * @returns 실제로 실행되는 요청의 ID와 Promise (leading 정책에서는 진행 중인 요청일 수 있음)
+   */
+  private executeWithPolicy<K extends keyof TAsyncActions>(
+    key: K,
+    asyncActionFn: TAsyncActions[K],
+    args: Parameters<TAsyncActions[K]>,
+    requestId: string,
+  ): { requestId: string; request: Promise<AsyncResult<Partial<TState>>> } {
+    const policy = this.actionOptions[key]?.policy ?? 'latest';
+    const policyType = typeof policy === 'string' ? policy : policy.type;
 
-      this.asyncStateMap[key] = {
-        pending: true,
-        error: null,
-        loaded: false,
-      };
+    switch (policyType) {
+      case 'every':
+        return { requestId, request: this.executeAsyncAction(key, asyncActionFn, args, false, requestId) };
+      case 'leading':
+        return this.executeLeading(key, asyncActionFn, args, requestId);
+      case 'queue':
+        return { requestId, request: this.executeQueued(key, asyncActionFn, args, requestId) };
+      case 'latest':
+        return { requestId, request: this.executeAsyncAction(key, asyncActionFn, args, true, requestId) };
+      case 'debounce': {
+        const { wait } = policy as Extract<AsyncActionPolicy, { type: 'debounce' }>;
+        return { requestId, request: this.executeDebounced(key, asyncActionFn, args, requestId, wait) };
+      }
+      default:
+        // 알 수 없는 정책은 다른 정책으로 대신 실행하지 않음
+        throw new Error(
+          `[AsyncActionManager] Unknown policy "${String(policyType)}" for async action ${String(key)}`,
+        );
+    }
+  }
 
-      this.notifyListeners();
+  /**
+   * 캐시를 사용하는 액션을 호출합니다.
+   * - 같은 인자로 진행 중인 요청이 있으면 그 결과를 공유합니다.
+   * - 캐시 항목이 있으면 바로 상태에 반영하고 캐시 결과를 반환하며, 오래된 항목이면 백그라운드에서 다시 가져옵니다.
+   * - 캐시 항목이 없으면 요청을 실행합니다.
+   */
+  private executeCached<K extends keyof TAsyncActions>(
+    key: K,
+    asyncActionFn: TAsyncActions[K],
+    args: Parameters<TAsyncActions[K]>,
+    requestId: string,
+  ): AsyncActionPromise<AsyncResult<Partial<TState>>> {
+    const cacheKey = this.getCacheKey(key, args);
+    this.activeQueries.set(key, { cacheKey, args });
 
-      try {
-        // 타임아웃 설정 - 맵에 저장하여 관리
-        const timeoutId = setTimeout(() => {
-          // 1분 후에도 여전히 pending 상태이면 상태 정리
-          if (this.asyncStateMap[key].pending && this.activeActionRequests.get(key) === requestId) {
-            console.warn(
-              `[AsyncActionManager] Async action ${String(key)} has been pending for over 1 minute. Cleaning up.`,
-            );
-            // 이 요청이 아직 활성 요청인지 확인 후 취소
-            if (this.activeActionRequests.get(key) === requestId) {
-              this.abortControllers.get(requestId)?.abort(new Error('Request timed out after 1 minute'));
-              this.abortControllers.delete(requestId);
-              this.activeActionRequests.delete(key);
-              // 타임아웃 ID 맵에서 제거
-              this.timeoutIds.delete(requestId);
-            }
+    const inFlight = this.inFlightQueries.get(key)?.get(cacheKey);
+    if (inFlight) {
+      // 새 호출은 실행되지 않으므로 취소용 컨트롤러도 필요 없음
+      this.abortControllers.delete(requestId);
+      return this.createRequestHandle(key, inFlight.requestId, inFlight.request);
+    }
+
+    const entry = this.queryCaches.get(key)?.get(cacheKey);
+    if (!entry) {
+      const query = this.fetchQuery(key, asyncActionFn, args, requestId);
+      return this.createRequestHandle(key, query.requestId, query.request);
+    }
+
+    // latest 정책에서는 다른 인자로 진행 중인 요청이 캐시 결과를 덮어쓰지 않도록 취소
+    if ((this.actionOptions[key]?.policy ?? 'latest') === 'latest') {
+      this.abortActiveRequest(key);
+    }
+
+    this.asyncStateMap[key] = this.createSettledState(key, null, true, this.asyncStateMap[key].attempt ?? 0);
+    this.dispatchLifecycle(key, 'fulfilled', this.mergeResult(key, this.getState(), entry.data), {
+      requestId,
+      args,
+      cached: true,
+    });
+    this.notifyListeners();
+
+    if (this.isQueryStale(key, entry)) {
+      // 캐시 결과를 먼저 반환하고 백그라운드에서 다시 가져옴 (abort()로 재검증 취소 가능)
+      this.revalidateQuery(key, asyncActionFn, args, requestId);
+    } else {
+      this.abortControllers.delete(requestId);
+    }
+
+    return Object.assign(
+      Promise.resolve<AsyncResult<Partial<TState>>>({ success: true, state: entry.data }),
+      {
+        abort: (reason?: unknown) => this.cancelRequest(key, requestId, reason),
+      },
+    );
+  }
+
+  /**
+   * 캐시 키에 대한 요청을 실행하고 진행 중인 요청으로 등록합니다.
+   * 결과는 executeAsyncAction에서 실제 실행된 인자의 캐시 키로 저장됩니다.
+   * @returns 실제로 실행되는 요청의 ID와 Promise
+   */
+  private fetchQuery<K extends keyof TAsyncActions>(
+    key: K,
+    asyncActionFn: TAsyncActions[K],
+    args: Parameters<TAsyncActions[K]>,
+    requestId: string,
+  ): { requestId: string; request: Promise<AsyncResult<Partial<TState>>> } {
+    const cacheKey = this.getCacheKey(key, args);
+    const queries = this.inFlightQueries.get(key) ?? new Map();
+    this.inFlightQueries.set(key, queries);
+
+    const execution = this.executeWithPolicy(key, asyncActionFn, args, requestId);
+    const query = {
+      requestId: execution.requestId,
+      request: execution.request.finally(() => {
+        if (queries.get(cacheKey) === query) {
+          queries.delete(cacheKey);
+        }
+      }),
+    };
+
+    queries.set(cacheKey, query);
+    return query;
+  }
+
+  /**
+   * 캐시된 결과를 유지한 채 백그라운드에서 다시 가져옵니다.
+   * 재검증 중에는 asyncState의 pending, loaded를 바꾸지 않고 revalidating만 표시합니다.
+   */
+  private revalidateQuery<K extends keyof TAsyncActions>(
+    key: K,
+    asyncActionFn: TAsyncActions[K],
+    args: Parameters<TAsyncActions[K]>,
+    requestId: string,
+  ): void {
+    this.revalidatingRequests.add(requestId);
+
+    const cleanup = () => {
+      this.revalidatingRequests.delete(requestId);
+    };
+    this.fetchQuery(key, asyncActionFn, args, requestId).request.then(cleanup, cleanup);
+  }
+
+  /**
+   * 요청 Promise에 취소 기능을 붙입니다.
+   * 명시적으로 취소되면 실행이 끝나기를 기다리지 않고 CancelledError 결과로 바로 이행됩니다.
+   * @param key 액션 키
+   * @param requestId 요청 ID
+   * @param request 요청 실행 Promise
+   * @returns abort()를 제공하는 요청 Promise
+   */
+  private createRequestHandle(
+    key: keyof TAsyncActions,
+    requestId: string,
+    request: Promise<AsyncResult<Partial<TState>>>,
+  ): AsyncActionPromise<AsyncResult<Partial<TState>>> {
+    const signal = this.abortControllers.get(requestId)?.signal;
+
+    const cancelled = new Promise<AsyncResult<Partial<TState>>>((resolve) => {
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (signal.reason instanceof CancelledError) {
+            resolve({ success: false, error: signal.reason });
           }
-        }, 60000); // 1분 타임아웃
+        },
+        { once: true },
+      );
+    });
 
-        // 타임아웃 ID를 맵에 저장
-        this.timeoutIds.set(requestId, timeoutId);
+    return Object.assign(Promise.race([request, cancelled]), {
+      abort: (reason?: unknown) => this.cancelRequest(key, requestId, reason),
+    });
+  }
+
+  /**
+   * 요청 하나를 취소합니다.
+   * 진행 중이거나 대기 중인 요청이면 낙관적 패치를 되돌리고 asyncState를 cancelled 상태로 바꿉니다.
+   * @param key 액션 키
+   * @param requestId 요청 ID
+   * @param reason 취소 사유
+   */
+  private cancelRequest(key: keyof TAsyncActions, requestId: string, reason?: unknown): void {
+    const abortController = this.abortControllers.get(requestId);
+    if (!abortController || abortController.signal.aborted) return;
+
+    abortController.abort(new CancelledError(reason));
+
+    if (!this.isRequestPending(key, requestId)) return;
+
+    this.removePendingRequest(key, requestId);
+
+    // 취소된 재검증은 캐시된 결과를 그대로 유지
+    this.asyncStateMap[key] = {
+      ...this.createSettledState(
+        key,
+        null,
+        this.revalidatingRequests.has(requestId),
+        this.asyncStateMap[key].attempt ?? 0,
+      ),
+      cancelled: true,
+    };
+
+    this.resolveOptimisticUpdate(requestId, (patch) =>
+      this.dispatchLifecycle(key, 'rejected', patch, {
+        ...this.getRequestMeta(requestId),
+        error: abortController.signal.reason,
+        cancelled: true,
+      }),
+    );
+    this.notifyListeners();
+  }
+
+  /**
+   * leading 정책: 진행 중인 요청이 있으면 새 요청을 시작하지 않고 진행 중인 요청의 결과를 공유합니다.
+   * @returns 실제로 실행되는 요청의 ID와 Promise
+   */
+  private executeLeading<K extends keyof TAsyncActions>(
+    key: K,
+    asyncActionFn: TAsyncActions[K],
+    args: Parameters<TAsyncActions[K]>,
+    requestId: string,
+  ): { requestId: string; request: Promise<AsyncResult<Partial<TState>>> } {
+    const inFlight = this.leadingRequests.get(key);
+    if (inFlight) {
+      // 새 호출은 실행되지 않으므로 취소용 컨트롤러도 필요 없음
+      this.abortControllers.delete(requestId);
+      return inFlight;
+    }
+
+    const request = this.executeAsyncAction(key, asyncActionFn, args, false, requestId).finally(() => {
+      this.leadingRequests.delete(key);
+    });
+
+    const leading = { requestId, request };
+    this.leadingRequests.set(key, leading);
+    return leading;
+  }
+
+  /**
+   * queue 정책: 이전 요청이 끝난 뒤 다음 요청을 실행합니다.
+   * 대기 중인 요청도 pendingCount에 포함됩니다.
+   */
+  private executeQueued<K extends keyof TAsyncActions>(
+    key: K,
+    asyncActionFn: TAsyncActions[K],
+    args: Parameters<TAsyncActions[K]>,
+    requestId: string,
+  ): Promise<AsyncResult<Partial<TState>>> {
+    // 대기 중인 요청도 진행 중으로 표시하고 낙관적 패치는 즉시 적용
+    this.addPendingRequest(key, requestId);
+    this.startRequest(key, requestId, args);
+    this.asyncStateMap[key] = {
+      ...this.asyncStateMap[key],
+      pending: true,
+      pendingCount: this.getPendingCount(key),
+    };
+    this.notifyListeners();
+
+    const previous = this.queueTails.get(key) ?? Promise.resolve();
+    const request = previous.then(() => this.executeAsyncAction(key, asyncActionFn, args, false, requestId));
+
+    // 실패한 요청이 다음 요청을 막지 않도록 오류를 무시한 꼬리 저장
+    const tail = request.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.queueTails.set(key, tail);
+
+    void tail.then(() => {
+      if (this.queueTails.get(key) === tail) {
+        this.queueTails.delete(key);
+      }
+    });
+
+    return request;
+  }
+
+  /**
+   * debounce 정책: 마지막 호출 후 wait(ms) 동안 추가 호출이 없을 때 마지막 인자로 한 번만 실행합니다.
+   * 대기 중에 대체된 호출도 실제 실행된 요청의 결과를 받으며, 취소된 호출의 인자는 사용하지 않습니다.
+   */
+  private executeDebounced<K extends keyof TAsyncActions>(
+    key: K,
+    asyncActionFn: TAsyncActions[K],
+    args: Parameters<TAsyncActions[K]>,
+    requestId: string,
+    wait: number,
+  ): Promise<AsyncResult<Partial<TState>>> {
+    const debounced = this.debouncedRequests.get(key) ?? { timer: null, waiters: [] };
+    this.debouncedRequests.set(key, debounced);
+
+    if (debounced.timer !== null) {
+      clearTimeout(debounced.timer);
+    }
+
+    return new Promise((resolve, reject) => {
+      debounced.waiters.push({ requestId, args, resolve, reject });
+
+      debounced.timer = setTimeout(() => {
+        const { waiters } = debounced;
+        this.debouncedRequests.delete(key);
+
+        // 취소되지 않은 마지막 호출로 실행하고 나머지 호출의 컨트롤러는 정리
+        const target = [...waiters]
+          .reverse()
+          .find((waiter) => !this.abortControllers.get(waiter.requestId)?.signal.aborted);
+
+        fx(waiters)
+          .filter((waiter) => waiter !== target)
+          .each((waiter) => this.abortControllers.delete(waiter.requestId));
+
+        if (!target) return;
+
+        this.executeAsyncAction(
+          key,
+          asyncActionFn,
+          target.args as Parameters<TAsyncActions[K]>,
+          true,
+          target.requestId,
+        ).then(
+          (result) => waiters.forEach((waiter) => waiter.resolve(result)),
+          (error) => waiters.forEach((waiter) => waiter.reject(error)),
+        );
+      }, wait);
+    });
+  }
+
+  /**
+   * 비동기 액션 요청 하나를 실행하고 상태를 갱신합니다.
+   * 실패한 시도는 retry 옵션에 따라 백오프 후 다시 실행됩니다.
+   * @param key 액션 키
+   * @param asyncActionFn 원본 비동기 액션 함수
+   * @param args 액션 인자
+   * @param takeLatest 이전 진행 중인 요청을 취소하고 마지막 요청 결과만 반영할지 여부
+   * @param requestId 요청 ID
+   * @returns 비동기 액션 결과
+   */
+  private async executeAsyncAction<K extends keyof TAsyncActions>(
+    key: K,
+    asyncActionFn: TAsyncActions[K],
+    args: Parameters<TAsyncActions[K]>,
+    takeLatest: boolean,
+    requestId: string,
+  ): Promise<AsyncResult<Partial<TState>>> {
+    // 실행 전에 취소된 요청(대기열, debounce 대기 중)은 실행하지 않음
+    const abortController = this.abortControllers.get(requestId) ?? new AbortController();
+    if (abortController.signal.aborted) {
+      this.abortControllers.delete(requestId);
+      this.requestMeta.delete(requestId);
+      return { success: false, error: abortController.signal.reason };
+    }
+    this.abortControllers.set(requestId, abortController);
 
-        // 액션 함수에 추가 컨텍스트와 함께 인자 전달
-        const result = await asyncActionFn(...args, actionContext);
+    // 이전 진행 중인 요청이 있으면 취소
+    if (takeLatest) {
+      this.abortActiveRequest(key);
+    }
+
+    // 이 액션에 대한 현재 요청 ID 저장
+    this.activeActionRequests.set(key, requestId);
+    this.addPendingRequest(key, requestId);
+
+    // 대기열에서 이미 시작된 요청은 pending 액션을 다시 디스패치하지 않음
+    if (!this.requestMeta.has(requestId)) {
+      this.startRequest(key, requestId, args);
+    }
+
+    const { timeout = DEFAULT_TIMEOUT, retry } = this.actionOptions[key] ?? {};
+    let attempt = 1;
+
+    try {
+      for (;;) {
+        // 백그라운드 재검증은 마지막 결과(loaded)를 유지하고 revalidating만 표시
+        this.asyncStateMap[key] = this.revalidatingRequests.has(requestId)
+          ? { ...this.asyncStateMap[key], attempt, revalidating: true }
+          : {
+              pending: true,
+              error: null,
+              loaded: false,
+              pendingCount: this.getPendingCount(key),
+              attempt,
+              cancelled: false,
+            };
 
-        // 요청이 이미 다른 요청으로 대체되었는지 확인
-        if (this.activeActionRequests.get(key) !== requestId) {
+        this.notifyListeners();
+
+        let result = await this.runAttempt(key, asyncActionFn, args, requestId, timeout);
+
+        // 캐시를 사용하는 액션은 대체된 요청의 결과도 해당 인자의 결과로 저장
+        if (result.success) {
+          this.setQueryData(key, args, result.state);
+        }
+
+        // 요청이 이미 취소되었거나 다른 요청으로 대체되었는지 확인
+        if (!this.isRequestPending(key, requestId)) {
           // 이 요청이 더 이상 활성 요청이 아니면 결과 무시
           console.debug(`[AsyncActionManager] Ignoring outdated async result for ${String(key)}`);
           return result; // 결과 자체는 반환 (UI 상태 업데이트 없음)
         }
 
-        if (result.success) {
-          // 성공 시 상태 업데이트
-          this.asyncStateMap[key] = {
-            pending: false,
-            error: null,
-            loaded: true,
-          };
+        if (!result.success && retry && this.shouldRetry(retry, attempt, result.error)) {
+          // 백오프 대기 후 재시도 (대기 중 대체된 요청은 중단)
+          const retryDelay = this.getRetryDelay(retry, attempt);
+          await this.delay(retryDelay, this.abortControllers.get(requestId)?.signal);
 
-          this.setState(result.state);
-          return result;
-        } else {
-          // 실패 시 에러 상태로 업데이트
-          this.asyncStateMap[key] = {
-            pending: false,
-            error: result.error,
-            loaded: false,
-          };
+          if (!this.isRequestPending(key, requestId)) {
+            return result;
+          }
 
-          this.notifyListeners();
-          return result;
+          attempt++;
+          continue;
         }
-      } catch (error) {
-        // AbortError인 경우 특별 처리 (이미 취소된 요청)
-        if (error instanceof DOMException && error.name === 'AbortError') {
-          console.debug(`[AsyncActionManager] Request ${requestId} for ${String(key)} was aborted.`);
-          // 타임아웃에 의한 취소일 경우 에러 상태 반영
-          if (String(error.message).includes('timed out')) {
-            this.asyncStateMap[key] = {
-              pending: false,
-              error,
-              loaded: false,
-            };
+
+        this.removePendingRequest(key, requestId);
+
+        if (result.success) {
+          // 성공 시 상태 업데이트
+          this.asyncStateMap[key] = this.createSettledState(key, null, true, attempt);
+
+          try {
+            // 낙관적 패치를 실제 결과로 대체
+            const resultState = result.state;
+            this.resolveOptimisticUpdate(
+              requestId,
+              (patch) =>
+                this.dispatchLifecycle(key, 'fulfilled', patch, {
+                  ...this.getRequestMeta(requestId),
+                  attempt,
+                }),
+              (state) => this.mergeResult(key, state, resultState),
+            );
             this.notifyListeners();
-            return { success: false, error };
+            return result;
+          } catch (error) {
+            if (!(error instanceof SchemaValidationError)) throw error;
+
+            // 스키마 검증을 통과하지 못한 결과는 캐시하지 않고 실패로 처리
+            this.queryCaches.get(key)?.delete(this.getCacheKey(key, args));
+            result = { success: false, error };
           }
-          // 다른 이유로 취소된 경우 (예: 새 요청 발생) 상태 변경 없음
-          return { success: false, error };
         }
 
-        // 요청이 이미 다른 요청으로 대체되었는지 확인
-        if (this.activeActionRequests.get(key) !== requestId) {
-          // 이 요청이 더 이상 활성 요청이 아니면 상태 업데이트 건너뛰기
-          return {
-            success: false,
-            error: error instanceof Error ? error : new Error(String(error)),
-          };
+        // 실패 시 에러 상태로 업데이트하고 낙관적 패치 되돌리기 (실패한 재검증은 캐시된 결과를 유지)
+        const { error } = result;
+        this.asyncStateMap[key] = this.createSettledState(
+          key,
+          error,
+          this.revalidatingRequests.has(requestId),
+          attempt,
+        );
+
+        this.resolveOptimisticUpdate(requestId, (patch) =>
+          this.dispatchLifecycle(key, 'rejected', patch, {
+            ...this.getRequestMeta(requestId),
+            attempt,
+            error,
+          }),
+        );
+        this.notifyListeners();
+        return result;
+      }
+    } finally {
+      // 리소스 정리 (아직 남아 있는 낙관적 패치가 있으면 되돌림)
+      this.abortControllers.delete(requestId);
+      this.removePendingRequest(key, requestId);
+      this.resolveOptimisticUpdate(requestId, (patch) => {
+        if (Object.keys(patch).length > 0) {
+          this.dispatchLifecycle(key, 'rejected', patch, this.getRequestMeta(requestId));
         }
+      });
+      this.requestMeta.delete(requestId);
 
-        // 예외 발생 시 에러 상태로 업데이트
-        this.asyncStateMap[key] = {
-          pending: false,
-          error: error instanceof Error ? error : new Error(String(error)),
-          loaded: false,
-        };
+      // 이 요청이 여전히 활성 요청인 경우에만 활성 요청 맵에서 제거
+      if (this.activeActionRequests.get(key) === requestId) {
+        this.activeActionRequests.delete(key);
+      }
+    }
+  }
 
-        // 상태 변경을 리스너에게 알림
-        this.notifyListeners();
+  /**
+   * 비동기 액션 함수를 한 번 실행합니다.
+   * 시도마다 요청 신호를 따르는 AbortController를 만들며, 제한 시간이 지나면 TimeoutError로 취소합니다.
+   * 취소되거나 시간이 초과되면 신호를 처리하지 않는 액션도 기다리지 않고 바로 실패하며,
+   * 발생한 예외는 실패 결과로 변환됩니다.
+   * @param key 액션 키
+   * @param asyncActionFn 원본 비동기 액션 함수
+   * @param args 액션 인자
+   * @param requestId 요청 ID
+   * @param timeout 제한 시간(ms), 0이면 제한 없음
+   * @returns 시도 결과
+   */
+  private async runAttempt<K extends keyof TAsyncActions>(
+    key: K,
+    asyncActionFn: TAsyncActions[K],
+    args: Parameters<TAsyncActions[K]>,
+    requestId: string,
+    timeout: number,
+  ): Promise<AsyncResult<Partial<TState>>> {
+    // 시도를 위한 AbortController 생성 (요청이 취소되면 함께 취소)
+    const abortController = new AbortController();
+    const requestSignal = this.abortControllers.get(requestId)?.signal;
+    const abortAttempt = () => abortController.abort(requestSignal?.reason);
+    requestSignal?.addEventListener('abort', abortAttempt, { once: true });
 
-        // 에러 결과 반환
-        return {
-          success: false,
-          error: error instanceof Error ? error : new Error(String(error)),
-        };
-      } finally {
-        // 성공적으로 완료된 경우에만 타임아웃 취소
-        if (!this.asyncStateMap[key].pending) {
-          const timeoutId = this.timeoutIds.get(requestId);
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-            this.timeoutIds.delete(requestId);
-          }
-        }
-        // pending이 true인 경우 타임아웃은 계속 실행
+    // 액션 함수 실행 시 컨텍스트 제공
+    const actionContext: AsyncActionContext<TState> = {
+      signal: abortController.signal, // AbortController의 signal 전달
+      requestId, // 고유 요청 ID 전달
+      key: key as string, // 액션 키 전달
+      getState: () => this.getConfirmedState(), // 낙관적 레이어를 제외한 최신 상태 조회
+    };
 
-        // 리소스 정리
-        this.abortControllers.delete(requestId);
+    try {
+      const aborted = new Promise<never>((_, reject) => {
+        abortController.signal.addEventListener('abort', () => reject(abortController.signal.reason), {
+          once: true,
+        });
+      });
 
-        // 이 요청이 여전히 활성 요청인 경우에만 활성 요청 맵에서 제거
-        if (this.activeActionRequests.get(key) === requestId) {
-          this.activeActionRequests.delete(key);
-        }
+      if (timeout > 0) {
+        const timeoutId = setTimeout(() => {
+          abortController.abort(
+            new TimeoutError(
+              `[AsyncActionManager] Async action ${String(key)} timed out after ${timeout}ms`,
+              timeout,
+            ),
+          );
+        }, timeout);
+
+        // 타임아웃 ID를 맵에 저장
+        this.timeoutIds.set(requestId, timeoutId);
+      }
+
+      // 액션 함수에 추가 컨텍스트와 함께 인자 전달
+      return await Promise.race([asyncActionFn(...args, actionContext), aborted]);
+    } catch (error) {
+      // AbortError인 경우 (새 요청 등으로 취소된 요청)
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        console.debug(`[AsyncActionManager] Request ${requestId} for ${String(key)} was aborted.`);
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    } finally {
+      // 완료된 시도의 타임아웃 취소
+      const timeoutId = this.timeoutIds.get(requestId);
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        this.timeoutIds.delete(requestId);
+      }
+
+      requestSignal?.removeEventListener('abort', abortAttempt);
+    }
+  }
+
+  /**
+   * 지정한 시간만큼 기다립니다. 요청이 취소되면 타이머를 정리하고 바로 끝냅니다.
+   * @param ms 대기 시간(ms)
+   * @param signal 요청 취소 신호
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) return resolve();
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 실패한 시도를 다시 실행할지 결정합니다.
+   * @param retry 재시도 옵션
+   * @param attempt 방금 끝난 시도 번호 (1부터 시작)
+   * @param error 시도에서 발생한 오류
+   */
+  private shouldRetry(retry: AsyncRetryOptions, attempt: number, error: Error): boolean {
+    if (attempt > retry.attempts) return false;
+    return retry.retryIf ? retry.retryIf(error, attempt) : true;
+  }
+
+  /**
+   * 재시도 전 대기 시간을 계산합니다.
+   * @param retry 재시도 옵션
+   * @param attempt 방금 끝난 시도 번호 (1부터 시작)
+   * @returns 대기 시간(ms)
+   */
+  private getRetryDelay(retry: AsyncRetryOptions, attempt: number): number {
+    const { backoff = 'exponential', delay = DEFAULT_RETRY_DELAY, jitter = false } = retry;
+    const baseDelay = backoff === 'linear' ? delay * attempt : delay * 2 ** (attempt - 1);
+
+    // full jitter: 0 ~ baseDelay 사이의 임의 대기 시간으로 동시 재시도 분산
+    return jitter ? Math.random() * baseDelay : baseDelay;
+  }
+
+  /**
+   * 액션에 optimistic 옵션이 있으면 낙관적 패치를 새 레이어로 적용합니다.
+   * 이미 레이어가 있는 요청(대기열에서 먼저 적용된 경우)은 건너뜁니다.
+   * @param key 액션 키
+   * @param requestId 요청 ID
+   * @param args 액션 인자
+   */
+  private applyOptimisticUpdate<K extends keyof TAsyncActions>(
+    key: K,
+    requestId: string,
+    args: Parameters<TAsyncActions[K]>,
+    commit: (patch: Partial<TState>) => void,
+  ): void {
+    const optimistic = this.actionOptions[key]?.optimistic;
+    if (!optimistic || this.optimisticLayers.some((layer) => layer.requestId === requestId)) {
+      commit({});
+      return;
+    }
+
+    this.syncConfirmedState();
+    this.optimisticLayers.push({ requestId, apply: (state) => optimistic(state, ...args) });
+
+    try {
+      this.applyOptimisticLayers(commit);
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+
+      // 스키마 검증을 통과하지 못한 낙관적 패치는 버리고 요청만 진행
+      this.optimisticLayers.pop();
+      commit({});
+    }
+  }
+
+  /**
+   * 요청의 낙관적 레이어를 제거하고 남은 레이어를 확정 상태 위에 다시 적용합니다.
+   * 레이어가 없는 요청은 확정 패치만 바로 적용합니다.
+   * @param requestId 요청 ID
+   * @param confirm 결과를 반영할 상태를 받아 실제 결과 패치를 반환하는 함수 (없으면 되돌리기만 함)
+   */
+  private resolveOptimisticUpdate(
+    requestId: string,
+    commit: (patch: Partial<TState>) => void,
+    confirm?: (state: Readonly<TState>) => Partial<TState>,
+  ): void {
+    const index = this.optimisticLayers.findIndex((layer) => layer.requestId === requestId);
+
+    if (index === -1) {
+      commit(confirm?.(this.getState()) ?? {});
+      return;
+    }
+
+    this.syncConfirmedState();
+    const previousConfirmedState = this.confirmedState;
+    const [layer] = this.optimisticLayers.splice(index, 1);
+
+    if (confirm) {
+      const confirmedState = this.confirmedState as TState;
+      this.confirmedState = { ...confirmedState, ...confirm(confirmedState) };
+    }
+
+    try {
+      this.applyOptimisticLayers(commit);
+    } catch (error) {
+      // 반영이 거부되면(스키마 검증 실패 등) 레이어와 확정 상태를 되돌림
+      this.optimisticLayers.splice(index, 0, layer);
+      this.confirmedState = previousConfirmedState;
+      throw error;
+    }
+  }
+
+  /**
+   * 낙관적 레이어를 제외한 확정 상태를 반환합니다. (레이어가 없으면 현재 상태)
+   */
+  private getConfirmedState(): Readonly<TState> {
+    if (this.optimisticLayers.length === 0) return this.getState();
+
+    this.syncConfirmedState();
+    return this.confirmedState as TState;
+  }
+
+  /**
+   * 확정 상태를 현재 상태와 맞춥니다.
+   * 레이어가 없으면 현재 상태를 확정 상태로 사용하고, 마지막 적용 이후 다른 경로로 변경된 키는
+   * 변경된 값을 확정 값으로 반영합니다.
+   */
+  private syncConfirmedState(): void {
+    const currentState = this.getState();
+
+    if (!this.confirmedState || !this.optimisticState) {
+      this.confirmedState = { ...currentState } as TState;
+      return;
+    }
+
+    const confirmedState = this.confirmedState as Record<string, unknown>;
+    const optimisticState = this.optimisticState;
+
+    fx(Object.keys(currentState))
+      .filter((stateKey) => currentState[stateKey] !== optimisticState[stateKey])
+      .each((stateKey) => {
+        confirmedState[stateKey] = currentState[stateKey];
+      });
+  }
+
+  /**
+   * 확정 상태 위에 낙관적 레이어를 순서대로 적용하고, 달라진 키만 스토어에 반영합니다.
+   */
+  private applyOptimisticLayers(commit: (patch: Partial<TState>) => void): void {
+    const confirmedState = this.confirmedState as TState;
+
+    const nextState = this.optimisticLayers.reduce<TState>((state, layer) => {
+      try {
+        return { ...state, ...layer.apply(state) };
+      } catch (error) {
+        console.error('[AsyncActionManager] Error in optimistic update:', error);
+        return state;
+      }
+    }, confirmedState);
+
+    const currentState = this.getState();
+    const patch = {} as Record<string, unknown>;
+
+    fx(Object.keys(nextState))
+      .filter((stateKey) => nextState[stateKey] !== currentState[stateKey])
+      .each((stateKey) => {
+        patch[stateKey] = nextState[stateKey];
+      });
+
+    commit(patch as Partial<TState>);
+
+    if (this.optimisticLayers.length === 0) {
+      this.confirmedState = null;
+      this.optimisticState = null;
+    } else {
+      this.optimisticState = this.getState();
+    }
+  }
+
+  /**
+   * 요청을 시작 상태로 기록하고 pending 액션을 디스패치합니다. (낙관적 패치가 있으면 함께 적용)
+   */
+  private startRequest<K extends keyof TAsyncActions>(
+    key: K,
+    requestId: string,
+    args: Parameters<TAsyncActions[K]>,
+  ): void {
+    this.requestMeta.set(requestId, { args, startedAt: Date.now() });
+    this.applyOptimisticUpdate(key, requestId, args, (patch) =>
+      this.dispatchLifecycle(key, 'pending', patch, this.getRequestMeta(requestId, false)),
+    );
+  }
+
+  /**
+   * 생명주기 액션에 포함될 요청 메타데이터를 반환합니다.
+   * @param requestId 요청 ID
+   * @param settled 끝난 요청인지 여부 (true이면 소요 시간 포함)
+   */
+  private getRequestMeta(requestId: string, settled = true): ActionMeta {
+    const meta = this.requestMeta.get(requestId);
+    if (!meta) return { requestId };
+
+    return {
+      requestId,
+      args: meta.args,
+      startedAt: meta.startedAt,
+      ...(settled && { duration: Date.now() - meta.startedAt }),
+    };
+  }
+
+  /**
+   * 비동기 액션 생명주기 액션(`키/pending`, `키/fulfilled`, `키/rejected`)을 디스패치합니다.
+   * 상태 변경(낙관적 패치, 결과, 되돌리기)이 있으면 상태 업데이트 액션으로 전달되므로
+   * 미들웨어와 DevTools에서 비동기 흐름 전체를 확인할 수 있습니다.
+   */
+  private dispatchLifecycle(
+    key: keyof TAsyncActions,
+    phase: 'pending' | 'fulfilled' | 'rejected',
+    patch: Partial<TState>,
+    meta: ActionMeta,
+  ): void {
+    this.dispatch({
+      type: `${String(key)}/${phase}`,
+      payload: patch,
+      meta: {
+        ...meta,
+        asyncAction: String(key),
+        phase,
+        ...(Object.keys(patch).length > 0 && { isStateUpdate: true }),
+      },
+    });
+  }
+
+  /**
+   * 가장 최근에 시작된 요청을 취소하고 진행 중인 요청 목록에서 제거합니다. (latest 정책)
+   */
+  private abortActiveRequest(key: keyof TAsyncActions): void {
+    const prevRequestId = this.activeActionRequests.get(key);
+    if (!prevRequestId) return;
+
+    const prevController = this.abortControllers.get(prevRequestId);
+    if (prevController) {
+      try {
+        prevController.abort(); // 이전 요청 취소
+      } catch (e) {
+        console.debug(`[AsyncActionManager] Error aborting previous request: ${e}`);
       }
+      this.abortControllers.delete(prevRequestId);
+    }
+    // 이전 타임아웃이 있다면 취소
+    const prevTimeout = this.timeoutIds.get(prevRequestId);
+    if (prevTimeout) {
+      clearTimeout(prevTimeout);
+      this.timeoutIds.delete(prevRequestId);
+    }
+    // 취소된 요청은 더 이상 진행 중으로 세지 않고 낙관적 패치도 되돌림
+    this.removePendingRequest(key, prevRequestId);
+    this.resolveOptimisticUpdate(prevRequestId, (patch) =>
+      this.dispatchLifecycle(key, 'rejected', patch, {
+        ...this.getRequestMeta(prevRequestId),
+        aborted: true,
+      }),
+    );
+  }
+
+  /**
+   * 인자로 캐시 키를 생성합니다.
+   */
+  private getCacheKey(key: keyof TAsyncActions, args: unknown[]): string {
+    const serialize = this.actionOptions[key]?.cache?.key as ((...args: unknown[]) => string) | undefined;
+    return serialize ? serialize(...args) : JSON.stringify(args);
+  }
+
+  /**
+   * 성공 결과를 적용할 상태와 합친 패치를 반환합니다. (mergeResult 옵션이 없으면 결과를 그대로 사용)
+   * @param key 비동기 액션 키
+   * @param state 결과를 적용할 상태
+   * @param resultState 성공 결과의 state
+   */
+  private mergeResult(
+    key: keyof TAsyncActions,
+    state: Readonly<TState>,
+    resultState: Partial<TState>,
+  ): Partial<TState> {
+    const mergeResult = this.actionOptions[key]?.mergeResult;
+    return mergeResult ? mergeResult(state, resultState) : resultState;
+  }
+
+  /**
+   * 성공한 요청의 결과를 캐시에 저장합니다. (cache 옵션이 없는 액션은 무시)
+   */
+  private setQueryData(key: keyof TAsyncActions, args: unknown[], data: Partial<TState>): void {
+    this.queryCaches.get(key)?.set(this.getCacheKey(key, args), {
+      args,
+      data,
+      updatedAt: Date.now(),
+      invalidated: false,
+    });
+  }
+
+  /**
+   * 캐시 항목이 오래되었는지 확인합니다. (staleTime 경과 또는 무효화)
+   */
+  private isQueryStale(key: keyof TAsyncActions, entry: QueryCacheEntry<Partial<TState>>): boolean {
+    const staleTime = this.actionOptions[key]?.cache?.staleTime ?? 0;
+    return entry.invalidated || Date.now() - entry.updatedAt >= staleTime;
+  }
+
+  /**
+   * 요청 ID를 생성합니다.
+   */
+  private createRequestId(key: keyof TAsyncActions): string {
+    return `${String(key)}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  /**
+   * 진행 중인 요청 목록에 요청을 추가합니다.
+   */
+  private addPendingRequest(key: keyof TAsyncActions, requestId: string): void {
+    const requests = this.pendingRequests.get(key) ?? new Set<string>();
+    requests.add(requestId);
+    this.pendingRequests.set(key, requests);
+  }
+
+  /**
+   * 진행 중인 요청 목록에서 요청을 제거합니다.
+   */
+  private removePendingRequest(key: keyof TAsyncActions, requestId: string): void {
+    const requests = this.pendingRequests.get(key);
+    if (!requests) return;
+
+    requests.delete(requestId);
+    if (requests.size === 0) {
+      this.pendingRequests.delete(key);
+    }
+  }
+
+  /**
+   * 요청이 아직 진행 중인지 확인합니다. (취소되거나 대체된 요청은 false)
+   */
+  private isRequestPending(key: keyof TAsyncActions, requestId: string): boolean {
+    return this.pendingRequests.get(key)?.has(requestId) ?? false;
+  }
+
+  /**
+   * 진행 중이거나 대기 중인 요청 수를 반환합니다.
+   */
+  private getPendingCount(key: keyof TAsyncActions): number {
+    return this.pendingRequests.get(key)?.size ?? 0;
+  }
+
+  /**
+   * 요청 하나가 끝난 뒤의 비동기 상태를 생성합니다.
+   * 같은 키의 다른 요청이 남아 있으면 pending 상태를 유지합니다.
+   */
+  private createSettledState(
+    key: keyof TAsyncActions,
+    error: Error | null,
+    loaded: boolean,
+    attempt: number,
+  ): AsyncState {
+    const pendingCount = this.getPendingCount(key);
+
+    return {
+      pending: pendingCount > 0,
+      error,
+      loaded,
+      pendingCount,
+      attempt,
+      cancelled: false,
     };
   }
 
+  /**
+   * cache 옵션을 지정한 액션의 결과 캐시를 생성합니다.
+   * @param key 액션 키
+   */
+  private initializeQueryCache(key: keyof TAsyncActions): void {
+    const cacheOptions = this.actionOptions[key]?.cache;
+    if (!cacheOptions) return;
+
+    this.queryCaches.set(
+      key,
+      new LRUCache(cacheOptions.maxSize ?? DEFAULT_CACHE_SIZE, cacheOptions.cacheTime ?? DEFAULT_CACHE_TIME),
+    );
+  }
+
   /**
    * 비동기 액션 상태를 초기화합니다.
    */
@@ -250,6 +1404,9 @@ export class AsyncActionManager<
           pending: false,
           error: null,
           loaded: false,
+          pendingCount: 0,
+          attempt: 0,
+          cancelled: false,
         };
       });
 
@@ -0,0 +1,197 @@
+import { ActionsDef, AsyncActionsDef, AsyncActionsOptions, ComputedDef } from '../types/public-types.ts';
+import { createStoreInternal } from './createStoreInternal.ts';
+import { applyEnhancers } from './storeEnhancers';
+import {
+  IStoreConfigBuilder,
+  IStoreDevToolsBuilder,
+  IStoreMiddlewareBuilder,
+  Middleware,
+  SchemaOptions,
+  StoreConfig,
+  StoreEnhancer,
+  StoreInternal,
+  StoreLifecycleHooks,
+} from '../types/internal/store.ts';
+import { DehydratedState } from '../types/internal/state.ts';
+import { createSchemaValidator, StateSchema, StateValidator } from '../../utils/schema.ts';
+
+/**
+ * 스토어 설정 빌더 기본 클래스
+ * 클라이언트/서버 설정 빌더가 공유하는 설정 메서드를 구현하며,
+ * 환경마다 다른 미들웨어/DevTools 처리와 다음 빌더 생성은 하위 클래스가 담당합니다.
+ *
+ * @template TState 스토어 상태 타입
+ * @template TComputed 계산된 속성 정의 타입
+ * @template TActions 액션 정의 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
+ */
+export abstract class BaseStoreConfigBuilder<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+  TExtension = NonNullable<unknown>,
+> implements IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>
+{
+  protected config: StoreConfig<TState, TComputed, TActions, TAsyncActions>;
+
+  constructor(config: StoreConfig<TState, TComputed, TActions, TAsyncActions>) {
+    this.config = config;
+  }
+
+  /**
+   * 변경된 설정으로 같은 환경의 새 설정 빌더를 생성합니다.
+   * @param config 새 스토어 설정
+   * @returns 새 스토어 설정 빌더
+   */
+  protected abstract withConfig<
+    NewComputed extends ComputedDef<TState>,
+    NewActions extends ActionsDef<TState>,
+    NewAsyncActions extends AsyncActionsDef<TState>,
+    NewExtension,
+  >(
+    config: StoreConfig<TState, NewComputed, NewActions, NewAsyncActions>,
+  ): IStoreConfigBuilder<TState, NewComputed, NewActions, NewAsyncActions, NewExtension>;
+
+  /**
+   * 미들웨어를 설정합니다.
+   * @param middlewares 미들웨어 배열
+   * @returns 스토어 미들웨어 빌더
+   */
+  abstract middleware(
+    middlewares: Middleware<TState>[],
+  ): IStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>;
+
+  /**
+   * DevTools 설정을 추가합니다.
+   * @param name DevTools에 표시될 스토어 이름
+   * @returns 스토어 DevTools 빌더
+   */
+  abstract devTool(
+    name: string,
+  ): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>;
+
+  /**
+   * 계산된 속성을 설정합니다.
+   * @param computedDefs 계산된 속성 정의 객체
+   * @returns 업데이트된 스토어 설정 빌더
+   */
+  computed<NewComputed extends ComputedDef<TState>>(
+    computedDefs: NewComputed,
+  ): IStoreConfigBuilder<TState, NewComputed, TActions, TAsyncActions, TExtension> {
+    return this.withConfig<NewComputed, TActions, TAsyncActions, TExtension>({
+      ...this.config,
+      computed: computedDefs,
+    });
+  }
+
+  /**
+   * 액션을 설정합니다.
+   * @param actionDefs 액션 정의 객체
+   * @returns 업데이트된 스토어 설정 빌더
+   */
+  actions<NewActions extends ActionsDef<TState>>(
+    actionDefs: NewActions,
+  ): IStoreConfigBuilder<TState, TComputed, NewActions, TAsyncActions, TExtension> {
+    return this.withConfig<TComputed, NewActions, TAsyncActions, TExtension>({
+      ...this.config,
+      actions: actionDefs,
+    });
+  }
+
+  /**
+   * 비동기 액션을 설정합니다.
+   * @param asyncActionDefs 비동기 액션 정의 객체
+   * @param options 액션 키별 옵션 (동시 실행 정책 등)
+   * @returns 업데이트된 스토어 설정 빌더
+   */
+  asyncActions<NewAsyncActions extends AsyncActionsDef<TState>>(
+    asyncActionDefs: NewAsyncActions,
+    options: AsyncActionsOptions<NewAsyncActions, TState> = {},
+  ): IStoreConfigBuilder<TState, TComputed, TActions, NewAsyncActions, TExtension> {
+    return this.withConfig<TComputed, TActions, NewAsyncActions, TExtension>({
+      ...this.config,
+      asyncActions: asyncActionDefs,
+      asyncActionOptions: options,
+    });
+  }
+
+  /**
+   * 서버에서 직렬화된 상태로 초기 상태와 비동기 상태를 복원합니다.
+   * @param payload store.dehydrate()가 반환한 페이로드
+   * @returns 업데이트된 스토어 설정 빌더
+   */
+  hydrate(
+    payload: DehydratedState<TState>,
+  ): IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+    return this.withConfig<TComputed, TActions, TAsyncActions, TExtension>({
+      ...this.config,
+      hydration: payload,
+    });
+  }
+
+  /**
+   * 상태 업데이트를 커밋하기 전에 검증할 스키마를 설정합니다.
+   * 검증에 실패한 액션은 적용되지 않고 SchemaValidationError를 던지며, 오류는 오류 경계의 onError로 보고됩니다.
+   * 디스패치된 상태 업데이트와 hydrate, 미들웨어 등에서 호출하는 _setState가 모두 검증되며,
+   * 트랜잭션 롤백처럼 이미 검증된 값으로 되돌리는 내부 복원만 검증을 거치지 않습니다.
+   * @param schema 상태 검증 함수 또는 상태 키별 스키마 정의 (s 스키마 DSL)
+   * @param options 스키마 검증 옵션
+   * @returns 업데이트된 스토어 설정 빌더
+   */
+  schema(
+    schema: StateValidator<TState> | StateSchema<TState>,
+    options: SchemaOptions = {},
+  ): IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+    return this.withConfig<TComputed, TActions, TAsyncActions, TExtension>({
+      ...this.config,
+      schema: typeof schema === 'function' ? schema : createSchemaValidator(schema),
+      schemaOptions: options,
+    });
+  }
+
+  /**
+   * 스토어 인핸서를 추가합니다.
+   * 인핸서는 추가된 순서대로 적용되며, 반환한 확장 API가 스토어 타입에 합쳐집니다.
+   * @param enhancer 스토어 인핸서
+   * @returns 업데이트된 스토어 설정 빌더
+   */
+  enhance<NewExtension extends NonNullable<unknown>>(
+    enhancer: StoreEnhancer<TState, NewExtension>,
+  ): IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension & NewExtension> {
+    return this.withConfig<TComputed, TActions, TAsyncActions, TExtension & NewExtension>({
+      ...this.config,
+      enhancers: [...(this.config.enhancers ?? []), enhancer],
+    });
+  }
+
+  /**
+   * 스토어 생명주기 훅을 설정합니다.
+   * onFirstSubscribe, onLastUnsubscribe는 구독자가 생기거나 모두 사라질 때 호출되어
+   * 소켓 연결이나 폴링처럼 구독 중에만 필요한 작업을 시작하고 멈추는 데 사용할 수 있습니다.
+   * @param hooks 생명주기 훅 (onInit, onFirstSubscribe, onLastUnsubscribe, onDestroy)
+   * @returns 업데이트된 스토어 설정 빌더
+   */
+  lifecycle(
+    hooks: StoreLifecycleHooks<StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension>,
+  ): IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+    return this.withConfig<TComputed, TActions, TAsyncActions, TExtension>({
+      ...this.config,
+      lifecycle: hooks as StoreLifecycleHooks<StoreInternal<TState>>,
+    });
+  }
+
+  /**
+   * 스토어를 생성합니다.
+   * @returns 생성된 스토어 인스턴스
+   */
+  build(): StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension {
+    const store = createStoreInternal<TState, TComputed, TActions, TAsyncActions>(this.config);
+    applyEnhancers<TState, TComputed, TActions, TAsyncActions>(store, this.config.enhancers ?? []);
+
+    // 스토어 생성 완료 (onInit 훅 호출)
+    store._init();
+
+    return store as StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from '../createStore';
+import { Middleware } from '../types/internal/store';
+
+type CounterState = {
+  count: number;
+};
+
+function createCounterStore(options: { serverMiddleware?: boolean }, middleware: Middleware<CounterState>) {
+  return createStore<CounterState>({ mode: 'server', ...options })
+    .initialState({ count: 1 })
+    .computed({
+      doubled: (state: CounterState) => state.count * 2,
+    })
+    .actions({
+      increment: () => (state: CounterState) => ({ count: state.count + 1 }),
+    })
+    .asyncActions({
+      load: async (count: number) => ({ success: true as const, state: { count } }),
+    })
+    .middleware([middleware])
+    .build();
+}
+
+function recordingMiddleware(actionTypes: string[]): Middleware<CounterState> {
+  return () => (next) => (action) => {
+    actionTypes.push(action.type);
+    return next(action);
+  };
+}
+
+test('server stores run actions and recompute computed values', () => {
+  const store = createCounterStore({}, recordingMiddleware([]));
+
+  store.actions.increment();
+
+  expect(store.getState().count).toBe(2);
+  expect(store.computed.doubled).toBe(4);
+});
+
+test('server stores run async actions and track their state', async () => {
+  const store = createCounterStore({}, recordingMiddleware([]));
+
+  await store.asyncActions.load(5);
+
+  expect(store.getState().count).toBe(5);
+  expect(store.computed.doubled).toBe(10);
+  expect(store.asyncState.load).toMatchObject({ pending: false, loaded: true });
+});
+
+test('server stores skip middleware unless serverMiddleware is set', () => {
+  const skipped: string[] = [];
+  const applied: string[] = [];
+
+  createCounterStore({}, recordingMiddleware(skipped)).actions.increment();
+  createCounterStore({ serverMiddleware: true }, recordingMiddleware(applied)).actions.increment();
+
+  expect(skipped).toEqual([]);
+  expect(applied).toContain('increment');
+});
+
+test('mode overrides the detected environment', () => {
+  const applied: string[] = [];
+  const store = createStore<CounterState>({ mode: 'client' })
+    .initialState({ count: 1 })
+    .actions({
+      increment: () => (state: CounterState) => ({ count: state.count + 1 }),
+    })
+    .middleware([recordingMiddleware(applied)])
+    .build();
+
+  store.actions.increment();
+
+  expect(store.getState().count).toBe(2);
+  expect(applied).toContain('increment');
+});
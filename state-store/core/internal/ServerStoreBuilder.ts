@@ -1,11 +1,14 @@
 import { ActionsDef, AsyncActionsDef, ComputedDef } from '../types/public-types.ts';
+import { BaseStoreConfigBuilder } from './BaseStoreConfigBuilder';
 import { createStoreInternal } from './createStoreInternal.ts';
+import { applyEnhancers, applyMiddlewares } from './storeEnhancers';
 import {
   IStoreConfigBuilder,
   IStoreDevToolsBuilder,
   IStoreMiddlewareBuilder,
   Middleware,
   Store,
+  StoreBuilderOptions,
   StoreConfig,
   StoreInternal,
 } from '../types/internal/store.ts';
@@ -13,33 +16,74 @@ import {
 /**
  * 서버 스토어 빌더 추상 클래스
  * @template TState 스토어 상태 타입
+ * @template TComputed 계산된 속성 정의 타입
+ * @template TActions 액션 정의 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
  */
-abstract class BaseServerStoreBuilder<TState extends Record<string, NonNullable<unknown>>> {
-  protected config: StoreConfig<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>>;
+abstract class BaseServerStoreBuilder<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+  TExtension = NonNullable<unknown>,
+> {
+  protected config: StoreConfig<TState, TComputed, TActions, TAsyncActions>;
+  protected middlewares: Middleware<TState>[];
+  protected options: StoreBuilderOptions;
 
-  constructor(config: StoreConfig<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>>) {
+  constructor(
+    config: StoreConfig<TState, TComputed, TActions, TAsyncActions>,
+    middlewares: Middleware<TState>[] = [],
+    options: StoreBuilderOptions = {},
+  ) {
     this.config = config;
+    this.middlewares = middlewares;
+    this.options = options;
   }
 
   /**
    * 스토어를 생성하는 공통 로직
-   * 서버 환경에서는 미들웨어와 DevTools를 적용하지 않습니다.
+   * 서버 환경에서는 DevTools를 연결하지 않으며, 미들웨어는 serverMiddleware 옵션이 켜진 경우에만 적용합니다.
    * @returns 생성된 스토어 인스턴스
    */
-  protected buildStore(): StoreInternal<TState> {
-    return createStoreInternal<TState>(this.config);
+  protected buildStore(): StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension {
+    let store = createStoreInternal<TState, TComputed, TActions, TAsyncActions>(this.config);
+
+    // 미들웨어 적용 (명시적으로 허용된 경우에만)
+    if (this.options.serverMiddleware && this.middlewares.length > 0) {
+      store = applyMiddlewares<TState, TComputed, TActions, TAsyncActions>(store, this.middlewares);
+    }
+
+    // 인핸서 적용
+    if (this.config.enhancers?.length) {
+      store = applyEnhancers<TState, TComputed, TActions, TAsyncActions>(store, this.config.enhancers);
+    }
+
+    // 스토어 생성 완료 (onInit 훅 호출)
+    store._init();
+
+    return store as StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension;
   }
 }
 
 /**
  * 서버 환경용 미들웨어 빌더 클래스
- * 서버에서는 미들웨어를 적용하지 않고 빌더 패턴만 유지합니다.
+ * 미들웨어는 serverMiddleware 옵션이 켜진 경우에만 적용됩니다.
  *
  * @template TState 스토어 상태 타입
+ * @template TComputed 계산된 속성 정의 타입
+ * @template TActions 액션 정의 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
  */
-export class ServerStoreMiddlewareBuilder<TState extends Record<string, NonNullable<unknown>>>
-  extends BaseServerStoreBuilder<TState>
-  implements IStoreMiddlewareBuilder<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>>
+export class ServerStoreMiddlewareBuilder<
+    TState extends Record<string, NonNullable<unknown>>,
+    TComputed extends ComputedDef<TState>,
+    TActions extends ActionsDef<TState>,
+    TAsyncActions extends AsyncActionsDef<TState>,
+    TExtension = NonNullable<unknown>,
+  >
+  extends BaseServerStoreBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>
+  implements IStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>
 {
   /**
    * 서버 환경용 DevTools 빌더를 반환합니다.
@@ -51,17 +95,20 @@ export class ServerStoreMiddlewareBuilder<TState extends Record<string, NonNulla
   devTool(
     // eslint-disable-next-line unused-imports/no-unused-vars,@typescript-eslint/no-unused-vars
     _name: string,
-  ): IStoreDevToolsBuilder<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>> {
-    return new ServerStoreDevToolsBuilder<TState>(this.config);
+  ): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+    return new ServerStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>(
+      this.config,
+      this.middlewares,
+      this.options,
+    );
   }
 
   /**
    * 스토어를 생성합니다.
-   * 서버 환경에서는 미들웨어를 적용하지 않습니다.
    *
    * @returns 생성된 스토어 인스턴스
    */
-  build(): StoreInternal<TState> {
+  build(): StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension {
     return this.buildStore();
   }
 }
@@ -71,10 +118,19 @@ export class ServerStoreMiddlewareBuilder<TState extends Record<string, NonNulla
  * 서버에서는 DevTools를 연결하지 않고 빌더 패턴만 유지합니다.
  *
  * @template TState 스토어 상태 타입
+ * @template TComputed 계산된 속성 정의 타입
+ * @template TActions 액션 정의 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
  */
-class ServerStoreDevToolsBuilder<TState extends Record<string, NonNullable<unknown>>>
-  extends BaseServerStoreBuilder<TState>
-  implements IStoreDevToolsBuilder<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>>
+class ServerStoreDevToolsBuilder<
+    TState extends Record<string, NonNullable<unknown>>,
+    TComputed extends ComputedDef<TState>,
+    TActions extends ActionsDef<TState>,
+    TAsyncActions extends AsyncActionsDef<TState>,
+    TExtension = NonNullable<unknown>,
+  >
+  extends BaseServerStoreBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>
+  implements IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>
 {
   /**
    * 스토어를 생성합니다.
@@ -82,104 +138,70 @@ class ServerStoreDevToolsBuilder<TState extends Record<string, NonNullable<unkno
    *
    * @returns 생성된 스토어 인스턴스
    */
-  build(): Store<TState> {
+  build(): Store<TState, TComputed, TActions, TAsyncActions> & TExtension {
     return this.buildStore();
   }
 }
 
 /**
  * 서버 환경용 스토어 설정 빌더 클래스
- * 서버에서는 최소한의 기능만 제공하고 빌더 패턴만 유지합니다.
+ * 계산된 속성, 액션, 비동기 액션은 클라이언트와 동일하게 동작합니다.
  *
  * @template TState 스토어 상태 타입
+ * @template TComputed 계산된 속성 정의 타입
+ * @template TActions 액션 정의 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
  */
-export class ServerStoreConfigBuilder<TState extends Record<string, NonNullable<unknown>>>
-  implements IStoreConfigBuilder<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>>
-{
-  protected config: StoreConfig<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>>;
+export class ServerStoreConfigBuilder<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+  TExtension = NonNullable<unknown>,
+> extends BaseStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+  protected options: StoreBuilderOptions;
 
-  constructor(config: Partial<StoreConfig<TState, NonNullable<unknown>, NonNullable<unknown>>>) {
+  constructor(
+    config: StoreConfig<TState, TComputed, TActions, TAsyncActions>,
+    options: StoreBuilderOptions = {},
+  ) {
     if (!config.initialState) {
       throw new Error('초기 상태는 필수입니다');
     }
 
-    this.config = {
-      initialState: config.initialState,
-      computed: {},
-      actions: {},
-      asyncActions: {},
-    };
+    super(config);
+    this.options = options;
   }
 
-  /**
-   * 계산된 속성을 설정합니다.
-   * 서버 환경에서는 실제로 계산된 속성을 설정하지 않습니다.
-   *
-   * @param _computedDefs 사용되지 않는 계산된 속성 정의
-   * @returns 업데이트된 스토어 설정 빌더
-   */
-  computed<NewComputed extends ComputedDef<TState>>(
-    // eslint-disable-next-line unused-imports/no-unused-vars,@typescript-eslint/no-unused-vars
-    _computedDefs: NewComputed,
-  ): IStoreConfigBuilder<TState, NewComputed, NonNullable<unknown>, NonNullable<unknown>> {
-    return this as unknown as IStoreConfigBuilder<
-      TState,
-      NewComputed,
-      NonNullable<unknown>,
-      NonNullable<unknown>
-    >;
-  }
-
-  /**
-   * 액션을 설정합니다.
-   * 서버 환경에서는 실제로 액션을 설정하지 않습니다.
-   *
-   * @param _actionDefs 사용되지 않는 액션 정의
-   * @returns 업데이트된 스토어 설정 빌더
-   */
-  actions<NewActions extends ActionsDef<TState>>(
-    // eslint-disable-next-line unused-imports/no-unused-vars,@typescript-eslint/no-unused-vars
-    _actionDefs: NewActions,
-  ): IStoreConfigBuilder<TState, NonNullable<unknown>, NewActions, NonNullable<unknown>> {
-    return this as unknown as IStoreConfigBuilder<
-      TState,
-      NonNullable<unknown>,
-      NewActions,
-      NonNullable<unknown>
-    >;
-  }
-
-  /**
-   * 비동기 액션을 설정합니다.
-   * 서버 환경에서는 실제로 비동기 액션을 설정하지 않습니다.
-   *
-   * @param _asyncActionDefs 사용되지 않는 비동기 액션 정의
-   * @returns 업데이트된 스토어 설정 빌더
-   */
-  asyncActions<NewAsyncActions extends AsyncActionsDef<TState>>(
-    // eslint-disable-next-line unused-imports/no-unused-vars,@typescript-eslint/no-unused-vars
-    _asyncActionDefs: NewAsyncActions,
-  ): IStoreConfigBuilder<TState, NonNullable<unknown>, NonNullable<unknown>, NewAsyncActions> {
-    return this as unknown as IStoreConfigBuilder<
-      TState,
-      NonNullable<unknown>,
-      NonNullable<unknown>,
-      NewAsyncActions
-    >;
+  protected withConfig<
+    NewComputed extends ComputedDef<TState>,
+    NewActions extends ActionsDef<TState>,
+    NewAsyncActions extends AsyncActionsDef<TState>,
+    NewExtension,
+  >(
+    config: StoreConfig<TState, NewComputed, NewActions, NewAsyncActions>,
+  ): IStoreConfigBuilder<TState, NewComputed, NewActions, NewAsyncActions, NewExtension> {
+    return new ServerStoreConfigBuilder<TState, NewComputed, NewActions, NewAsyncActions, NewExtension>(
+      config,
+      this.options,
+    );
   }
 
   /**
    * 미들웨어를 설정합니다.
-   * 서버 환경에서는 실제로 미들웨어를 적용하지 않습니다.
+   * 서버 환경에서는 serverMiddleware 옵션이 켜진 경우에만 실제로 적용됩니다.
    *
-   * @param _middlewares 사용되지 않는 미들웨어 배열
+   * @param middlewares 미들웨어 배열
    * @returns 스토어 미들웨어 빌더
    */
   middleware(
-    // eslint-disable-next-line unused-imports/no-unused-vars,@typescript-eslint/no-unused-vars
-    _middlewares: Middleware<TState>[],
-  ): IStoreMiddlewareBuilder<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>> {
-    return new ServerStoreMiddlewareBuilder<TState>(this.config);
+    middlewares: Middleware<TState>[],
+  ): IStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+    return new ServerStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>(
+      this.config,
+      middlewares,
+      this.options,
+    );
   }
 
   /**
@@ -192,17 +214,11 @@ export class ServerStoreConfigBuilder<TState extends Record<string, NonNullable<
   devTool(
     // eslint-disable-next-line unused-imports/no-unused-vars,@typescript-eslint/no-unused-vars
     _name: string,
-  ): IStoreDevToolsBuilder<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>> {
-    return new ServerStoreDevToolsBuilder<TState>(this.config);
-  }
-
-  /**
-   * 스토어를 생성합니다.
-   * 서버 환경에서는 최소한의 기능만 제공합니다.
-   *
-   * @returns 생성된 스토어 인스턴스
-   */
-  build(): StoreInternal<TState> {
-    return createStoreInternal<TState>(this.config);
+  ): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+    return new ServerStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>(
+      this.config,
+      [],
+      this.options,
+    );
   }
 }
@@ -0,0 +1,86 @@
+import { ActionsDef, AsyncActionsDef, AsyncActionsOptions, ComputedDef } from '../types/public-types';
+import { SliceConfig, SliceDef } from '../types/internal/slice';
+
+/**
+ * 슬라이스 빌더 클래스 - 슬라이스 정의의 시작점
+ * @template TState 슬라이스 상태 타입
+ */
+export class SliceBuilder<TState extends Record<string, NonNullable<unknown>>> {
+  /**
+   * 초기 상태를 설정하고 슬라이스 정의를 반환합니다.
+   * @param initialState 슬라이스 초기 상태 객체
+   * @returns 슬라이스 정의
+   */
+  initialState(
+    initialState: TState,
+  ): SliceConfigBuilder<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>> {
+    return new SliceConfigBuilder({
+      initialState,
+      computed: {},
+      actions: {},
+      asyncActions: {},
+      asyncActionOptions: {},
+    });
+  }
+}
+
+/**
+ * 슬라이스 설정 빌더 클래스
+ * 그 자체로 combineStores에 전달할 수 있는 슬라이스 정의입니다.
+ * @template TState 슬라이스 상태 타입
+ * @template TComputed 계산된 속성 정의 타입
+ * @template TActions 액션 정의 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
+ */
+export class SliceConfigBuilder<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+> implements SliceDef<TState, TComputed, TActions, TAsyncActions>
+{
+  readonly config: SliceConfig<TState, TComputed, TActions, TAsyncActions>;
+
+  constructor(config: SliceConfig<TState, TComputed, TActions, TAsyncActions>) {
+    this.config = config;
+  }
+
+  /**
+   * 계산된 속성을 설정합니다.
+   * @param computedDefs 계산된 속성 정의 객체 (슬라이스 상태를 받음)
+   * @returns 업데이트된 슬라이스 정의
+   */
+  computed<NewComputed extends ComputedDef<TState>>(
+    computedDefs: NewComputed,
+  ): SliceConfigBuilder<TState, NewComputed, TActions, TAsyncActions> {
+    return new SliceConfigBuilder({ ...this.config, computed: computedDefs });
+  }
+
+  /**
+   * 액션을 설정합니다.
+   * @param actionDefs 액션 정의 객체 (슬라이스 상태의 부분 상태나 드래프트 함수를 반환)
+   * @returns 업데이트된 슬라이스 정의
+   */
+  actions<NewActions extends ActionsDef<TState>>(
+    actionDefs: NewActions,
+  ): SliceConfigBuilder<TState, TComputed, NewActions, TAsyncActions> {
+    return new SliceConfigBuilder({ ...this.config, actions: actionDefs });
+  }
+
+  /**
+   * 비동기 액션을 설정합니다.
+   * @param asyncActionDefs 비동기 액션 정의 객체 (성공 결과의 state는 슬라이스의 부분 상태)
+   * @param options 액션 키별 옵션 (동시 실행 정책 등)
+   * @returns 업데이트된 슬라이스 정의
+   */
+  asyncActions<NewAsyncActions extends AsyncActionsDef<TState>>(
+    asyncActionDefs: NewAsyncActions,
+    options: AsyncActionsOptions<NewAsyncActions, TState> = {},
+  ): SliceConfigBuilder<TState, TComputed, TActions, NewAsyncActions> {
+    return new SliceConfigBuilder({
+      ...this.config,
+      asyncActions: asyncActionDefs,
+      asyncActionOptions: options,
+    });
+  }
+}
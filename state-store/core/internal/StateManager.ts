@@ -1,5 +1,6 @@
 import { ComputedDef } from '../types/public-types';
 import { InternalStateManager } from './state';
+import { StateContainerOptions } from './state/interfaces.ts';
 import { fx } from '@fxts/core';
 
 /**
@@ -16,9 +17,10 @@ export class StateManager<TState extends Record<string, any>, TComputed extends
    * StateManager 생성자
    * @param initialState 초기 상태 객체
    * @param computed 계산된 속성 정의 객체 (선택적)
+   * @param options 상태 컨테이너 옵션 (dynamicKeys로 상태 키 추가/제거 허용)
    */
-  constructor(initialState: TState, computed?: TComputed) {
-    this.manager = new InternalStateManager<TState, TComputed>(initialState, computed);
+  constructor(initialState: TState, computed?: TComputed, options: StateContainerOptions = {}) {
+    this.manager = new InternalStateManager<TState, TComputed>(initialState, computed, options);
   }
 
   /**
@@ -98,6 +100,31 @@ export class StateManager<TState extends Record<string, any>, TComputed extends
     return this.manager.subscribeStates(selectors, listener);
   }
 
+  /**
+   * 상태 경로의 값 변경을 구독합니다.
+   * 선택자 프록시 없이 구독 트리의 경로 인덱스를 직접 사용하므로 세밀한 구독에 적합합니다.
+   *
+   * @template T 경로 값 타입
+   * @param path 구독할 상태 경로 (예: 'fields.email.value', 'todos.*.completed')
+   * @param listener 값이 변경될 때 새 값, 이전 값, 실제 경로와 함께 호출될 콜백 함수
+   * @param options 구독 옵션
+   * @param options.priority 리스너의 우선순위 (높을수록 먼저 실행)
+   * @param options.throttle 리스너 호출 제한 시간(ms)
+   * @param options.errorHandler 리스너 실행 중 오류 발생 시 처리할 함수
+   * @returns 구독 취소 함수
+   */
+  subscribePath<T = unknown>(
+    path: string,
+    listener: (value: T, oldValue: T | undefined, path: string) => void,
+    options: {
+      priority?: number;
+      throttle?: number;
+      errorHandler?: (error: Error) => void;
+    } = {},
+  ): () => void {
+    return this.manager.subscribePath(path, listener, options);
+  }
+
   /**
    * 상태를 업데이트합니다.
    * 내부용 메서드이므로 이름에 '_'가 접두사로 붙어 있습니다.
@@ -108,6 +135,7 @@ export class StateManager<TState extends Record<string, any>, TComputed extends
    * @param options.updateId 업데이트 식별자
    * @param options.silent 구독자에게 알림 없이 업데이트
    * @param options.statePath 특정 경로만 업데이트
+   * @param options.changedPaths 드래프트 액션에서 수집된 변경 경로 (지정 시 구조 비교 생략)
    */
   _setState(
     newState: Partial<TState>,
@@ -116,6 +144,7 @@ export class StateManager<TState extends Record<string, any>, TComputed extends
       updateId?: string;
       silent?: boolean;
       statePath?: string;
+      changedPaths?: string[];
     } = {},
   ): void {
     return this.manager._setState(newState, options);
@@ -169,6 +198,60 @@ export class StateManager<TState extends Record<string, any>, TComputed extends
     return this.manager.createSnapshot();
   }
 
+  /**
+   * 모든 상태 구독자를 제거합니다.
+   */
+  clearSubscribers(): void {
+    this.manager.clearSubscribers();
+  }
+
+  /**
+   * 계산된 값을 추가합니다. (런타임 주입)
+   * 추가된 값의 의존성만 추적하여 의존성 그래프에 반영합니다.
+   *
+   * @param computedDefs 추가할 계산된 속성 정의 객체
+   */
+  addComputed(computedDefs: ComputedDef<TState>): void {
+    this.manager.addComputed(computedDefs);
+  }
+
+  /**
+   * 계산된 값을 제거합니다. (런타임 주입 해제)
+   *
+   * @param keys 제거할 계산된 값의 키 목록
+   */
+  removeComputed(keys: Array<keyof TComputed>): void {
+    this.manager.removeComputed(keys);
+  }
+
+  /**
+   * 상태 관리자를 해제합니다.
+   * 진행 중인 비동기 계산을 중단하고 모든 상태 구독자를 제거합니다.
+   *
+   * @param reason 중단 사유
+   */
+  destroy(reason?: unknown): void {
+    this.manager.destroy(reason);
+  }
+
+  /**
+   * 트랜잭션을 시작합니다.
+   * 종료될 때까지 구독자 알림을 미루고 변경 경로를 누적합니다.
+   */
+  beginTransaction(): void {
+    this.manager.beginTransaction();
+  }
+
+  /**
+   * 트랜잭션을 종료합니다.
+   * 누적된 경로로 알림을 보내는 것은 호출자의 책임입니다.
+   *
+   * @returns 트랜잭션 중 누적된 변경 경로
+   */
+  endTransaction(): string[] {
+    return this.manager.endTransaction();
+  }
+
   /**
    * 여러 선택자를 병렬로 계산합니다.
    * 계산 비용이 큰 선택자가 여러 개 있을 때 유용합니다.
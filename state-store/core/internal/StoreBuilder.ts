@@ -1,13 +1,15 @@
 import { ActionsDef, AsyncActionsDef, ComputedDef } from '../types/public-types.ts';
+import { BaseStoreConfigBuilder } from './BaseStoreConfigBuilder';
 import { createStoreInternal } from './createStoreInternal.ts';
 import { ServerStoreConfigBuilder } from './ServerStoreBuilder.ts';
-import { applyMiddlewares, connectDevTools } from './storeEnhancers';
+import { applyEnhancers, applyMiddlewares, connectDevTools } from './storeEnhancers';
 import {
   IStoreConfigBuilder,
   IStoreDevToolsBuilder,
   IStoreMiddlewareBuilder,
   Middleware,
   Store,
+  StoreBuilderOptions,
   StoreConfig,
   StoreInternal,
 } from '../types/internal/store.ts';
@@ -18,6 +20,15 @@ import { isServer } from '../../utils/env';
  * @template TState 스토어 상태 타입
  */
 export class StoreBuilder<TState extends Record<string, NonNullable<unknown>>> {
+  private readonly options: StoreBuilderOptions;
+
+  /**
+   * @param options 스토어 빌더 옵션
+   */
+  constructor(options: StoreBuilderOptions = {}) {
+    this.options = options;
+  }
+
   /**
    * 초기 상태를 설정하고 스토어 설정 빌더를 반환합니다.
    * @param initialState 초기 상태 객체
@@ -26,9 +37,25 @@ export class StoreBuilder<TState extends Record<string, NonNullable<unknown>>> {
   initialState(
     initialState: TState,
   ): IStoreConfigBuilder<TState, NonNullable<unknown>, NonNullable<unknown>, NonNullable<unknown>> {
+    const mode = this.options.mode ?? (isServer ? 'server' : 'client');
+
     // 서버 환경에서는 ServerStoreConfigBuilder를 반환
-    if (isServer) {
-      return new ServerStoreConfigBuilder<TState>({ initialState });
+    if (mode === 'server') {
+      return new ServerStoreConfigBuilder<
+        TState,
+        NonNullable<unknown>,
+        NonNullable<unknown>,
+        NonNullable<unknown>
+      >(
+        {
+          initialState,
+          computed: {},
+          actions: {},
+          asyncActions: {},
+          dynamicKeys: this.options.dynamicKeys,
+        },
+        this.options,
+      );
     } else {
       // 클라이언트 환경에서는 ClientStoreConfigBuilder를 반환
       return new ClientStoreConfigBuilder<
@@ -41,6 +68,7 @@ export class StoreBuilder<TState extends Record<string, NonNullable<unknown>>> {
         computed: {},
         actions: {},
         asyncActions: {},
+        dynamicKeys: this.options.dynamicKeys,
       });
     }
   }
@@ -58,6 +86,7 @@ abstract class BaseClientStoreBuilder<
   TComputed extends ComputedDef<TState>,
   TActions extends ActionsDef<TState>,
   TAsyncActions extends AsyncActionsDef<TState>,
+  TExtension = NonNullable<unknown>,
 > {
   protected config: StoreConfig<TState, TComputed, TActions, TAsyncActions>;
   protected middlewares: Middleware<TState>[];
@@ -79,7 +108,7 @@ abstract class BaseClientStoreBuilder<
   protected buildStore(
     withDevTools = false,
     devToolsName?: string,
-  ): StoreInternal<TState, TComputed, TActions, TAsyncActions> {
+  ): StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension {
     // 스토어 생성
     let store = createStoreInternal<TState, TComputed, TActions, TAsyncActions>(this.config);
 
@@ -88,6 +117,11 @@ abstract class BaseClientStoreBuilder<
       store = applyMiddlewares<TState, TComputed, TActions, TAsyncActions>(store, this.middlewares);
     }
 
+    // 인핸서 적용
+    if (this.config.enhancers?.length) {
+      store = applyEnhancers<TState, TComputed, TActions, TAsyncActions>(store, this.config.enhancers);
+    }
+
     // DevTools 연결 (필요한 경우)
     if (withDevTools && devToolsName) {
       try {
@@ -97,7 +131,10 @@ abstract class BaseClientStoreBuilder<
       }
     }
 
-    return store;
+    // 스토어 생성 완료 (onInit 훅 호출)
+    store._init();
+
+    return store as StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension;
   }
 }
 
@@ -113,17 +150,18 @@ class ClientStoreMiddlewareBuilder<
     TComputed extends ComputedDef<TState>,
     TActions extends ActionsDef<TState>,
     TAsyncActions extends AsyncActionsDef<TState>,
+    TExtension = NonNullable<unknown>,
   >
-  extends BaseClientStoreBuilder<TState, TComputed, TActions, TAsyncActions>
-  implements IStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions>
+  extends BaseClientStoreBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>
+  implements IStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>
 {
   /**
    * DevTools 설정을 추가합니다.
    * @param name DevTools에 표시될 스토어 이름
    * @returns 스토어 DevTools 빌더
    */
-  devTool(name: string): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions> {
-    return new ClientStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions>(
+  devTool(name: string): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+    return new ClientStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>(
       this.config,
       this.middlewares,
       name,
@@ -134,7 +172,7 @@ class ClientStoreMiddlewareBuilder<
    * 스토어를 생성합니다.
    * @returns 미들웨어가 적용된 스토어 인스턴스
    */
-  build(): StoreInternal<TState, TComputed, TActions, TAsyncActions> {
+  build(): StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension {
     return this.buildStore();
   }
 }
@@ -151,9 +189,10 @@ class ClientStoreDevToolsBuilder<
     TComputed extends ComputedDef<TState>,
     TActions extends ActionsDef<TState>,
     TAsyncActions extends AsyncActionsDef<TState>,
+    TExtension = NonNullable<unknown>,
   >
-  extends BaseClientStoreBuilder<TState, TComputed, TActions, TAsyncActions>
-  implements IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions>
+  extends BaseClientStoreBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>
+  implements IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>
 {
   private devToolsName: string;
 
@@ -170,13 +209,13 @@ class ClientStoreDevToolsBuilder<
    * 최종 스토어를 생성합니다.
    * @returns 미들웨어와 DevTools가 적용된 스토어 인스턴스
    */
-  build(): Store<TState, TComputed, TActions, TAsyncActions> {
+  build(): Store<TState, TComputed, TActions, TAsyncActions> & TExtension {
     return this.buildStore(true, this.devToolsName);
   }
 }
 
 /**
- * 클라이언트측 스토어 설정 빌더 기본 클래스
+ * 클라이언트측 스토어 설정 빌더 클래스
  * @template TState 스토어 상태 타입
  * @template TComputed 계산된 속성 정의 타입
  * @template TActions 액션 정의 타입
@@ -187,54 +226,19 @@ export class ClientStoreConfigBuilder<
   TComputed extends ComputedDef<TState>,
   TActions extends ActionsDef<TState>,
   TAsyncActions extends AsyncActionsDef<TState>,
-> implements IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions>
-{
-  protected config: StoreConfig<TState, TComputed, TActions, TAsyncActions>;
-
-  constructor(config: StoreConfig<TState, TComputed, TActions, TAsyncActions>) {
-    this.config = config;
-  }
-
-  /**
-   * 계산된 속성을 설정합니다.
-   * @param computedDefs 계산된 속성 정의 객체
-   * @returns 업데이트된 스토어 설정 빌더
-   */
-  computed<NewComputed extends ComputedDef<TState>>(
-    computedDefs: NewComputed,
-  ): IStoreConfigBuilder<TState, NewComputed, TActions, TAsyncActions> {
-    return new ClientStoreConfigBuilder<TState, NewComputed, TActions, TAsyncActions>({
-      ...this.config,
-      computed: computedDefs,
-    });
-  }
-
-  /**
-   * 액션을 설정합니다.
-   * @param actionDefs 액션 정의 객체
-   * @returns 업데이트된 스토어 설정 빌더
-   */
-  actions<NewActions extends ActionsDef<TState>>(
-    actionDefs: NewActions,
-  ): IStoreConfigBuilder<TState, TComputed, NewActions, TAsyncActions> {
-    return new ClientStoreConfigBuilder<TState, TComputed, NewActions, TAsyncActions>({
-      ...this.config,
-      actions: actionDefs,
-    });
-  }
-
-  /**
-   * 비동기 액션을 설정합니다.
-   * @param asyncActionDefs 비동기 액션 정의 객체
-   * @returns 업데이트된 스토어 설정 빌더
-   */
-  asyncActions<NewAsyncActions extends AsyncActionsDef<TState>>(
-    asyncActionDefs: NewAsyncActions,
-  ): IStoreConfigBuilder<TState, TComputed, TActions, NewAsyncActions> {
-    return new ClientStoreConfigBuilder<TState, TComputed, TActions, NewAsyncActions>({
-      ...this.config,
-      asyncActions: asyncActionDefs,
-    });
+  TExtension = NonNullable<unknown>,
+> extends BaseStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+  protected withConfig<
+    NewComputed extends ComputedDef<TState>,
+    NewActions extends ActionsDef<TState>,
+    NewAsyncActions extends AsyncActionsDef<TState>,
+    NewExtension,
+  >(
+    config: StoreConfig<TState, NewComputed, NewActions, NewAsyncActions>,
+  ): IStoreConfigBuilder<TState, NewComputed, NewActions, NewAsyncActions, NewExtension> {
+    return new ClientStoreConfigBuilder<TState, NewComputed, NewActions, NewAsyncActions, NewExtension>(
+      config,
+    );
   }
 
   /**
@@ -244,8 +248,8 @@ export class ClientStoreConfigBuilder<
    */
   middleware(
     middlewares: Middleware<TState>[],
-  ): IStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions> {
-    return new ClientStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions>(
+  ): IStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+    return new ClientStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>(
       this.config,
       middlewares,
     );
@@ -256,15 +260,11 @@ export class ClientStoreConfigBuilder<
    * @param name DevTools에 표시될 스토어 이름
    * @returns 스토어 DevTools 빌더
    */
-  devTool(name: string): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions> {
-    return new ClientStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions>(this.config, [], name);
-  }
-
-  /**
-   * 스토어를 생성합니다.
-   * @returns 생성된 스토어 인스턴스
-   */
-  build(): StoreInternal<TState, TComputed, TActions, TAsyncActions> {
-    return createStoreInternal<TState, TComputed, TActions, TAsyncActions>(this.config);
+  devTool(name: string): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension> {
+    return new ClientStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>(
+      this.config,
+      [],
+      name,
+    );
   }
 }
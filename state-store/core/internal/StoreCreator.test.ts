@@ -0,0 +1,400 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from '../createStore';
+import { deleteKey } from '../deleteKey';
+import { CancelledError, StoreDestroyedError } from '../errors';
+import { mutate } from '../mutate';
+import { Action } from '../types/internal/action';
+import { Middleware, TransactionHandle } from '../types/internal/store';
+
+type CounterState = {
+  a: number;
+  b: { value: number };
+};
+
+// jest 27의 node 환경은 DOMException을 전역으로 노출하지 않으므로 AbortSignal이 만든 오류의 생성자를 사용
+globalThis.DOMException ??= AbortSignal.abort().reason.constructor;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createCounterStore(middleware: Middleware<CounterState>[] = []) {
+  return createStore<CounterState>({ mode: 'client' })
+    .initialState({ a: 0, b: { value: 0 } })
+    .actions({
+      incrementA: () => (state: CounterState) => ({ a: state.a + 1 }),
+      setB: (value: number) =>
+        mutate<CounterState>((draft) => {
+          draft.b.value = value;
+        }),
+      fail: () => () => {
+        throw new Error('action failed');
+      },
+    })
+    .middleware(middleware)
+    .build();
+}
+
+describe('transaction', () => {
+  test('notifies once with the merged changes and passes one grouped action to middleware', () => {
+    const actions: Action[] = [];
+    const store = createCounterStore([
+      () => (next) => (action) => {
+        actions.push(action);
+        return next(action);
+      },
+    ]);
+    const listener = jest.fn();
+    const pathListener = jest.fn();
+    store.subscribe(listener);
+    store.subscribePath('b.value', pathListener);
+
+    const result = store.transaction(
+      () => {
+        store.actions.incrementA();
+        store.actions.incrementA();
+        store.actions.setB(5);
+        return 'done';
+      },
+      { name: 'bulk' },
+    );
+
+    expect(result).toBe('done');
+    expect(store.getState()).toEqual({ a: 2, b: { value: 5 } });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(pathListener).toHaveBeenCalledWith(5, 0, 'b.value');
+    expect(actions).toHaveLength(1);
+    expect(actions[0].type).toBe('bulk');
+    expect((actions[0].meta?.actions as Action[]).map((action) => action.type)).toEqual([
+      'incrementA',
+      'incrementA',
+      'setB',
+    ]);
+  });
+
+  test('rolls back every change when the function throws', () => {
+    const store = createCounterStore();
+
+    expect(() =>
+      store.transaction(() => {
+        store.actions.incrementA();
+        store.actions.setB(9);
+        store.actions.fail();
+      }),
+    ).toThrow('action failed');
+    expect(store.getState()).toEqual({ a: 0, b: { value: 0 } });
+  });
+
+  test('rolls back when the returned promise rejects and keeps changes made outside', async () => {
+    const store = createCounterStore();
+
+    const pending = store.transaction(async () => {
+      store.actions.incrementA();
+      await sleep(5);
+      throw new Error('request failed');
+    });
+    store.actions.setB(3);
+
+    await expect(pending).rejects.toThrow('request failed');
+    expect(store.getState()).toEqual({ a: 0, b: { value: 3 } });
+  });
+
+  test('includes actions run through the handle after an await', async () => {
+    const store = createCounterStore();
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    await store.transaction(async (tx: TransactionHandle) => {
+      store.actions.incrementA();
+      await sleep(5);
+      tx.run(() => store.actions.setB(7));
+    });
+
+    expect(store.getState()).toEqual({ a: 1, b: { value: 7 } });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('throws when the handle is used after the transaction finished', () => {
+    const store = createCounterStore();
+    let handle: TransactionHandle | undefined;
+
+    store.transaction((tx: TransactionHandle) => {
+      handle = tx;
+    });
+
+    expect(() => handle?.run(() => store.actions.incrementA())).toThrow('already finished');
+  });
+
+  test('merges nested transactions into the outer one', () => {
+    const store = createCounterStore();
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.transaction(() => {
+      store.transaction(() => store.actions.incrementA());
+      store.actions.incrementA();
+    });
+
+    expect(store.getState().a).toBe(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('destroy and lifecycle hooks', () => {
+  function createLifecycleStore(log: string[]) {
+    return createStore<CounterState>({ mode: 'client' })
+      .initialState({ a: 0, b: { value: 0 } })
+      .actions({
+        incrementA: () => (state: CounterState) => ({ a: state.a + 1 }),
+      })
+      .asyncActions(
+        {
+          load: async () => {
+            throw new Error('request failed');
+          },
+          slow: async () => {
+            await sleep(100);
+            return { success: true as const, state: { a: 100 } };
+          },
+        },
+        { load: { retry: { attempts: 3, delay: 60_000 } }, slow: { timeout: 60_000 } },
+      )
+      .lifecycle({
+        onInit: (state: CounterState) => log.push(`init ${state.a}`),
+        onFirstSubscribe: () => log.push('first'),
+        onLastUnsubscribe: () => log.push('last'),
+        onDestroy: () => log.push('destroy'),
+      })
+      .build();
+  }
+
+  test('calls the subscribe hooks when the first listener joins and the last one leaves', () => {
+    const log: string[] = [];
+    const store = createLifecycleStore(log);
+
+    const unsubscribe = store.subscribe(() => undefined);
+    const unsubscribePath = store.subscribePath('a', () => undefined);
+    unsubscribe();
+    unsubscribe();
+    unsubscribePath();
+    store.subscribeAsyncState(() => undefined);
+
+    expect(log).toEqual(['init 0', 'first', 'last', 'first']);
+  });
+
+  test('settles pending async work right away and drops listeners', async () => {
+    const log: string[] = [];
+    const store = createLifecycleStore(log);
+    const listener = jest.fn();
+    store.subscribe(listener);
+    const failing = store.asyncActions.load();
+    const slow = store.asyncActions.slow();
+    await sleep(5);
+
+    const startedAt = Date.now();
+    store.destroy();
+    store.destroy();
+    const results = await Promise.all([failing, slow]);
+
+    expect(Date.now() - startedAt).toBeLessThan(50);
+    results.forEach((result) => {
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toBeInstanceOf(CancelledError);
+    });
+    expect(log.filter((entry) => entry === 'destroy')).toHaveLength(1);
+    expect(store.getState().a).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('throws a clear error when actions run after destroy', () => {
+    const store = createLifecycleStore([]);
+    store.destroy();
+
+    expect(() => store.actions.incrementA()).toThrow(StoreDestroyedError);
+    expect(() => store.actions.incrementA()).toThrow(
+      'Cannot run action "incrementA" because the store has been destroyed',
+    );
+    expect(() => store.asyncActions.slow()).toThrow(StoreDestroyedError);
+    expect(() => store.dispatch({ type: 'raw', payload: {} })).toThrow(StoreDestroyedError);
+  });
+});
+
+describe('inject and eject', () => {
+  type CartState = {
+    count: number;
+    items: string[];
+  };
+
+  function createCartStore(log: string[]) {
+    const logAs =
+      (label: string): Middleware<CartState> =>
+      () =>
+      (next) =>
+      (action) => {
+        log.push(`${label}:${action.type}`);
+        return next(action);
+      };
+    const store = createStore<CartState>({ mode: 'client' })
+      .initialState({ count: 1, items: [] })
+      .computed({ double: (state: CartState) => state.count * 2 })
+      .actions({ increment: () => (state: CartState) => ({ count: state.count + 1 }) })
+      .middleware([logAs('outer')])
+      .build();
+    const cart = store.inject({
+      name: 'cart',
+      computed: {
+        triple: (state: CartState) => state.count * 3,
+        itemCount: (state: CartState) => state.items.length,
+      },
+      actions: {
+        addItem: (item: string) => (state: CartState) => ({ items: [...state.items, item] }),
+      },
+      asyncActions: {
+        load: async (count: number) => {
+          await sleep(10);
+          return { success: true as const, state: { count } };
+        },
+      },
+      middleware: [logAs('inner')],
+    });
+
+    return { store, cart };
+  }
+
+  test('exposes injected members through the handle and runs injected middleware', async () => {
+    const log: string[] = [];
+    const { store, cart } = createCartStore(log);
+
+    cart.actions.addItem('apple');
+    store.actions.increment();
+    expect(cart.computed.itemCount).toBe(1);
+    expect(cart.computed.triple).toBe(6);
+    expect(store.computed.double).toBe(4);
+    expect(log).toEqual(['outer:addItem', 'inner:addItem', 'outer:increment', 'inner:increment']);
+
+    await cart.asyncActions.load(10);
+    expect(store.getState().count).toBe(10);
+    expect(cart.computed.triple).toBe(30);
+  });
+
+  test('rejects names that are already defined', () => {
+    const { store } = createCartStore([]);
+
+    expect(() => store.inject({ name: 'other', actions: { increment: () => ({}) } })).toThrow(
+      'action "increment" is already defined',
+    );
+    expect(() => store.inject({ name: 'other', computed: { triple: () => 1 } })).toThrow(
+      'computed "triple" is already defined',
+    );
+  });
+
+  test('eject removes the injection and cancels its async work', async () => {
+    const log: string[] = [];
+    const { store, cart } = createCartStore(log);
+    const pending = cart.asyncActions.load(99);
+
+    expect(cart.eject()).toBe(true);
+    expect(cart.eject()).toBe(false);
+    expect((await pending).success).toBe(false);
+    expect(store.getState().count).toBe(1);
+    expect(Object.keys(store.actions)).toEqual(['increment']);
+    expect(Object.keys(store.computed)).toEqual(['double']);
+
+    log.length = 0;
+    store.actions.increment();
+    expect(log).toEqual(['outer:increment']);
+  });
+
+  test('a stale handle cannot eject an injection that replaced it', () => {
+    const { store } = createCartStore([]);
+    const first = store.inject({ name: 'stats', computed: { quad: (state: CartState) => state.count * 4 } });
+    const second = store.inject({ name: 'stats', computed: { quad: (state: CartState) => state.count * 5 } });
+
+    expect(second.computed.quad).toBe(5);
+    expect(first.eject()).toBe(false);
+    store.actions.increment();
+    expect(second.computed.quad).toBe(10);
+    expect(store.eject('stats')).toBe(true);
+  });
+});
+
+describe('dynamic keys', () => {
+  type User = { name: string };
+  type UserMap = Record<string, User>;
+
+  function createUserStore() {
+    return createStore<UserMap>({ mode: 'client', dynamicKeys: true })
+      .initialState({})
+      .computed({ total: (state: UserMap) => Object.keys(state).length })
+      .actions({
+        upsert: (id: string, user: User) => ({ [id]: user }),
+        remove: (id: string) => ({ [id]: deleteKey }),
+        rename: (id: string, name: string) =>
+          mutate<UserMap>((draft) => {
+            draft[id].name = name;
+          }),
+        draftRemove: (id: string) =>
+          mutate<UserMap>((draft) => {
+            delete draft[id];
+          }),
+      })
+      .build();
+  }
+
+  test('adds and removes keys and notifies their path subscribers', () => {
+    const store = createUserStore();
+    const events: unknown[] = [];
+    store.subscribePath('u1', (value: unknown) => events.push(value));
+    store.subscribePath('u1.name', (value: unknown) => events.push(value));
+
+    store.actions.upsert('u1', { name: 'kim' });
+    store.actions.upsert('u2', { name: 'lee' });
+    expect(store.getState()).toEqual({ u1: { name: 'kim' }, u2: { name: 'lee' } });
+    expect(store.computed.total).toBe(2);
+
+    store.actions.rename('u1', 'park');
+    store.actions.remove('u1');
+    store.actions.draftRemove('u2');
+
+    expect(store.getState()).toEqual({});
+    expect(store.computed.total).toBe(0);
+    expect(events).toEqual([{ name: 'kim' }, 'kim', { name: 'park' }, 'park', undefined, undefined]);
+  });
+
+  test('rolls back added keys with the transaction', () => {
+    const store = createUserStore();
+    store.actions.upsert('u1', { name: 'kim' });
+
+    expect(() =>
+      store.transaction(() => {
+        store.actions.upsert('u2', { name: 'lee' });
+        store.actions.remove('u1');
+        throw new Error('cancelled');
+      }),
+    ).toThrow('cancelled');
+    expect(store.getState()).toEqual({ u1: { name: 'kim' } });
+  });
+
+  test('warns with the action name and keeps the state shape without the option', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createStore<{ count: number; [key: string]: unknown }>({ mode: 'client' })
+      .initialState({ count: 0 })
+      .actions({
+        addExtra: () => ({ extra: 1 }),
+        removeCount: () => ({ count: deleteKey }),
+      })
+      .build();
+
+    store.actions.addExtra();
+    store.actions.removeCount();
+
+    expect(store.getState()).toEqual({ count: 0 });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Action "addExtra" set state keys not in initialState (extra)'),
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Action "removeCount" tried to delete state keys (count)'),
+    );
+    warn.mockRestore();
+  });
+});
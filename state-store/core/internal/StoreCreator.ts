@@ -2,10 +2,51 @@ import { ActionsDef, AsyncActionsDef, ComputedDef } from '../types/public-types.
 import { StateManager } from './StateManager.ts';
 import { AsyncActionManager } from './AsyncActionManager.ts';
 import { ActionManager } from './ActionManager.ts';
-import { ComputedState } from '../types/internal/state.ts';
-import { StoreConfig, StoreInternal } from '../types/internal/store.ts';
+import { AsyncState, ComputedState, DehydratedState } from '../types/internal/state.ts';
+import { Action, ActionsApi, AsyncActionsApi } from '../types/internal/action.ts';
+import {
+  DehydrateOptions,
+  InjectConfig,
+  InjectedHandle,
+  Middleware,
+  StoreConfig,
+  StoreInternal,
+  StoreLifecycleHooks,
+  TransactionHandle,
+  TransactionOptions,
+} from '../types/internal/store.ts';
+import { StoreDestroyedError } from '../errors.ts';
+import { deleteKey } from '../deleteKey.ts';
+import { toJSONSafe } from '../../utils/hydration';
 import { fx } from '@fxts/core';
 
+// 트랜잭션 묶음 액션의 기본 타입
+const TRANSACTION_ACTION_TYPE = '[Transaction]';
+// 액션을 거치지 않는 상태 설정의 스키마 검증 오류에 표시되는 업데이트 출처
+const SET_STATE_ACTION_TYPE = '[Store] Set State';
+const HYDRATE_ACTION_TYPE = '[Store] Hydrate';
+
+/**
+ * 런타임 주입 항목 - eject 시 제거할 키와 주입된 미들웨어
+ */
+interface InjectionRecord {
+  computedKeys: string[];
+  actionKeys: string[];
+  asyncActionKeys: string[];
+  middleware: Array<ReturnType<Middleware<any>>>;
+}
+
+/**
+ * 진행 중인 트랜잭션 - 트랜잭션 안에서 호출된 액션과 변경된 최상위 키의 원래 값, 마지막으로 기록한 값
+ */
+interface TransactionScope {
+  actions: Action[];
+  changedPaths: Set<string>;
+  originals: Map<string, unknown>;
+  lastWrites: Map<string, unknown>;
+  finished: boolean;
+}
+
 /**
  * 스토어 생성자 - 모든 컴포넌트를 조립하여 완전한 스토어를 생성합니다.
  * @template TState 스토어 상태 타입
@@ -24,12 +65,39 @@ export class StoreCreator<
   private readonly stateManager: StateManager<TState, TComputed>;
   private asyncActionManager: AsyncActionManager<TState, TAsyncActions>;
   private actionManager: ActionManager<TState, TComputed, TActions, TAsyncActions>;
+  private baseDispatch!: (action: Action) => NonNullable<unknown>;
+
+  // 동기적으로 실행 중인 트랜잭션 (트랜잭션 함수 밖에서는 null)
+  private activeTransaction: TransactionScope | null = null;
+
+  // 생명주기 상태 (스토어 생성이 끝나기 전의 구독은 구독자 수에 포함하지 않음)
+  private initialized = false;
+  private destroyed = false;
+  private subscriberCount = 0;
+
+  // destroy() 시 실행할 정리 함수 (미들웨어, 인핸서, DevTools가 등록)
+  private teardowns: Array<() => void> = [];
+
+  // 런타임 주입으로 항목이 추가/제거되는 네임스페이스 객체
+  private readonly computedNamespace = {} as ComputedState<TState, TComputed>;
+  private actionsNamespace!: ActionsApi<TState, TActions, TComputed, TAsyncActions>;
+  private asyncActionsNamespace!: ReturnType<
+    AsyncActionManager<TState, TAsyncActions>['createAsyncActionsApi']
+  >;
+
+  // 이름별 런타임 주입 항목 (주입 순서 유지)
+  private readonly injections = new Map<string, InjectionRecord>();
+
+  // 주입된 미들웨어가 적용된 디스패치 (빌더에서 적용한 미들웨어 안쪽에서 실행)
+  private injectedDispatch!: (action: Action) => NonNullable<unknown>;
 
   constructor(config: StoreConfig<TState, TComputed, TActions, TAsyncActions>) {
     this.config = this.normalizeConfig(config);
 
     // 상태 관리자 초기화
-    this.stateManager = new StateManager<TState, TComputed>(this.config.initialState, this.config.computed);
+    this.stateManager = new StateManager<TState, TComputed>(this.config.initialState, this.config.computed, {
+      dynamicKeys: this.config.dynamicKeys,
+    });
 
     // 스토어 객체 생성 및 기본 메서드 초기화 (ActionManager 생성 전에)
     this.store = this.createStoreBase();
@@ -38,13 +106,19 @@ export class StoreCreator<
     this.actionManager = new ActionManager<TState, TComputed, TActions, TAsyncActions>(
       this.config.actions as TActions,
       this.store,
+      this.config.schema,
+      this.config.schemaOptions?.errorBoundary,
+      this.config.dynamicKeys,
+      (action: Action) => this.dispatchAction(action),
     );
 
     // 비동기 액션 관리자 초기화
     this.asyncActionManager = new AsyncActionManager<TState, TAsyncActions>(
       this.config.asyncActions as TAsyncActions,
-      new Set(), // 임시 빈 리스너 세트, 후에 stateManager의 리스너로 대체됨
-      this.stateManager._setState.bind(this.stateManager),
+      new Set(), // 비동기 상태 리스너 세트 (subscribeAsyncState로 등록)
+      (action: Action) => this.dispatchAction(action), // 미들웨어가 적용된 디스패치를 거쳐 상태 반영
+      this.stateManager.getState.bind(this.stateManager),
+      this.config.asyncActionOptions,
     );
 
     // 나머지 스토어 기능 초기화 (액션, 계산된 값 등)
@@ -70,10 +144,11 @@ export class StoreCreator<
     // 기본 메서드 정의 (액션 관련 메서드 제외)
     Object.assign(storeBase, {
       getState: this.stateManager.getState.bind(this.stateManager),
-      subscribe: this.stateManager.subscribe.bind(this.stateManager),
-      subscribeState: this.stateManager.subscribeState.bind(this.stateManager),
-      subscribeStates: this.stateManager.subscribeStates.bind(this.stateManager),
-      _setState: this.stateManager._setState.bind(this.stateManager),
+      subscribe: this.trackSubscription(this.stateManager.subscribe.bind(this.stateManager)),
+      subscribeState: this.trackSubscription(this.stateManager.subscribeState.bind(this.stateManager)),
+      subscribeStates: this.trackSubscription(this.stateManager.subscribeStates.bind(this.stateManager)),
+      subscribePath: this.trackSubscription(this.stateManager.subscribePath.bind(this.stateManager)),
+      _dynamicKeys: this.config.dynamicKeys,
     });
 
     return storeBase;
@@ -84,30 +159,70 @@ export class StoreCreator<
    * ActionManager 생성 후에 호출됩니다.
    */
   private completeStoreInitialization(): void {
-    // 디스패치 함수 생성 및 설정
-    this.store.dispatch = this.actionManager.createDispatcher(
-      this.stateManager._setState.bind(this.stateManager),
+    // 디스패치 함수 생성 및 설정 (트랜잭션은 미들웨어를 거치지 않는 기본 디스패치를 사용)
+    const dispatch = this.actionManager.createDispatcher(this.stateManager._setState.bind(this.stateManager));
+    this.baseDispatch = (action: Action) => {
+      this.assertNotDestroyed(action.type);
+      return dispatch(action);
+    };
+    this.injectedDispatch = this.baseDispatch;
+    this.store.dispatch = (action: Action) => this.injectedDispatch(action);
+
+    // 스토어에 노출되는 직접 상태 설정 (DevTools 타임트래블 등)도 커밋 전에 스키마로 검증
+    this.store._setState = (newState: Partial<TState>) => {
+      this.actionManager.validate(newState, SET_STATE_ACTION_TYPE);
+      this.stateManager._setState(newState);
+    };
+
+    // 비동기 상태 구독 함수 설정
+    this.store.subscribeAsyncState = this.trackSubscription(
+      this.asyncActionManager.subscribe.bind(this.asyncActionManager),
     );
 
+    // 비동기 액션 일괄 취소 함수 설정
+    this.store.cancelAllAsync = this.asyncActionManager.cancelAll.bind(this.asyncActionManager);
+
+    // 생명주기 함수 설정
+    this.store.destroy = this.destroy.bind(this);
+    this.store._init = this.init.bind(this);
+    this.store._addTeardown = (teardown: () => void) => {
+      this.teardowns.push(teardown);
+    };
+
+    // 런타임 주입 함수 설정
+    this.store.inject = this.inject.bind(this);
+    this.store.eject = this.eject.bind(this);
+
+    // 상태 직렬화/복원 함수 설정
+    this.store.dehydrate = this.dehydrate.bind(this);
+    this.store.hydrate = this.hydrate.bind(this);
+
+    // 트랜잭션 함수 설정
+    this.store.transaction = this.transaction.bind(this);
+
+    // 빌더에서 전달된 비동기 상태 복원
+    if (this.config.hydration?.asyncState) {
+      this.asyncActionManager.hydrateAsyncState(this.config.hydration.asyncState);
+    }
+
     // 네임스페이스 객체 생성
-    const computedNamespace = {} as ComputedState<TState, TComputed>;
-    const actionsNamespace = this.actionManager.createActionsApi();
-    const asyncActionsNamespace = this.asyncActionManager.createAsyncActionsApi();
+    this.actionsNamespace = this.guardActions(this.actionManager.createActionsApi());
+    this.asyncActionsNamespace = this.guardActions(this.asyncActionManager.createAsyncActionsApi());
 
     // 네임스페이스 속성 정의
     Object.defineProperties(this.store, {
       computed: {
-        get: () => computedNamespace,
+        get: () => this.computedNamespace,
         enumerable: true,
         configurable: false,
       },
       actions: {
-        get: () => actionsNamespace,
+        get: () => this.actionsNamespace,
         enumerable: true,
         configurable: false,
       },
       asyncActions: {
-        get: () => asyncActionsNamespace,
+        get: () => this.asyncActionsNamespace,
         enumerable: true,
         configurable: false,
       },
@@ -116,13 +231,512 @@ export class StoreCreator<
         enumerable: true,
         configurable: false,
       },
+      asyncCache: {
+        get: () => this.asyncActionManager.getAsyncCache(),
+        enumerable: true,
+        configurable: false,
+      },
     });
 
     // 상태 속성 추가
     this.addStateProperties();
 
     // 계산된 값 속성 추가
-    this.addComputedProperties(computedNamespace);
+    this.addComputedProperties(this.computedNamespace, this.config.computed);
+  }
+
+  /**
+   * 스토어 생성을 마치고 onInit 훅을 호출합니다. 빌더가 미들웨어, 인핸서, DevTools를 적용한 뒤 호출합니다.
+   * 이후에 등록된 구독부터 onFirstSubscribe, onLastUnsubscribe 판단에 포함됩니다.
+   */
+  private init(): void {
+    if (this.initialized) return;
+
+    this.initialized = true;
+    this.callLifecycleHook('onInit');
+  }
+
+  /**
+   * 스토어를 해제합니다.
+   * 진행 중인 비동기 작업과 타이머를 정리하고, 등록된 정리 함수(DevTools 연결 해제 등)를 실행한 뒤
+   * 모든 구독자를 제거하고 onDestroy 훅을 호출합니다. 해제된 뒤 액션을 호출하면 StoreDestroyedError를 던집니다.
+   */
+  private destroy(): void {
+    if (this.destroyed) return;
+
+    // 취소 결과가 미들웨어와 구독자에게 전달되도록 해제 표시 전에 비동기 작업을 정리
+    const reason = 'Store was destroyed';
+    this.asyncActionManager.destroy(reason);
+    this.destroyed = true;
+
+    fx(this.teardowns.reverse()).each((teardown) => {
+      try {
+        teardown();
+      } catch (error) {
+        console.error('[Store] Error in teardown:', error);
+      }
+    });
+    this.teardowns = [];
+
+    this.stateManager.destroy(reason);
+    this.subscriberCount = 0;
+
+    this.callLifecycleHook('onDestroy');
+  }
+
+  /**
+   * 계산된 값, 액션, 비동기 액션, 미들웨어를 런타임에 주입합니다. (코드 분할된 기능 모듈 등)
+   * 주입된 항목은 스토어의 네임스페이스에도 추가되며, 반환된 핸들로 타입이 지정된 API를 사용할 수 있습니다.
+   * 같은 이름으로 다시 주입하면 이전 주입을 해제한 뒤 주입합니다.
+   *
+   * @param config 주입 설정
+   * @returns 주입된 API와 eject()를 제공하는 핸들
+   * @throws {Error} 주입할 키가 스토어나 다른 주입에 이미 정의되어 있는 경우
+   */
+  private inject<
+    TInjectedComputed extends ComputedDef<TState>,
+    TInjectedActions extends ActionsDef<TState>,
+    TInjectedAsyncActions extends AsyncActionsDef<TState>,
+  >(
+    config: InjectConfig<TState, TInjectedComputed, TInjectedActions, TInjectedAsyncActions>,
+  ): InjectedHandle<TState, TInjectedComputed, TInjectedActions, TInjectedAsyncActions> {
+    const {
+      name,
+      computed = {} as TInjectedComputed,
+      actions = {} as TInjectedActions,
+      asyncActions = {} as TInjectedAsyncActions,
+      asyncActionOptions,
+      middleware = [],
+    } = config;
+
+    // 다시 주입하는 경우 이전 주입의 키는 충돌로 보지 않음
+    const previous = this.injections.get(name);
+    this.assertInjectable(name, 'computed', computed, this.computedNamespace, previous?.computedKeys);
+    this.assertInjectable(name, 'action', actions, this.actionsNamespace, previous?.actionKeys);
+    this.assertInjectable(
+      name,
+      'async action',
+      asyncActions,
+      this.asyncActionsNamespace,
+      previous?.asyncActionKeys,
+    );
+
+    if (previous) {
+      this.eject(name);
+    }
+
+    // 계산된 값 추가 (추가된 값의 의존성만 의존성 그래프에 반영)
+    this.stateManager.addComputed(computed);
+    const computedApi = {} as ComputedState<TState, TInjectedComputed>;
+    this.addComputedProperties(computedApi, computed);
+    this.addComputedProperties(this.computedNamespace, computed, true);
+
+    const actionsApi = this.guardActions(this.actionManager.createActionsApiFor(actions));
+    const asyncActionsApi = this.guardActions(
+      this.asyncActionManager.inject(asyncActions, asyncActionOptions),
+    );
+    Object.assign(this.actionsNamespace, actionsApi);
+    Object.assign(this.asyncActionsNamespace, asyncActionsApi);
+
+    const record: InjectionRecord = {
+      computedKeys: Object.keys(computed),
+      actionKeys: Object.keys(actionsApi),
+      asyncActionKeys: Object.keys(asyncActionsApi),
+      middleware: middleware.map((m: Middleware<TState>) => m(this.store)),
+    };
+
+    this.injections.set(name, record);
+    this.composeInjectedMiddleware();
+
+    const asyncActionManager = this.asyncActionManager;
+
+    return {
+      name,
+      computed: computedApi,
+      actions: actionsApi as unknown as ActionsApi<
+        TState,
+        TInjectedActions,
+        TInjectedComputed,
+        TInjectedAsyncActions
+      >,
+      asyncActions: asyncActionsApi as unknown as AsyncActionsApi<TState, TInjectedAsyncActions>,
+      get asyncState() {
+        const asyncState = asyncActionManager.getAsyncState() as Record<string, AsyncState>;
+        return fx(record.asyncActionKeys)
+          .filter((key) => Object.hasOwn(asyncState, key))
+          .reduce((acc, key) => {
+            acc[key] = asyncState[key] as AsyncState;
+            return acc;
+          }, {} as Record<string, AsyncState>) as { [K in keyof TInjectedAsyncActions]: AsyncState };
+      },
+      eject: () => this.injections.get(name) === record && this.eject(name),
+    };
+  }
+
+  /**
+   * 런타임에 주입된 항목을 해제합니다.
+   * 주입된 비동기 액션의 요청을 취소하고, 액션과 계산된 값을 네임스페이스에서 제거한 뒤
+   * 남은 주입의 미들웨어로 디스패치를 다시 구성합니다.
+   *
+   * @param name 주입 이름
+   * @returns 해제한 주입이 있었는지 여부
+   */
+  private eject(name: string): boolean {
+    const record = this.injections.get(name);
+    if (!record) return false;
+
+    // 취소 결과가 주입된 미들웨어에도 전달되도록 미들웨어는 마지막에 제거
+    this.asyncActionManager.eject(record.asyncActionKeys, `Injection "${name}" was ejected`);
+    this.injections.delete(name);
+
+    const actionsNamespace = this.actionsNamespace as Record<string, unknown>;
+    const asyncActionsNamespace = this.asyncActionsNamespace as Record<string, unknown>;
+    const computedNamespace = this.computedNamespace as Record<string, unknown>;
+
+    fx(record.asyncActionKeys).each((key) => delete asyncActionsNamespace[key]);
+    fx(record.actionKeys).each((key) => delete actionsNamespace[key]);
+
+    this.stateManager.removeComputed(record.computedKeys);
+    fx(record.computedKeys).each((key) => delete computedNamespace[key]);
+
+    this.composeInjectedMiddleware();
+    return true;
+  }
+
+  /**
+   * 주입할 키가 이미 정의되어 있으면 오류를 던집니다.
+   * @param name 주입 이름
+   * @param kind 항목 종류 (오류 메시지용)
+   * @param defs 주입할 정의 객체
+   * @param namespace 키를 확인할 네임스페이스
+   * @param replacedKeys 다시 주입으로 교체될 키 목록
+   */
+  private assertInjectable(
+    name: string,
+    kind: string,
+    defs: Record<string, unknown>,
+    namespace: object,
+    replacedKeys: string[] = [],
+  ): void {
+    const conflict = fx(Object.keys(defs)).find(
+      (key) => Object.hasOwn(namespace, key) && !replacedKeys.includes(key),
+    );
+
+    if (conflict !== undefined) {
+      throw new Error(`[Store] Cannot inject "${name}": ${kind} "${conflict}" is already defined`);
+    }
+  }
+
+  /**
+   * 주입된 미들웨어를 주입 순서대로 기본 디스패치에 합성합니다.
+   */
+  private composeInjectedMiddleware(): void {
+    const chain = Array.from(this.injections.values()).flatMap((record) => record.middleware);
+    this.injectedDispatch = chain.reduceRight(
+      (composed, middleware) => middleware(composed),
+      this.baseDispatch,
+    );
+  }
+
+  /**
+   * 해제된 스토어이면 StoreDestroyedError를 던집니다.
+   * @param actionType 호출된 액션 타입
+   */
+  private assertNotDestroyed(actionType: string): void {
+    if (this.destroyed) {
+      throw new StoreDestroyedError(actionType);
+    }
+  }
+
+  /**
+   * 액션 네임스페이스의 각 함수가 해제된 스토어에서 호출되면 오류를 던지도록 감쌉니다.
+   * 함수에 붙은 속성(cancel, invalidate 등)은 그대로 유지합니다.
+   * @param namespace 액션 네임스페이스
+   * @returns 감싼 액션 네임스페이스
+   */
+  private guardActions<TNamespace extends Record<string, any>>(namespace: TNamespace): TNamespace {
+    return fx(Object.keys(namespace)).reduce((acc, key) => {
+      const actionFn = namespace[key];
+      acc[key] = Object.assign((...args: unknown[]) => {
+        this.assertNotDestroyed(key);
+        return actionFn(...args);
+      }, actionFn);
+      return acc;
+    }, {} as Record<string, unknown>) as TNamespace;
+  }
+
+  /**
+   * 구독 함수를 감싸 구독자 수를 추적하고 onFirstSubscribe, onLastUnsubscribe 훅을 호출합니다.
+   * 스토어 생성 중(인핸서, 미들웨어)에 등록된 구독과 해제된 스토어의 구독은 세지 않습니다.
+   * @param subscribe 원본 구독 함수
+   * @returns 구독자 수를 추적하는 구독 함수
+   */
+  private trackSubscription<TArgs extends any[]>(
+    subscribe: (...args: TArgs) => () => void,
+  ): (...args: TArgs) => () => void {
+    return (...args: TArgs) => {
+      const unsubscribe = subscribe(...args);
+      if (!this.initialized || this.destroyed) return unsubscribe;
+
+      if (++this.subscriberCount === 1) {
+        this.callLifecycleHook('onFirstSubscribe');
+      }
+
+      let subscribed = true;
+
+      return () => {
+        if (!subscribed) return;
+        subscribed = false;
+        unsubscribe();
+
+        if (this.destroyed) return;
+
+        if (--this.subscriberCount === 0) {
+          this.callLifecycleHook('onLastUnsubscribe');
+        }
+      };
+    };
+  }
+
+  /**
+   * 생명주기 훅을 호출합니다. 훅에서 발생한 오류는 기록만 합니다.
+   * @param name 훅 이름
+   */
+  private callLifecycleHook(name: keyof StoreLifecycleHooks<unknown>): void {
+    try {
+      this.config.lifecycle?.[name]?.(this.store);
+    } catch (error) {
+      console.error(`[Store] Error in ${String(name)} hook:`, error);
+    }
+  }
+
+  /**
+   * 스토어 상태를 클라이언트로 전달 가능한 JSON 안전 페이로드로 직렬화합니다.
+   * @param options 직렬화 옵션
+   * @returns 직렬화된 상태 페이로드
+   */
+  private dehydrate(options: DehydrateOptions = {}): DehydratedState<TState> {
+    const { includeAsyncState = true } = options;
+
+    return {
+      state: toJSONSafe(this.stateManager.getState()) as Partial<TState>,
+      ...(includeAsyncState && { asyncState: this.asyncActionManager.dehydrateAsyncState() }),
+    };
+  }
+
+  /**
+   * 직렬화된 페이로드로 스토어 상태와 비동기 상태를 복원합니다.
+   * 초기 상태에 없는 키는 무시되며, 스키마가 설정된 경우 검증에 실패하면 상태를 복원하지 않고 SchemaValidationError를 던집니다.
+   * @param payload 직렬화된 상태 페이로드
+   */
+  private hydrate(payload: DehydratedState<TState>): void {
+    const state = this.pickKnownKeys(payload.state);
+    this.actionManager.validate(state, HYDRATE_ACTION_TYPE);
+    this.stateManager._setState(state);
+
+    if (payload.asyncState) {
+      this.asyncActionManager.hydrateAsyncState(payload.asyncState);
+    }
+  }
+
+  /**
+   * 액션 래퍼에서 호출하는 디스패치입니다.
+   * 트랜잭션 함수 안에서 호출된 액션은 미들웨어를 거치지 않고 바로 적용하며,
+   * 구독자 알림 대신 변경 경로와 변경된 최상위 키의 원래 값을 트랜잭션에 기록합니다.
+   * @param action 디스패치할 액션
+   * @returns 디스패치 결과
+   */
+  private dispatchAction(action: Action): unknown {
+    const scope = this.activeTransaction;
+    if (!scope) {
+      return this.store.dispatch(action);
+    }
+
+    const before = this.stateManager.getState();
+    this.stateManager.beginTransaction();
+
+    let result: unknown;
+    try {
+      result = this.baseDispatch(action);
+    } finally {
+      this.stateManager.endTransaction().forEach((path: string) => scope.changedPaths.add(path));
+    }
+
+    const after = this.stateManager.getState();
+    fx(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .filter((key) => before[key] !== after[key] || Object.hasOwn(before, key) !== Object.hasOwn(after, key))
+      .each((key) => {
+        if (!scope.originals.has(key)) {
+          scope.originals.set(key, Object.hasOwn(before, key) ? before[key] : deleteKey);
+        }
+        scope.lastWrites.set(key, Object.hasOwn(after, key) ? after[key] : deleteKey);
+      });
+
+    scope.actions.push(action);
+    return result;
+  }
+
+  /**
+   * 함수를 트랜잭션 안에서 동기적으로 실행합니다.
+   * @param scope 실행할 트랜잭션
+   * @param fn 실행할 함수
+   * @returns 함수의 반환값
+   */
+  private runInTransaction<T>(scope: TransactionScope, fn: () => T): T {
+    if (scope.finished) {
+      throw new Error('[StoreCreator] Cannot run in a transaction that has already finished');
+    }
+
+    const previous = this.activeTransaction;
+    this.activeTransaction = scope;
+
+    try {
+      return fn();
+    } finally {
+      this.activeTransaction = previous;
+    }
+  }
+
+  /**
+   * 여러 상태 변경을 하나의 원자적 단위로 실행합니다.
+   * 함수 안에서 호출한 액션은 즉시 적용되지만 구독자 알림은 끝날 때 병합된 변경 경로로 한 번만 보내며,
+   * 미들웨어와 DevTools에는 내부 액션 목록(meta.actions)을 담은 하나의 액션으로 전달됩니다.
+   * 함수가 예외를 던지거나 거부된 Promise를 반환하면 트랜잭션이 변경한 키만 시작 시점의 값으로 되돌리고 구독자에게 알립니다.
+   * 이때 트랜잭션 밖에서 이후에 다시 변경된 키는 되돌리지 않습니다.
+   * 트랜잭션 안에서 다시 호출하면 바깥 트랜잭션에 합쳐집니다.
+   *
+   * 비동기 함수는 첫 await 전까지만 트랜잭션 안에서 실행됩니다.
+   * await 이후의 액션은 tx.run()으로 감싸야 트랜잭션에 포함되며, 감싸지 않은 액션과 다른 곳의 상태 변경은 바로 알림을 보냅니다.
+   *
+   * @param fn 트랜잭션으로 실행할 함수
+   * @param options 트랜잭션 옵션
+   * @returns 함수의 반환값 (Promise인 경우 커밋 후 이행되는 Promise)
+   *
+   * @example
+   * await store.transaction(async (tx) => {
+   *   store.actions.startSaving();
+   *   const saved = await api.save(store.getState().draft);
+   *   tx.run(() => store.actions.finishSaving(saved));
+   * });
+   */
+  private transaction<R>(fn: (tx: TransactionHandle) => R, options: TransactionOptions = {}): R {
+    const { name = TRANSACTION_ACTION_TYPE } = options;
+    const scope: TransactionScope = this.activeTransaction ?? {
+      actions: [],
+      changedPaths: new Set(),
+      originals: new Map(),
+      lastWrites: new Map(),
+      finished: false,
+    };
+    const handle: TransactionHandle = {
+      run: <T>(runFn: () => T): T => this.runInTransaction(scope, runFn),
+    };
+
+    // 중첩된 트랜잭션은 바깥 트랜잭션에 합쳐짐
+    if (scope === this.activeTransaction) {
+      return fn(handle);
+    }
+
+    // 트랜잭션이 변경한 키를 시작 시점의 값으로 조용히 되돌림
+    const restoreOriginals = () => {
+      if (scope.originals.size > 0) {
+        this.stateManager._setState(Object.fromEntries(scope.originals) as Partial<TState>, { silent: true });
+      }
+    };
+
+    const commit = () => {
+      scope.finished = true;
+      const state = this.stateManager.getState();
+      const payload = fx(scope.originals.keys()).reduce((acc, key) => {
+        acc[key] = Object.hasOwn(state, key) ? state[key] : deleteKey;
+        return acc;
+      }, {} as Record<string, unknown>);
+
+      if (fx(scope.originals).every(([key, value]) => payload[key] === value)) {
+        return;
+      }
+
+      // 변경된 키만 시작 시점 값으로 조용히 되돌린 뒤 하나의 액션으로 다시 적용하여
+      // 미들웨어와 DevTools가 트랜잭션 전후 상태를 단일 항목으로 볼 수 있게 함
+      // (dynamicKeys 모드에서 추가/제거된 키도 함께 되돌리고 다시 적용)
+      restoreOriginals();
+      this.store.dispatch({
+        type: name,
+        payload,
+        meta: {
+          isStateUpdate: true,
+          transaction: true,
+          actions: scope.actions,
+          changedPaths: Array.from(scope.changedPaths),
+        },
+      });
+    };
+
+    // 트랜잭션이 마지막으로 기록한 값이 그대로 남아 있는 키만 되돌리고 누적된 변경 경로로 알림
+    // (비동기 트랜잭션 도중 다른 곳에서 같은 키를 변경했다면 그 값을 유지)
+    // 되돌리는 값은 이미 검증을 거쳐 커밋되었던 값이므로 스키마 검증을 다시 하지 않음
+    const rollback = () => {
+      scope.finished = true;
+      const state = this.stateManager.getState();
+      const restored = fx(scope.originals)
+        .filter(([key]) => (Object.hasOwn(state, key) ? state[key] : deleteKey) === scope.lastWrites.get(key))
+        .reduce((acc, [key, value]) => {
+          acc[key] = value;
+          return acc;
+        }, {} as Record<string, unknown>);
+
+      if (Object.keys(restored).length > 0) {
+        this.stateManager._setState(restored as Partial<TState>, {
+          changedPaths: Array.from(scope.changedPaths),
+        });
+      }
+    };
+
+    let result: R;
+
+    try {
+      result = this.runInTransaction(scope, () => fn(handle));
+    } catch (error) {
+      rollback();
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        (value) => {
+          commit();
+          return value;
+        },
+        (error) => {
+          rollback();
+          throw error;
+        },
+      ) as R;
+    }
+
+    commit();
+    return result;
+  }
+
+  /**
+   * 초기 상태에 정의된 키만 남깁니다. dynamicKeys 모드에서는 모든 키를 그대로 둡니다.
+   * @param state 필터링할 상태
+   * @param initialState 기준이 되는 초기 상태
+   * @param dynamicKeys dynamicKeys 모드 여부
+   */
+  private pickKnownKeys(
+    state: Partial<TState>,
+    initialState: TState = this.config.initialState,
+    dynamicKeys = this.config.dynamicKeys,
+  ): Partial<TState> {
+    if (dynamicKeys) return { ...state };
+
+    return fx(Object.keys(state))
+      .filter((key) => Object.hasOwn(initialState, key))
+      .reduce((acc, key) => {
+        acc[key] = state[key];
+        return acc;
+      }, {} as Record<string, unknown>) as Partial<TState>;
   }
 
   /**
@@ -145,18 +759,24 @@ export class StoreCreator<
 
   /**
    * 계산된 속성을 계산된 네임스페이스에 추가합니다.
+   * @param computedNamespace 속성을 추가할 네임스페이스
+   * @param computed 계산된 속성 정의 객체
+   * @param configurable 속성을 나중에 제거할 수 있는지 여부 (런타임 주입)
    */
-  private addComputedProperties(computedNamespace: ComputedState<TState, TComputed>): void {
-    const computed = this.config.computed;
+  private addComputedProperties(
+    computedNamespace: object,
+    computed: ComputedDef<TState> | undefined,
+    configurable = false,
+  ): void {
     if (!computed) return;
 
     const descriptors = fx(Object.keys(computed))
-      .filter((key) => Object.prototype.hasOwnProperty.call(this.config.computed, key))
+      .filter((key) => Object.prototype.hasOwnProperty.call(computed, key))
       .reduce((acc, key) => {
         acc[key] = {
           get: () => this.stateManager.getComputedValue(key),
           enumerable: true,
-          configurable: false,
+          configurable,
         };
         return acc;
       }, {} as PropertyDescriptorMap);
@@ -172,6 +792,12 @@ export class StoreCreator<
   ): StoreConfig<TState, TComputed, TActions, TAsyncActions> {
     return {
       ...config,
+      initialState: config.hydration
+        ? {
+            ...config.initialState,
+            ...this.pickKnownKeys(config.hydration.state, config.initialState, config.dynamicKeys ?? false),
+          }
+        : config.initialState,
       computed: config.computed || ({} as TComputed),
       actions: config.actions || ({} as TActions),
       asyncActions: config.asyncActions || ({} as TAsyncActions),
@@ -0,0 +1,205 @@
+import { FamilyStore, StoreFamilyFactory, StoreFamilyOptions } from '../types/internal/family.ts';
+import { LRUCache } from '../../utils/lruCache';
+
+/**
+ * 스토어 패밀리 인스턴스 항목
+ */
+interface FamilyEntry<TKey, TStore> {
+  key: TKey;
+  store: TStore;
+  refCount: number;
+}
+
+// 참조가 없는 인스턴스의 기본 최대 보관 개수
+const DEFAULT_MAX_IDLE = 10;
+
+/**
+ * 스토어 패밀리 - 키별 스토어 인스턴스를 생성하고 참조 수에 따라 보관하거나 제거합니다.
+ * 참조(retain)가 있는 인스턴스는 제거되지 않으며, 참조가 모두 해제되면 LRU 캐시로 옮겨져
+ * maxIdle과 idleTime에 따라 자동으로 제거됩니다.
+ * @template TKey 인스턴스 키 타입
+ * @template TStore 스토어 인스턴스 타입
+ */
+export class StoreFamily<TKey, TStore extends FamilyStore> {
+  private readonly factory: StoreFamilyFactory<TKey, TStore>;
+  private readonly options: StoreFamilyOptions<TKey, TStore>;
+
+  // 참조 중인 인스턴스 (식별 문자열 -> 항목)
+  private readonly retained = new Map<string, FamilyEntry<TKey, TStore>>();
+
+  // 참조가 없는 인스턴스 (용량 초과나 만료로 제거되면 dispose 호출)
+  private readonly idle: LRUCache<string, FamilyEntry<TKey, TStore>>;
+
+  constructor(factory: StoreFamilyFactory<TKey, TStore>, options: StoreFamilyOptions<TKey, TStore> = {}) {
+    this.factory = factory;
+    this.options = options;
+    this.idle = new LRUCache(options.maxIdle ?? DEFAULT_MAX_IDLE, options.idleTime, (_id, entry) =>
+      this.dispose(entry),
+    );
+  }
+
+  /**
+   * 키에 해당하는 인스턴스를 반환합니다. 없으면 생성합니다.
+   * 참조 수는 늘리지 않으므로, 참조가 없는 인스턴스는 구독자가 있어도 maxIdle이나 idleTime에 따라 제거(destroy)될 수 있습니다.
+   * 계속 사용할 인스턴스는 retain으로 참조하는 동안에만 사용해야 합니다.
+   * @param key 인스턴스 키
+   * @returns 스토어 인스턴스
+   */
+  get(key: TKey): TStore {
+    this.idle.purgeExpired();
+
+    const id = this.hashKey(key);
+    const entry = this.retained.get(id) ?? this.idle.get(id);
+    if (entry) return entry.store;
+
+    const created: FamilyEntry<TKey, TStore> = { key, store: this.create(key), refCount: 0 };
+    this.idle.set(id, created);
+
+    return created.store;
+  }
+
+  /**
+   * 인스턴스의 참조 수를 늘려 제거되지 않게 합니다. 없으면 생성합니다.
+   * @param key 인스턴스 키
+   * @returns 참조 해제 함수 (여러 번 호출해도 한 번만 해제)
+   *
+   * @example
+   * useEffect(() => roomStores.retain(roomId), [roomId]);
+   */
+  retain(key: TKey): () => void {
+    const id = this.hashKey(key);
+    const store = this.get(key);
+
+    let entry = this.retained.get(id);
+    if (!entry) {
+      this.idle.delete(id);
+      entry = { key, store, refCount: 0 };
+      this.retained.set(id, entry);
+    }
+
+    entry.refCount++;
+
+    const retainedEntry = entry;
+    let released = false;
+
+    return () => {
+      if (released) return;
+      released = true;
+      this.release(id, retainedEntry);
+    };
+  }
+
+  /**
+   * 키에 해당하는 인스턴스가 있는지 확인합니다.
+   * @param key 인스턴스 키
+   */
+  has(key: TKey): boolean {
+    const id = this.hashKey(key);
+    return this.retained.has(id) || this.idle.has(id);
+  }
+
+  /**
+   * 인스턴스의 현재 참조 수를 반환합니다. (인스턴스가 없으면 0)
+   * @param key 인스턴스 키
+   */
+  getRefCount(key: TKey): number {
+    return this.retained.get(this.hashKey(key))?.refCount ?? 0;
+  }
+
+  /**
+   * 현재 보관 중인 인스턴스의 키 목록을 반환합니다.
+   */
+  keys(): TKey[] {
+    return [
+      ...Array.from(this.retained.values()).map((entry) => entry.key),
+      ...this.idle.values().map((entry) => entry.key),
+    ];
+  }
+
+  /**
+   * 보관 중인 인스턴스 수
+   */
+  get size(): number {
+    return this.retained.size + this.idle.size;
+  }
+
+  /**
+   * 참조 수와 관계없이 인스턴스를 제거합니다.
+   * @param key 인스턴스 키
+   * @returns 제거한 인스턴스가 있었는지 여부
+   */
+  evict(key: TKey): boolean {
+    const id = this.hashKey(key);
+    const entry = this.retained.get(id) ?? this.idle.get(id);
+    if (!entry) return false;
+
+    this.retained.delete(id);
+    this.idle.delete(id);
+    this.dispose(entry);
+
+    return true;
+  }
+
+  /**
+   * 모든 인스턴스를 제거합니다.
+   */
+  clear(): void {
+    const entries = [...Array.from(this.retained.values()), ...this.idle.values()];
+
+    this.retained.clear();
+    this.idle.clear();
+    entries.forEach((entry) => this.dispose(entry));
+  }
+
+  /**
+   * 참조를 해제합니다. 마지막 참조가 해제되면 인스턴스를 LRU 캐시로 옮깁니다.
+   * @param id 인스턴스 식별 문자열
+   * @param entry 참조한 항목 (그 사이 제거되어 다시 생성된 항목에는 영향을 주지 않음)
+   */
+  private release(id: string, entry: FamilyEntry<TKey, TStore>): void {
+    if (this.retained.get(id) !== entry) return;
+
+    entry.refCount--;
+    if (entry.refCount > 0) return;
+
+    this.retained.delete(id);
+    this.idle.set(id, entry);
+  }
+
+  /**
+   * 키로 새 인스턴스를 생성합니다.
+   * @param key 인스턴스 키
+   */
+  private create(key: TKey): TStore {
+    const result = this.factory(key);
+    return 'build' in result && typeof result.build === 'function' ? result.build() : (result as TStore);
+  }
+
+  /**
+   * 제거되는 인스턴스를 정리합니다.
+   * onEvict를 호출한 뒤 스토어를 해제합니다. (비동기 작업 취소, 구독자 제거)
+   * @param entry 제거되는 항목
+   */
+  private dispose(entry: FamilyEntry<TKey, TStore>): void {
+    const { key, store } = entry;
+
+    try {
+      this.options.onEvict?.(store, key);
+    } catch (error) {
+      console.error('[StoreFamily] Error in onEvict:', error);
+    }
+
+    store.destroy();
+  }
+
+  /**
+   * 키를 인스턴스 식별 문자열로 변환합니다.
+   * @param key 인스턴스 키
+   */
+  private hashKey(key: TKey): string {
+    if (this.options.hashKey) return this.options.hashKey(key);
+
+    // 문자열 키도 JSON 문자열로 변환하여 '1'과 1처럼 타입이 다른 키가 같은 인스턴스를 가리키지 않게 함
+    return JSON.stringify(key);
+  }
+}
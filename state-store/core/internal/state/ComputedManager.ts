@@ -1,8 +1,28 @@
 import { ComputedDef } from '../../types/public-types';
+import { AsyncComputedValue } from '../../types/internal/state.ts';
 import { IComputedManager } from './interfaces';
+import { ASYNC_COMPUTED, isAsyncComputed } from '../../asyncComputed';
+import { isParameterized, PARAMETERIZED } from '../../parameterized';
+import { CancelledError } from '../../errors.ts';
 import { deepEqual } from '../../../utils/compare';
+import { LRUCache } from '../../../utils/lruCache';
 import { entries, fx, memoize } from '@fxts/core';
-import { isDevelopment } from '../../../utils/env';
+import { calculateCacheSizeByDevice, isDevelopment } from '../../../utils/env';
+
+/**
+ * 인자를 받는 계산된 값의 인자별 캐시 항목
+ */
+interface ParameterizedEntry {
+  value: unknown;
+  dependencies: Set<string>; // 이 인자로 계산할 때 읽은 상태 경로
+}
+
+// 인자를 받는 계산된 값마다 보관할 인자 조합 수
+const PARAMETERIZED_CACHE_SIZE = calculateCacheSizeByDevice({
+  defaultSize: 100,
+  lowEndSize: 50,
+  highEndSize: 200,
+});
 
 /**
  * 계산된 값 관리자 - 계산된 값의 캐싱 및 의존성 관리를 담당합니다.
@@ -12,7 +32,7 @@ import { isDevelopment } from '../../../utils/env';
 export class ComputedManager<TState extends Record<string, any>, TComputed extends ComputedDef<TState>>
   implements IComputedManager<TState, TComputed>
 {
-  private readonly computed?: TComputed;
+  private readonly computed: TComputed;
   private computedCache: Map<keyof TComputed, any> = new Map();
   private memoizedComputedFns = new Map<keyof TComputed, any>();
   private computedDependencies: Map<keyof TComputed, Set<string>> = new Map();
@@ -29,6 +49,18 @@ export class ComputedManager<TState extends Record<string, any>, TComputed exten
   // 역방향 의존성 맵: 상태 키 -> 해당 키에 의존하는 계산된 값 키 집합
   private stateKeyToComputedMap: Map<string, Set<keyof TComputed>> | null = null;
 
+  // 인자를 받는 계산된 값의 인자별 캐시 (인자 배열의 JSON 문자열 -> 캐시 항목)
+  private parameterizedCaches: Map<keyof TComputed, LRUCache<string, ParameterizedEntry>> = new Map();
+
+  // 인자를 받는 계산된 값을 지연 계산할 때 사용하는 최신 상태
+  private currentState: TState;
+
+  // 비동기 계산된 값별 진행 중(또는 마지막) 계산의 중단 컨트롤러
+  private asyncControllers: Map<keyof TComputed, AbortController> = new Map();
+
+  // 비동기 계산된 값이 완료되어 값이 바뀌었을 때 호출되는 함수
+  private readonly onAsyncSettled?: (key: keyof TComputed) => void;
+
   // 의존성 추적자 참조
   private readonly getTrackingProxy: (
     target: any,
@@ -41,9 +73,13 @@ export class ComputedManager<TState extends Record<string, any>, TComputed exten
     initialState: TState,
     computed: TComputed | undefined,
     getTrackingProxy: (target: any, dependencies: Set<string>, path?: string, depth?: number) => any,
+    onAsyncSettled?: (key: keyof TComputed) => void,
   ) {
-    this.computed = computed;
+    // 런타임 주입으로 키가 추가되거나 제거되므로 정의 객체를 복사하여 보관
+    this.computed = { ...computed } as TComputed;
     this.getTrackingProxy = getTrackingProxy;
+    this.onAsyncSettled = onAsyncSettled;
+    this.currentState = initialState;
 
     if (computed) {
       this.initializeComputedValues(initialState);
@@ -64,12 +100,256 @@ export class ComputedManager<TState extends Record<string, any>, TComputed exten
    * @private
    */
   private initializeComputedValues(state: TState): void {
-    this.computed &&
-      fx(entries(this.computed)).each(([key, computedFn]) => {
-        const memoizedFn = memoize(computedFn);
-        this.memoizedComputedFns.set(key, memoizedFn);
-        this.computedCache.set(key, memoizedFn(Object.freeze({ ...state })));
+    fx(entries(this.computed)).each(([key, computedFn]) =>
+      this.initializeComputedValue(key, computedFn, state),
+    );
+  }
+
+  /**
+   * 계산된 값 하나의 초기 값을 설정합니다.
+   * @param key 계산된 값의 키
+   * @param computedFn 계산 함수
+   * @param state 계산에 사용할 상태
+   */
+  private initializeComputedValue(
+    key: keyof TComputed,
+    computedFn: ComputedDef<TState>[string],
+    state: TState,
+  ): void {
+    // 인자를 받는 계산된 값은 읽을 때 인자별로 계산
+    if (isParameterized<TState, unknown[], unknown>(computedFn)) {
+      this.parameterizedCaches.set(key, new LRUCache(PARAMETERIZED_CACHE_SIZE));
+      this.computedCache.set(key, this.createParameterizedAccessor(key));
+      return;
+    }
+
+    // 비동기 계산된 값은 첫 계산이 끝나 읽은 상태를 알 때까지 모든 상태 변경에 의존
+    if (isAsyncComputed<TState, unknown>(computedFn)) {
+      const { initialValue } = computedFn[ASYNC_COMPUTED].options;
+      this.computedCache.set(key, { status: 'pending', value: initialValue, error: null });
+      this.computedDependencies.set(key, new Set(['*']));
+      this.startAsyncComputation(key, state);
+      return;
+    }
+
+    const memoizedFn = memoize(computedFn);
+    this.memoizedComputedFns.set(key, memoizedFn);
+    this.computedCache.set(key, memoizedFn(Object.freeze({ ...state })));
+  }
+
+  /**
+   * 계산된 값을 추가합니다. (런타임 주입)
+   * 추가된 값의 의존성만 추적하고, 기존 값의 의존성은 그대로 둔 채 계산 순서만 다시 정합니다.
+   * @param computedDefs 추가할 계산된 속성 정의 객체
+   * @param state 현재 상태
+   */
+  addComputed(computedDefs: ComputedDef<TState>, state: TState): void {
+    const addedKeys = Object.keys(computedDefs) as Array<keyof TComputed>;
+    this.currentState = state;
+
+    fx(addedKeys).each((key) => {
+      const computedFn = computedDefs[key as string];
+      this.computed[key] = computedFn as TComputed[keyof TComputed];
+      this.initializeComputedValue(key, computedFn, state);
+    });
+
+    this.extendDependencyGraph(addedKeys);
+  }
+
+  /**
+   * 계산된 값을 제거합니다. (런타임 주입 해제)
+   * 진행 중인 비동기 계산은 중단하고, 의존성 그래프와 역방향 맵에서 해당 키만 제거합니다.
+   * @param keys 제거할 계산된 값의 키 목록
+   */
+  removeComputed(keys: Array<keyof TComputed>): void {
+    const removedKeys = new Set(keys);
+
+    fx(removedKeys).each((key) => {
+      this.asyncControllers.get(key)?.abort(new CancelledError(`Computed "${String(key)}" was removed`));
+      this.asyncControllers.delete(key);
+      this.parameterizedCaches.delete(key);
+      this.memoizedComputedFns.delete(key);
+      this.computedCache.delete(key);
+      this.computedDependencies.delete(key);
+      this.computedDependencyGraph.delete(key);
+      delete this.computed[key];
+    });
+
+    fx(this.computedDependencyGraph.values()).each((dependents) =>
+      fx(removedKeys).each((key) => dependents.delete(key)),
+    );
+
+    this.stateKeyToComputedMap?.forEach((computedKeys, stateKey) => {
+      fx(removedKeys).each((key) => computedKeys.delete(key));
+      if (computedKeys.size === 0) {
+        this.stateKeyToComputedMap?.delete(stateKey);
+      }
+    });
+
+    this.allComputedKeysInOrder = this.allComputedKeysInOrder?.filter((key) => !removedKeys.has(key)) ?? null;
+  }
+
+  /**
+   * 추가된 계산된 값을 의존성 그래프에 반영합니다.
+   * 그래프가 아직 구축되지 않았거나 다시 구축해야 하면 다음 업데이트에서 전체를 구축합니다.
+   * @param addedKeys 추가된 계산된 값의 키 목록
+   */
+  private extendDependencyGraph(addedKeys: Array<keyof TComputed>): void {
+    if (this.isDependencyGraphDirty) return;
+
+    this.buildComputedDependencyGraph(addedKeys);
+    this.allComputedKeysInOrder = this.topologicalSort(Object.keys(this.computed));
+
+    // 역방향 맵이 있으면 추가된 값의 의존성만 색인
+    const stateKeyToComputedMap = this.stateKeyToComputedMap;
+    if (!stateKeyToComputedMap) return;
+
+    fx(addedKeys).each((computedKey) => {
+      fx(this.computedDependencies.get(computedKey) ?? []).each((stateKey) => {
+        if (!stateKeyToComputedMap.has(stateKey)) {
+          stateKeyToComputedMap.set(stateKey, new Set());
+        }
+        stateKeyToComputedMap.get(stateKey)?.add(computedKey);
       });
+    });
+  }
+
+  /**
+   * 인자를 받는 계산된 값의 조회 함수를 생성합니다.
+   * 인자 조합별로 결과를 캐시하며, 의존하는 상태가 바뀌어 항목이 무효화되면 새 조회 함수로 교체되므로
+   * 조회 함수의 참조 변화로 다시 읽어야 하는지 알 수 있습니다.
+   * @param key 계산된 값의 키
+   */
+  private createParameterizedAccessor(key: keyof TComputed): (...args: unknown[]) => unknown {
+    return (...args: unknown[]) => {
+      const cache = this.parameterizedCaches.get(key);
+      const computedFn = this.computed?.[key];
+      if (!cache || !isParameterized<TState, unknown[], unknown>(computedFn)) return undefined;
+
+      const argsKey = JSON.stringify(args);
+      const cached = cache.get(argsKey);
+      if (cached) return cached.value;
+
+      // 인자별로 읽은 상태 경로를 추적하여 무효화에 사용
+      const dependencies = new Set<string>();
+      const trackingProxy = this.getTrackingProxy(Object.freeze({ ...this.currentState }), dependencies);
+      const value = computedFn[PARAMETERIZED](trackingProxy, ...args);
+
+      if (dependencies.size === 0) {
+        dependencies.add('*');
+      }
+
+      cache.set(argsKey, { value, dependencies });
+      return value;
+    };
+  }
+
+  /**
+   * 비동기 계산을 시작합니다.
+   * 진행 중인 이전 계산은 중단하고, 완료될 때까지 마지막 값을 유지한 채 pending 상태로 둡니다.
+   * @param key 계산된 값의 키
+   * @param state 계산에 사용할 상태
+   */
+  private startAsyncComputation(key: keyof TComputed, state: TState): void {
+    const computedFn = this.computed?.[key];
+    if (!isAsyncComputed<TState, unknown>(computedFn)) return;
+
+    const previous = this.computedCache.get(key) as AsyncComputedValue;
+    if (previous.status === 'pending') {
+      this.asyncControllers
+        .get(key)
+        ?.abort(new CancelledError(`Async computed "${String(key)}" was superseded by a newer computation`));
+    }
+
+    const controller = new AbortController();
+    this.asyncControllers.set(key, controller);
+
+    this.computedCache.set(key, { status: 'pending', value: previous.value, error: null });
+
+    // 비동기 구간 이후에 읽은 상태 경로도 같은 집합에 기록됨
+    const dependencies = new Set<string>();
+    const trackingProxy = this.getTrackingProxy(Object.freeze({ ...state }), dependencies);
+
+    new Promise((resolve) =>
+      resolve(computedFn[ASYNC_COMPUTED].compute(trackingProxy, controller.signal)),
+    ).then(
+      (value) =>
+        this.settleAsyncComputation(key, controller, dependencies, { status: 'success', value, error: null }),
+      (error) =>
+        this.settleAsyncComputation(key, controller, dependencies, {
+          status: 'error',
+          value: (this.computedCache.get(key) as AsyncComputedValue).value,
+          error: error instanceof Error ? error : new Error(String(error)),
+        }),
+    );
+  }
+
+  /**
+   * 비동기 계산 결과를 반영합니다.
+   * 더 새로운 계산이 시작되어 중단된 계산의 결과는 버립니다.
+   * @param key 계산된 값의 키
+   * @param controller 완료된 계산의 중단 컨트롤러
+   * @param dependencies 계산 중 읽은 상태 경로
+   * @param result 반영할 비동기 계산된 값 상태
+   */
+  private settleAsyncComputation(
+    key: keyof TComputed,
+    controller: AbortController,
+    dependencies: Set<string>,
+    result: AsyncComputedValue,
+  ): void {
+    if (controller.signal.aborted || this.asyncControllers.get(key) !== controller) return;
+
+    if (dependencies.size === 0) {
+      dependencies.add('*');
+    }
+
+    // 실제로 읽은 상태 경로로 의존성을 교체하고 역방향 맵은 다음 업데이트 때 다시 구축
+    this.computedDependencies.set(key, dependencies);
+    this.stateKeyToComputedMap = null;
+
+    this.computedCache.set(key, result);
+    this.onAsyncSettled?.(key);
+  }
+
+  /**
+   * 진행 중인 모든 비동기 계산을 중단합니다. 중단된 계산의 결과는 반영되지 않습니다.
+   * @param reason 중단 사유
+   */
+  cancelAsyncComputations(reason?: unknown): void {
+    fx(this.asyncControllers.values())
+      .filter((controller) => !controller.signal.aborted)
+      .each((controller) => controller.abort(new CancelledError(reason)));
+  }
+
+  /**
+   * 의존성 중 변경된 상태 키에 해당하는 것이 있는지 확인합니다.
+   * @param dependencies 상태 경로 의존성
+   * @param changedStateKeys 변경된 상태 키 집합
+   */
+  private hasChangedDependency(dependencies: Iterable<string>, changedStateKeys: Set<string>): boolean {
+    return fx(dependencies).some((dependency) => {
+      const rootKey = dependency.split(/[.[]/)[0] ?? dependency;
+      return dependency === '*' || changedStateKeys.has('*') || changedStateKeys.has(rootKey);
+    });
+  }
+
+  /**
+   * 변경된 상태 키에 의존하는 인자별 캐시 항목을 무효화합니다.
+   * @param changedStateKeys 변경된 상태 키 집합
+   */
+  private invalidateParameterizedValues(changedStateKeys: Set<string>): void {
+    for (const [key, cache] of this.parameterizedCaches) {
+      const staleArgsKeys = fx(cache.entries())
+        .filter(([, entry]) => this.hasChangedDependency(entry.dependencies, changedStateKeys))
+        .map(([argsKey]) => argsKey)
+        .toArray();
+
+      if (staleArgsKeys.length === 0) continue;
+
+      fx(staleArgsKeys).each((argsKey) => cache.delete(argsKey));
+      this.computedCache.set(key, this.createParameterizedAccessor(key));
+    }
   }
 
   /**
@@ -84,13 +364,16 @@ export class ComputedManager<TState extends Record<string, any>, TComputed exten
 
   /**
    * 계산된 값 간의 의존성 그래프를 구축합니다.
+   * @param keys 의존성을 추적할 계산된 값의 키 목록 (생략 시 전체)
    * @private
    */
-  private buildComputedDependencyGraph(): void {
+  private buildComputedDependencyGraph(keys?: Array<keyof TComputed>): void {
     const computed = this.computed;
 
     computed &&
       fx(entries(this.computed))
+        .filter(([key]) => !keys || keys.includes(key))
+        .filter(([key]) => !this.parameterizedCaches.has(key) && !this.asyncControllers.has(key))
         .filter(([key, computedFn]) => Object.hasOwn(computed, key) && computedFn)
         .each(([key, computedFn]) => {
           // 가상의 상태로 계산된 값 함수 실행하고 의존성 추적
@@ -265,6 +548,9 @@ export class ComputedManager<TState extends Record<string, any>, TComputed exten
     if (!this.computed) return;
     if (changedStateKeys.size === 0) return;
 
+    this.currentState = currentState;
+    this.invalidateParameterizedValues(changedStateKeys);
+
     const startTime = performance.now();
 
     // 의존성 그래프 구축 및 토폴로지 정렬 최소화
@@ -409,7 +695,16 @@ export class ComputedManager<TState extends Record<string, any>, TComputed exten
       if (processedKeys.has(key)) continue;
 
       const computedFn = this.computed[key];
-      if (!computedFn) continue;
+      if (!computedFn || this.parameterizedCaches.has(key)) continue;
+
+      // 비동기 계산된 값은 실제로 읽은 상태가 바뀐 경우에만 다시 계산 (결과는 완료 시 반영)
+      if (this.asyncControllers.has(key)) {
+        if (this.hasChangedDependency(this.computedDependencies.get(key) ?? ['*'], changedStateKeys)) {
+          this.startAsyncComputation(key, currentState);
+        }
+        processedKeys.add(key);
+        continue;
+      }
 
       const memoizedFn = this.memoizedComputedFns.get(key) || memoize(computedFn);
 
@@ -497,6 +792,15 @@ export class ComputedManager<TState extends Record<string, any>, TComputed exten
     return {
       count: this.computedCache.size,
       keys: Array.from(this.computedCache.keys()).map(String),
+      parameterized: Object.fromEntries(
+        Array.from(this.parameterizedCaches.entries()).map(([key, cache]) => [String(key), cache.size]),
+      ),
+      async: Object.fromEntries(
+        Array.from(this.asyncControllers.keys()).map((key) => [
+          String(key),
+          (this.computedCache.get(key) as AsyncComputedValue).status,
+        ]),
+      ),
       dependencyGraph: Object.fromEntries(
         Array.from(this.computedDependencies.entries()).map(([key, deps]) => [String(key), Array.from(deps)]),
       ),
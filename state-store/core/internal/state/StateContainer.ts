@@ -1,5 +1,6 @@
-import { IStateContainer, UpdateOptions } from './interfaces';
+import { IStateContainer, StateContainerOptions, UpdateOptions } from './interfaces';
 import { detectStructuralChanges } from '../../../utils/compare';
+import { deleteKey } from '../../deleteKey.ts';
 import { fx } from '@fxts/core';
 
 /**
@@ -8,9 +9,11 @@ import { fx } from '@fxts/core';
  */
 export class StateContainer<TState extends Record<string, any>> implements IStateContainer<TState> {
   protected state: TState;
+  private readonly dynamicKeys: boolean;
 
-  constructor(initialState: TState) {
+  constructor(initialState: TState, options: StateContainerOptions = {}) {
     this.state = { ...initialState };
+    this.dynamicKeys = options.dynamicKeys ?? false;
   }
 
   /**
@@ -22,6 +25,7 @@ export class StateContainer<TState extends Record<string, any>> implements IStat
 
   /**
    * 상태를 업데이트합니다.
+   * 초기 상태에 없는 키와 deleteKey 값은 dynamicKeys 옵션을 켠 경우에만 적용합니다.
    * @param newState 새 상태 객체 (부분 상태 또는 전체 상태)
    * @param options 업데이트 옵션
    * @returns 변경된 키와 경로 정보
@@ -35,6 +39,11 @@ export class StateContainer<TState extends Record<string, any>> implements IStat
       return { changedKeys: new Set(), changedPaths: new Set(), hasStructuralChange: false };
     }
 
+    // 변경 경로가 이미 계산된 경우 구조 비교 없이 적용
+    if (options.changedPaths) {
+      return this.applyKnownChanges(newState, options.changedPaths);
+    }
+
     const changedKeys = new Set<string>();
     const changedPaths = new Set<string>();
     const nextState = { ...this.state };
@@ -43,7 +52,7 @@ export class StateContainer<TState extends Record<string, any>> implements IStat
 
     // 변경된 키 및 경로 감지
     fx(updatedKeys)
-      .filter((key) => key in nextState)
+      .filter((key) => this.canApply(key, newState[key as keyof Partial<TState>]))
       .each((key) => {
         const currentValue = this.state[key];
         const newValue = newState[key as keyof Partial<TState>];
@@ -51,6 +60,28 @@ export class StateContainer<TState extends Record<string, any>> implements IStat
         // 참조 동일성 검사로 빠른 경로 제공
         if (currentValue === newValue) return;
 
+        // 키 제거 - 상태 구조 변경 (제거된 값의 중첩 경로 구독자에게도 알림)
+        if (newValue === deleteKey) {
+          delete (nextState as Record<string, any>)[key];
+          changedKeys.add(key);
+          changedPaths.add(key);
+          this.addNestedPaths(key, currentValue, changedPaths);
+          hasStructuralChange = true;
+          hasChanges = true;
+          return;
+        }
+
+        // 새로 추가된 키 - 상태 구조 변경 (추가된 값의 중첩 경로 구독자에게도 알림)
+        if (!Object.hasOwn(this.state, key)) {
+          (nextState as Record<string, any>)[key] = newValue;
+          changedKeys.add(key);
+          changedPaths.add(key);
+          this.addNestedPaths(key, newValue, changedPaths);
+          hasStructuralChange = true;
+          hasChanges = true;
+          return;
+        }
+
         // 객체의 경우 구조 변경 확인
         if (
           typeof currentValue === 'object' &&
@@ -115,6 +146,57 @@ export class StateContainer<TState extends Record<string, any>> implements IStat
     return { changedKeys, changedPaths, hasStructuralChange };
   }
 
+  /**
+   * 변경 경로가 알려진 업데이트를 적용합니다.
+   * 드래프트 액션은 수정된 경로만 복사하므로 참조가 바뀐 최상위 키만 교체합니다.
+   * @param newState 새 상태 객체 (부분 상태)
+   * @param paths 드래프트에서 수집된 변경 경로
+   * @returns 변경된 키와 경로 정보
+   */
+  private applyKnownChanges(
+    newState: Partial<TState>,
+    paths: string[],
+  ): { changedKeys: Set<string>; changedPaths: Set<string>; hasStructuralChange: boolean } {
+    const changedKeys = new Set<string>();
+    const nextState = { ...this.state };
+
+    fx(Object.keys(newState))
+      .filter((key) => this.canApply(key, newState[key as keyof Partial<TState>]))
+      .filter((key) => this.state[key] !== newState[key as keyof Partial<TState>])
+      .each((key) => {
+        const newValue = newState[key as keyof Partial<TState>];
+
+        if (newValue === deleteKey) {
+          delete (nextState as Record<string, any>)[key];
+        } else {
+          (nextState as Record<string, any>)[key] = newValue;
+        }
+        changedKeys.add(key);
+      });
+
+    if (changedKeys.size === 0) {
+      return { changedKeys, changedPaths: new Set(), hasStructuralChange: false };
+    }
+
+    this.state = nextState;
+
+    return { changedKeys, changedPaths: new Set(paths), hasStructuralChange: false };
+  }
+
+  /**
+   * 업데이트할 키를 적용할 수 있는지 확인합니다.
+   * dynamicKeys 옵션을 켜지 않으면 현재 상태에 있는 키만 갱신하며 키를 제거하지 않습니다.
+   * @param key 상태 키
+   * @param value 새 값
+   */
+  private canApply(key: string, value: unknown): boolean {
+    if (value === deleteKey) {
+      return this.dynamicKeys && Object.hasOwn(this.state, key);
+    }
+
+    return this.dynamicKeys || key in this.state;
+  }
+
   /**
    * 중첩 객체의 경로를 추가합니다.
    * 예: user.profile.name, items[0].price 등
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from '../../createStore';
+import { mutate } from '../../mutate';
+
+type Todo = { id: number; text: string; completed: boolean };
+
+type FormState = {
+  todos: Todo[];
+  fields: { email: { value: string }; password: { value: string } };
+};
+
+function createFormStore() {
+  return createStore<FormState>({ mode: 'server' })
+    .initialState({
+      todos: [
+        { id: 1, text: 'a', completed: false },
+        { id: 2, text: 'b', completed: false },
+      ],
+      fields: { email: { value: '' }, password: { value: '' } },
+    })
+    .actions({
+      setEmail: (value: string) =>
+        mutate<FormState>((draft) => {
+          draft.fields.email.value = value;
+        }),
+      setPassword: (value: string) =>
+        mutate<FormState>((draft) => {
+          draft.fields.password.value = value;
+        }),
+      toggle: (id: number) =>
+        mutate<FormState>((draft) => {
+          const todo = draft.todos.find((item) => item.id === id);
+          if (todo) todo.completed = !todo.completed;
+        }),
+      rename: (id: number, text: string) =>
+        mutate<FormState>((draft) => {
+          const todo = draft.todos.find((item) => item.id === id);
+          if (todo) todo.text = text;
+        }),
+      removeFirst: () => (state: FormState) => ({ todos: state.todos.slice(1) }),
+    })
+    .build();
+}
+
+test('calls the listener with the new value, old value and path', () => {
+  const store = createFormStore();
+  const listener = jest.fn();
+  store.subscribePath('fields.email.value', listener);
+
+  store.actions.setEmail('a@b.com');
+
+  expect(listener).toHaveBeenCalledTimes(1);
+  expect(listener).toHaveBeenCalledWith('a@b.com', '', 'fields.email.value');
+});
+
+test('ignores changes outside the subscribed path', () => {
+  const store = createFormStore();
+  const listener = jest.fn();
+  store.subscribePath('fields.email.value', listener);
+
+  store.actions.setPassword('secret');
+
+  expect(listener).not.toHaveBeenCalled();
+});
+
+test('wildcard segments report each matching path that changed', () => {
+  const store = createFormStore();
+  const listener = jest.fn();
+  store.subscribePath('todos.*.completed', listener);
+
+  store.actions.toggle(2);
+  store.actions.rename(1, 'renamed');
+
+  expect(listener).toHaveBeenCalledTimes(1);
+  expect(listener).toHaveBeenCalledWith(true, false, 'todos[1].completed');
+});
+
+test('reports removed array items with an undefined value', () => {
+  const store = createFormStore();
+  store.actions.toggle(2);
+  const listener = jest.fn();
+  store.subscribePath('todos.*.completed', listener);
+
+  store.actions.removeFirst();
+
+  expect(listener.mock.calls).toEqual([
+    [true, false, 'todos[0].completed'],
+    [undefined, true, 'todos[1].completed'],
+  ]);
+});
+
+test('stops calling the listener after unsubscribing', () => {
+  const store = createFormStore();
+  const listener = jest.fn();
+  const unsubscribe = store.subscribePath('fields.email.value', listener);
+
+  unsubscribe();
+  store.actions.setEmail('a@b.com');
+
+  expect(listener).not.toHaveBeenCalled();
+});
+
+test('passes listener errors to the error handler', () => {
+  const store = createFormStore();
+  const errorHandler = jest.fn();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  store.subscribePath(
+    'fields.email.value',
+    () => {
+      throw new Error('listener failed');
+    },
+    { errorHandler },
+  );
+
+  store.actions.setEmail('a@b.com');
+
+  expect(errorHandler).toHaveBeenCalledWith(new Error('listener failed'));
+});
@@ -300,6 +300,123 @@ export class SubscriptionManager implements ISubscriptionManager {
     };
   }
 
+  /**
+   * 상태 경로의 값 변경을 구독합니다.
+   * 경로에 '*' 세그먼트를 사용하면 일치하는 모든 경로를 구독하며, 변경된 경로마다 리스너가 호출됩니다.
+   * @param path 구독할 상태 경로 (예: 'fields.email.value', 'todos.*.completed')
+   * @param listener 값이 변경될 때 새 값, 이전 값, 실제 경로와 함께 호출될 리스너 함수
+   * @param options 구독 옵션
+   * @returns 구독 해제 함수
+   */
+  subscribePath<TState extends Record<string, any>, T = unknown>(
+    path: string,
+    listener: (value: T, oldValue: T | undefined, path: string) => void,
+    options: {
+      priority?: number;
+      throttle?: number;
+      errorHandler?: (error: Error) => void;
+      getState?: () => Readonly<TState>;
+    } = {},
+  ): () => void {
+    const { priority = 0, throttle, errorHandler, getState } = options;
+
+    if (!getState) {
+      throw new Error('[SubscriptionManager] Required option missing: getState');
+    }
+
+    // 고유 구독자 ID 생성
+    const subscriberId = `path-${this.nextSubscriberId++}`;
+    const segments = path.replace(/\[(\d+)]/g, '.$1').split('.');
+
+    // 현재 경로별 값 기록
+    let currentValues = this.resolvePathValues(getState(), segments);
+
+    // 상태 변경 리스너 생성
+    const pathListener = () => {
+      try {
+        const nextValues = this.resolvePathValues(getState(), segments);
+        const changes: Array<[string, unknown, unknown]> = [];
+
+        // 변경되거나 새로 생긴 경로
+        fx(nextValues.entries())
+          .filter(
+            ([valuePath, value]) =>
+              !currentValues.has(valuePath) || !Object.is(currentValues.get(valuePath), value),
+          )
+          .each(([valuePath, value]) => changes.push([valuePath, value, currentValues.get(valuePath)]));
+
+        // 사라진 경로 (예: 배열 항목 삭제)
+        fx(currentValues.entries())
+          .filter(([valuePath]) => !nextValues.has(valuePath))
+          .each(([valuePath, value]) => changes.push([valuePath, undefined, value]));
+
+        currentValues = nextValues;
+
+        for (const [valuePath, value, oldValue] of changes) {
+          try {
+            listener(value as T, oldValue as T | undefined, valuePath);
+          } catch (error) {
+            console.error('[SubscriptionManager] Error in path listener:', error);
+            errorHandler?.(error instanceof Error ? error : new Error(String(error)));
+          }
+        }
+      } finally {
+        // 구독자 메타데이터 업데이트 - 항상 실행
+        this.updateSubscriberMetadata(subscriberId);
+      }
+    };
+
+    // 구독 메타데이터 기록
+    this.setupSubscriberMetadata(subscriberId, [path]);
+
+    // 구독 트리에 직접 등록
+    const unsubscribe = this.subscriptionTree.subscribe(subscriberId, pathListener, [path], {
+      priority,
+      throttle,
+    });
+
+    // 구독 해제 함수 반환
+    return () => {
+      unsubscribe();
+      this.subscriberMetadata.delete(subscriberId);
+    };
+  }
+
+  /**
+   * 경로 세그먼트를 따라 상태 값을 찾습니다.
+   * '*' 세그먼트는 모든 하위 키로 확장되고, '**'는 해당 위치의 하위 트리 전체를 값으로 사용합니다.
+   * @param state 현재 상태
+   * @param segments 경로 세그먼트 배열
+   * @returns 실제 경로별 값 맵
+   */
+  private resolvePathValues(state: unknown, segments: string[]): Map<string, unknown> {
+    const values = new Map<string, unknown>();
+
+    const visit = (value: any, index: number, currentPath: string) => {
+      if (index === segments.length || segments[index] === '**') {
+        values.set(currentPath, value);
+        return;
+      }
+
+      const segment = segments[index];
+      const keys =
+        segment === '*' ? (value && typeof value === 'object' ? Object.keys(value) : []) : [segment];
+
+      for (const key of keys) {
+        // 숫자 키는 배열 표기법, 그 외에는 점 표기법 사용
+        const nextPath = /^\d+$/.test(key)
+          ? `${currentPath}[${key}]`
+          : currentPath
+          ? `${currentPath}.${key}`
+          : key;
+        visit(value?.[key], index + 1, nextPath);
+      }
+    };
+
+    visit(state, 0, '');
+    return values;
+  }
+
   /**
    * 구독자에게 상태 변경을 알립니다.
    * @param changedPaths 변경된 상태 경로 배열
@@ -308,6 +425,14 @@ export class SubscriptionManager implements ISubscriptionManager {
     this.subscriptionTree.notifySubscribers(changedPaths);
   }
 
+  /**
+   * 모든 구독자를 제거합니다.
+   */
+  clear(): void {
+    this.subscriptionTree.clear();
+    this.subscriberMetadata.clear();
+  }
+
   /**
    * 특정 상태 경로에 구독 중인 구독자 ID 목록을 반환합니다.
    * @param path 상태 경로
@@ -6,7 +6,8 @@ import { StateContainer } from './StateContainer';
 import { SubscriptionManager } from './SubscriptionManager';
 import { ComputedManager } from './ComputedManager';
 import { DependencyTracker } from './DependencyTracker';
-import { UpdateOptions } from './interfaces';
+import { StateContainerOptions, UpdateOptions } from './interfaces';
+import { withDeletedKeys } from '../../deleteKey.ts';
 
 /**
  * 상태 관리자 - 상태 변경 및 계산된 값 캐싱 로직을 처리합니다.
@@ -35,15 +36,18 @@ export class InternalStateManager<TState extends Record<string, any>, TComputed
     flushUpdatesImmediately(): void;
   };
 
+  // 트랜잭션 중 누적된 변경 경로 (트랜잭션 밖에서는 null)
+  private transactionPaths: Set<string> | null = null;
+
   // 메모이제이션된 셀렉터 캐시
   private memoizedSelectors = new WeakMap<
     (state: Readonly<TState>) => unknown,
     (state: Readonly<TState>) => unknown
   >();
 
-  constructor(initialState: TState, computed?: TComputed) {
+  constructor(initialState: TState, computed?: TComputed, options: StateContainerOptions = {}) {
     // 각 컴포넌트 초기화
-    this.stateContainer = new StateContainer<TState>(initialState);
+    this.stateContainer = new StateContainer<TState>(initialState, options);
     this.subscriptionManager = new SubscriptionManager();
     this.dependencyTracker = new DependencyTracker<TState>();
 
@@ -52,9 +56,29 @@ export class InternalStateManager<TState extends Record<string, any>, TComputed
       initialState,
       computed,
       this.dependencyTracker.createTrackingProxy.bind(this.dependencyTracker),
+      (key) => this.notifyComputedChange(key),
     );
   }
 
+  /**
+   * 비동기 계산된 값이 완료되어 값이 바뀌면 'computed.키' 경로로 구독자에게 알립니다.
+   * @param key 계산된 값의 키
+   */
+  private notifyComputedChange(key: keyof TComputed): void {
+    const path = `computed.${String(key)}`;
+
+    // 트랜잭션 중에는 알림을 미루고 변경 경로만 누적
+    if (this.transactionPaths) {
+      this.transactionPaths.add(path);
+      return;
+    }
+
+    this.batchedUpdates.scheduleUpdate(() => this.subscriptionManager.notifySubscribers([path]), {
+      id: path,
+      replace: true,
+    });
+  }
+
   /**
    * 현재 상태의 읽기 전용 사본을 반환합니다.
    */
@@ -136,6 +160,28 @@ export class InternalStateManager<TState extends Record<string, any>, TComputed
     );
   }
 
+  /**
+   * 상태 경로의 값 변경을 구독합니다.
+   * @param path 구독할 상태 경로 ('*' 와일드카드 사용 가능)
+   * @param listener 값이 변경될 때 호출될 리스너 함수
+   * @param options 구독 옵션
+   * @returns 구독 해제 함수
+   */
+  subscribePath<T = unknown>(
+    path: string,
+    listener: (value: T, oldValue: T | undefined, path: string) => void,
+    options: {
+      priority?: number;
+      throttle?: number;
+      errorHandler?: (error: Error) => void;
+    } = {},
+  ): () => void {
+    return this.subscriptionManager.subscribePath<TState, T>(path, listener, {
+      ...options,
+      getState: this.getState.bind(this),
+    });
+  }
+
   /**
    * 셀렉터의 의존성을 추적합니다.
    * @private
@@ -197,11 +243,13 @@ export class InternalStateManager<TState extends Record<string, any>, TComputed
           updateId = `state-update-${Date.now()}`,
           silent = false,
           statePath,
+          changedPaths: knownChangedPaths,
         } = options;
 
         // 상태 업데이트 실행
         const { changedKeys, changedPaths, hasStructuralChange } = this.stateContainer.updateState(newState, {
           statePath,
+          changedPaths: knownChangedPaths,
         });
 
         // 변경된 것이 없으면 작업 중단
@@ -216,6 +264,14 @@ export class InternalStateManager<TState extends Record<string, any>, TComputed
           changedPaths.add('*');
         }
 
+        // 트랜잭션 중에는 알림을 미루고 변경 경로만 누적
+        if (this.transactionPaths) {
+          for (const path of changedPaths) {
+            this.transactionPaths.add(path);
+          }
+          return;
+        }
+
         // 알림 처리 (silent 모드가 아닌 경우)
         if (!silent) {
           this.batchedUpdates.scheduleUpdate(
@@ -235,6 +291,24 @@ export class InternalStateManager<TState extends Record<string, any>, TComputed
     );
   }
 
+  /**
+   * 트랜잭션을 시작합니다.
+   * 트랜잭션이 끝날 때까지 상태 변경은 즉시 적용되지만 구독자 알림은 보내지 않습니다.
+   */
+  beginTransaction(): void {
+    this.transactionPaths = new Set();
+  }
+
+  /**
+   * 트랜잭션을 종료합니다.
+   * @returns 트랜잭션 중 누적된 변경 경로
+   */
+  endTransaction(): string[] {
+    const changedPaths = Array.from(this.transactionPaths ?? []);
+    this.transactionPaths = null;
+    return changedPaths;
+  }
+
   /**
    * 성능 통계 및 디버깅 정보를 반환합니다.
    */
@@ -262,6 +336,38 @@ export class InternalStateManager<TState extends Record<string, any>, TComputed
     return this.subscriptionManager.getSubscribersForPath(path);
   }
 
+  /**
+   * 모든 상태 구독자를 제거합니다.
+   */
+  clearSubscribers(): void {
+    this.subscriptionManager.clear();
+  }
+
+  /**
+   * 계산된 값을 추가합니다. 추가된 값은 현재 상태로 바로 계산됩니다.
+   * @param computedDefs 추가할 계산된 속성 정의 객체
+   */
+  addComputed(computedDefs: ComputedDef<TState>): void {
+    this.computedManager.addComputed(computedDefs, this.getState());
+  }
+
+  /**
+   * 계산된 값을 제거합니다.
+   * @param keys 제거할 계산된 값의 키 목록
+   */
+  removeComputed(keys: Array<keyof TComputed>): void {
+    this.computedManager.removeComputed(keys);
+  }
+
+  /**
+   * 상태 관리자를 해제합니다. 진행 중인 비동기 계산을 중단하고 모든 상태 구독자를 제거합니다.
+   * @param reason 중단 사유
+   */
+  destroy(reason?: unknown): void {
+    this.computedManager.cancelAsyncComputations(reason);
+    this.subscriptionManager.clear();
+  }
+
   /**
    * 구독자를 일시적으로 비활성화합니다.
    * @param subscriberId 구독자 ID
@@ -279,9 +385,8 @@ export class InternalStateManager<TState extends Record<string, any>, TComputed
     const snapshot = this.getState();
 
     return () => {
-      // 이전 상태로 복원 (알림 없이)
-      this._setState(snapshot as Partial<TState>, { silent: true });
-      console.log('[StateManager] State restored from snapshot');
+      // 이전 상태로 복원 (알림 없이, 그 사이 추가된 키는 제거)
+      this._setState(withDeletedKeys(this.getState(), snapshot) as Partial<TState>, { silent: true });
     };
   }
 }
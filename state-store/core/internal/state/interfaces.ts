@@ -5,6 +5,11 @@ export interface UpdateOptions {
   updateId?: string;
   silent?: boolean;
   statePath?: string;
+  changedPaths?: string[]; // 드래프트 액션에서 수집된 정확한 변경 경로 (지정 시 구조 비교 생략)
+}
+
+export interface StateContainerOptions {
+  dynamicKeys?: boolean; // 초기 상태에 없는 키의 추가와 deleteKey를 사용한 키 제거 허용
 }
 
 // 상태 컨테이너 인터페이스
@@ -51,7 +56,20 @@ export interface ISubscriptionManager {
     trackDependencies?: (selector: (state: Readonly<TState>) => unknown) => string[],
   ): () => void;
 
+  subscribePath<TState extends Record<string, any>, T = unknown>(
+    path: string,
+    listener: (value: T, oldValue: T | undefined, path: string) => void,
+    options?: {
+      priority?: number;
+      throttle?: number;
+      errorHandler?: (error: Error) => void;
+      getState?: () => Readonly<TState>;
+    },
+  ): () => void;
+
   notifySubscribers(changedPaths: string[]): void;
+
+  clear(): void;
 }
 
 // 계산된 값 관리자 인터페이스
@@ -59,6 +77,9 @@ export interface IComputedManager<TState extends Record<string, any>, TComputed
   getComputedValue(key: keyof TComputed): any;
   updateComputedValues(changedStateKeys: Set<string>, currentState: TState): void;
   buildDependencyGraph(): void;
+  addComputed(computedDefs: ComputedDef<TState>, state: TState): void;
+  removeComputed(keys: Array<keyof TComputed>): void;
+  cancelAsyncComputations(reason?: unknown): void;
 }
 
 // 의존성 추적 인터페이스
@@ -1,6 +1,6 @@
 import { ActionsDef, AsyncActionsDef, ComputedDef } from '../types/public-types.ts';
 import { Action } from '../types/internal/action.ts';
-import { Middleware, StoreInternal } from '../types/internal/store.ts';
+import { Middleware, StoreEnhancer, StoreInternal } from '../types/internal/store.ts';
 import { isDevelopment } from '../../utils/env';
 
 /**
@@ -22,7 +22,8 @@ declare global {
       connect(options: NonNullable<unknown>): {
         init(state: NonNullable<unknown>): void;
         send(action: NonNullable<unknown>, state: NonNullable<unknown>): void;
-        subscribe(listener: (message: NonNullable<unknown>) => void): void;
+        subscribe(listener: (message: NonNullable<unknown>) => void): (() => void) | void;
+        unsubscribe?(): void;
       };
     };
   }
@@ -88,6 +89,37 @@ export function applyMiddlewares<
   }
 }
 
+/**
+ * 인핸서를 스토어에 적용합니다.
+ * 각 인핸서가 반환한 확장 API의 속성 디스크립터를 스토어에 정의합니다.
+ * @template TState 스토어 상태 타입
+ * @template TComputed 계산된 속성 정의 타입
+ * @template TActions 액션 정의 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
+ * @param store 인핸서를 적용할 스토어
+ * @param enhancers 적용할 인핸서 배열 (순서대로 적용)
+ * @returns 인핸서가 적용된 스토어
+ */
+export function applyEnhancers<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+>(
+  store: StoreInternal<TState, TComputed, TActions, TAsyncActions>,
+  enhancers: StoreEnhancer<TState>[],
+): StoreInternal<TState, TComputed, TActions, TAsyncActions> {
+  for (const enhancer of enhancers) {
+    const extension = enhancer(store);
+
+    if (extension && typeof extension === 'object') {
+      Object.defineProperties(store, Object.getOwnPropertyDescriptors(extension));
+    }
+  }
+
+  return store;
+}
+
 /**
  * 스토어를 Redux DevTools에 연결하고 시간 여행 디버깅을 강화합니다.
  * @template TState 스토어 상태 타입
@@ -136,7 +168,7 @@ export function connectDevTools<
     };
 
     // 연결 및 초기화
-    let devTools;
+    let devTools: ReturnType<NonNullable<Window['__REDUX_DEVTOOLS_EXTENSION__']>['connect']>;
     try {
       // Redux DevTools 인스턴스 생성
       devTools = window.__REDUX_DEVTOOLS_EXTENSION__.connect(devToolsConfig);
@@ -366,7 +398,7 @@ export function connectDevTools<
     };
 
     // DevTools 메시지 구독
-    devTools.subscribe((message: any) => {
+    const unsubscribeDevTools = devTools.subscribe((message: any) => {
       if (message.type === 'DISPATCH') {
         // 타임 트래블 명령 처리
         if (message.payload?.type === 'JUMP_TO_STATE' && message.state) {
@@ -425,6 +457,19 @@ export function connectDevTools<
         getCurrentActionId: () => currentActionId,
       };
     }
+
+    // 스토어 해제 시 DevTools 연결과 액션 히스토리 정리
+    store._addTeardown(() => {
+      if (typeof unsubscribeDevTools === 'function') {
+        unsubscribeDevTools();
+      } else {
+        devTools.unsubscribe?.();
+      }
+
+      actionHistory = [];
+      currentActionId = null;
+      delete (store as StoreWithDevTools<TState, TComputed, TActions, TAsyncActions>).__DEVTOOLS__;
+    });
   } catch (error) {}
 
   return store;
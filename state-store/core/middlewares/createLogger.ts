@@ -34,6 +34,12 @@ export function createLogger<TState extends Record<string, any>>(): Middleware<T
             : action.payload;
         console.log('%c Payload:', 'color: #03A9F4; font-weight: bold;', payloadToLog);
 
+        // 비동기 액션 생명주기 정보 로깅 (요청 ID, 인자, 소요 시간)
+        if (action.meta?.asyncAction) {
+          const { requestId, args, duration } = action.meta;
+          console.log('%c Async:', 'color: #9C27B0; font-weight: bold;', { requestId, args, duration });
+        }
+
         // 다음 미들웨어/리듀서로 액션 전달
         const result = next(action);
 
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from '../createStore';
+import { history, HistoryOptions } from './history';
+
+type EditorState = {
+  count: number;
+  text: string;
+};
+
+function createEditorStore(options: HistoryOptions = {}) {
+  return createStore<EditorState>({ mode: 'client' })
+    .initialState({ count: 0, text: '' })
+    .actions({
+      increment: () => (state: EditorState) => ({ count: state.count + 1 }),
+      type: (text: string) => (state: EditorState) => ({ text: state.text + text }),
+    })
+    .enhance(history(options))
+    .build();
+}
+
+test('undo and redo step through recorded actions', () => {
+  const store = createEditorStore();
+  store.actions.increment();
+  store.actions.type('a');
+
+  store.undo();
+  expect(store.getState()).toEqual({ count: 1, text: '' });
+
+  store.undo();
+  expect(store.getState()).toEqual({ count: 0, text: '' });
+  expect(store.historyState).toEqual({ canUndo: false, canRedo: true });
+
+  store.redo();
+  expect(store.getState()).toEqual({ count: 1, text: '' });
+});
+
+test('a new action clears the redo stack', () => {
+  const store = createEditorStore();
+  store.actions.increment();
+  store.undo();
+
+  store.actions.type('b');
+
+  expect(store.historyState).toEqual({ canUndo: true, canRedo: false });
+});
+
+test('consecutive actions with the same group key become one entry', () => {
+  const store = createEditorStore({ groupBy: (action) => (action.type === 'type' ? 'typing' : null) });
+  store.actions.increment();
+  store.actions.type('a');
+  store.actions.type('b');
+
+  store.undo();
+
+  expect(store.getState()).toEqual({ count: 1, text: '' });
+});
+
+test('groupHistory records every action in the callback as one entry', () => {
+  const store = createEditorStore();
+
+  store.groupHistory(() => {
+    store.actions.increment();
+    store.actions.increment();
+  });
+  store.undo();
+
+  expect(store.getState().count).toBe(0);
+  expect(store.historyState.canUndo).toBe(false);
+});
+
+test('keeps at most limit entries', () => {
+  const store = createEditorStore({ limit: 2 });
+  store.actions.increment();
+  store.actions.increment();
+  store.actions.increment();
+
+  store.undo();
+  store.undo();
+
+  expect(store.getState().count).toBe(1);
+  expect(store.historyState.canUndo).toBe(false);
+});
+
+test('filter leaves actions out of the history and undo keeps their changes', () => {
+  const store = createEditorStore({ filter: (action) => action.type !== 'type' });
+  store.actions.increment();
+  store.actions.type('a');
+
+  store.undo();
+
+  expect(store.getState()).toEqual({ count: 0, text: 'a' });
+});
+
+test('notifies history state subscribers and clears the history', () => {
+  const store = createEditorStore();
+  const listener = jest.fn();
+  store.subscribeHistoryState(listener);
+
+  store.actions.increment();
+  const afterRecord = store.historyState;
+  store.clearHistory();
+
+  expect(afterRecord).toEqual({ canUndo: true, canRedo: false });
+  expect(store.historyState).toEqual({ canUndo: false, canRedo: false });
+  expect(listener).toHaveBeenCalledTimes(2);
+  expect(store.getState().count).toBe(1);
+});
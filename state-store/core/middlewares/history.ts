@@ -0,0 +1,261 @@
+import { Action } from '../types/internal/action.ts';
+import { StoreEnhancer, StoreInternal } from '../types/internal/store.ts';
+import { deleteKey } from '../deleteKey.ts';
+import { fx } from '@fxts/core';
+
+/**
+ * 히스토리 옵션 인터페이스
+ */
+export interface HistoryOptions {
+  /**
+   * 보관할 최대 항목 수 (기본값: 100)
+   */
+  limit?: number;
+
+  /**
+   * 히스토리에 기록할 액션인지 판별하는 함수 (기본값: 모든 상태 업데이트 액션 기록)
+   */
+  filter?: (action: Action) => boolean;
+
+  /**
+   * 액션의 그룹 키를 반환하는 함수
+   * 직전 항목과 같은 그룹 키를 가진 연속된 액션은 하나의 항목으로 합쳐집니다.
+   * (예: 입력 필드의 키 입력을 필드 단위로 묶기)
+   */
+  groupBy?: (action: Action) => string | null | undefined;
+}
+
+/**
+ * 히스토리 항목 인터페이스
+ * @template TState 스토어 상태 타입
+ */
+export interface HistoryEntry<TState> {
+  actions: Action[];
+  before: Readonly<TState>;
+  after: Readonly<TState>;
+  /**
+   * 기록된 액션이 변경한 최상위 키 (되돌리기/다시 실행 시 이 키만 복원)
+   */
+  changedKeys: string[];
+  timestamp: number;
+}
+
+/**
+ * 구독 가능한 히스토리 상태
+ */
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * history 인핸서가 스토어에 추가하는 확장 API
+ */
+export interface HistoryExtension {
+  /**
+   * 되돌리기/다시 실행 가능 여부 (변경 시에만 새 객체로 교체)
+   */
+  readonly historyState: HistoryState;
+
+  /**
+   * 히스토리 상태 변경을 구독합니다.
+   */
+  subscribeHistoryState: (listener: () => void) => () => void;
+
+  /**
+   * 마지막 항목 이전 상태로 되돌립니다.
+   */
+  undo: () => void;
+
+  /**
+   * 되돌린 항목을 다시 적용합니다.
+   */
+  redo: () => void;
+
+  /**
+   * 모든 히스토리 항목을 삭제합니다. 현재 상태는 유지됩니다.
+   */
+  clearHistory: () => void;
+
+  /**
+   * 함수 안에서 디스패치된 액션을 하나의 히스토리 항목으로 기록합니다.
+   */
+  groupHistory: (fn: () => void) => void;
+}
+
+// 되돌리기/다시 실행 시 디스패치되는 액션 타입
+const UNDO_ACTION_TYPE = '[History] Undo';
+const REDO_ACTION_TYPE = '[History] Redo';
+
+/**
+ * 되돌리기/다시 실행을 지원하는 히스토리 인핸서를 생성합니다.
+ * 상태 업데이트 액션마다 변경 전후 상태를 기록하며, 되돌리기/다시 실행도 액션으로 디스패치되므로
+ * 미들웨어와 DevTools에서 확인할 수 있습니다.
+ *
+ * @template TState 스토어 상태 타입
+ * @param options 히스토리 옵션
+ * @returns 스토어 인핸서
+ *
+ * @example
+ * const store = createStore<FormState>()
+ *   .initialState(initialFormState)
+ *   .actions({ updateField, resetForm })
+ *   .enhance(history({ limit: 50, groupBy: (action) => (action.type === 'updateField' ? 'typing' : null) }))
+ *   .build();
+ *
+ * store.undo();
+ * store.historyState.canRedo; // true
+ */
+export function history<TState extends Record<string, any>>(
+  options: HistoryOptions = {},
+): StoreEnhancer<TState, HistoryExtension> {
+  return (store: StoreInternal<TState>) => {
+    const { limit = 100, filter, groupBy } = options;
+
+    const listeners = new Set<() => void>();
+    let past: HistoryEntry<TState>[] = [];
+    let future: HistoryEntry<TState>[] = [];
+    let historyState: HistoryState = { canUndo: false, canRedo: false };
+    let isRestoring = false;
+
+    // 연속된 액션을 합칠 때 사용하는 마지막 항목의 그룹 키
+    let openGroupKey: string | symbol | null = null;
+    let activeGroupKey: symbol | null = null;
+
+    const updateHistoryState = () => {
+      const canUndo = past.length > 0;
+      const canRedo = future.length > 0;
+
+      if (historyState.canUndo === canUndo && historyState.canRedo === canRedo) return;
+
+      historyState = { canUndo, canRedo };
+      listeners.forEach((listener) => listener());
+    };
+
+    // 추가/제거된 키를 포함하여 값이 바뀐 최상위 키 목록
+    const diffKeys = (before: Readonly<TState>, after: Readonly<TState>) =>
+      fx(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .filter(
+          (key) => before[key] !== after[key] || Object.hasOwn(before, key) !== Object.hasOwn(after, key),
+        )
+        .toArray();
+
+    const record = (
+      action: Action,
+      before: Readonly<TState>,
+      after: Readonly<TState>,
+      changedKeys: string[],
+    ) => {
+      const groupKey = activeGroupKey ?? groupBy?.(action) ?? null;
+      const lastEntry = past[past.length - 1];
+
+      if (groupKey !== null && lastEntry && groupKey === openGroupKey) {
+        lastEntry.actions.push(action);
+        lastEntry.after = after;
+        lastEntry.changedKeys = Array.from(new Set([...lastEntry.changedKeys, ...changedKeys]));
+      } else {
+        past = [...past, { actions: [action], before, after, changedKeys, timestamp: Date.now() }];
+
+        if (past.length > limit) {
+          past = past.slice(past.length - limit);
+        }
+      }
+
+      openGroupKey = groupKey;
+      future = [];
+      updateHistoryState();
+    };
+
+    // 항목이 변경한 키만 저장된 상태의 값으로 디스패치하여 미들웨어/DevTools가 복원을 확인할 수 있게 함
+    // 기록되지 않은 액션이 변경한 다른 키는 그대로 유지됨
+    const restore = (type: string, state: Readonly<TState>, keys: string[]) => {
+      isRestoring = true;
+      openGroupKey = null;
+
+      try {
+        // dynamicKeys 모드에서 항목이 추가한 키는 되돌릴 때 deleteKey로 제거
+        store.dispatch({
+          type,
+          payload: fx(keys).reduce((acc, key) => {
+            acc[key] = Object.hasOwn(state, key) ? state[key] : deleteKey;
+            return acc;
+          }, {} as Record<string, unknown>),
+          meta: { isStateUpdate: true },
+        });
+      } finally {
+        isRestoring = false;
+      }
+    };
+
+    const originalDispatch = store.dispatch;
+
+    store.dispatch = (action: Action): NonNullable<unknown> => {
+      if (isRestoring || !action.meta?.isStateUpdate || (filter && !filter(action))) {
+        return originalDispatch(action);
+      }
+
+      const before = store.getState();
+      const result = originalDispatch(action);
+      const after = store.getState();
+
+      const changedKeys = diffKeys(before, after);
+      if (changedKeys.length > 0) {
+        record(action, before, after, changedKeys);
+      }
+
+      return result;
+    };
+
+    return {
+      get historyState() {
+        return historyState;
+      },
+      subscribeHistoryState: (listener: () => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      undo: () => {
+        const entry = past[past.length - 1];
+        if (!entry) return;
+
+        past = past.slice(0, -1);
+        future = [entry, ...future];
+        restore(UNDO_ACTION_TYPE, entry.before, entry.changedKeys);
+        updateHistoryState();
+      },
+      redo: () => {
+        const [entry, ...rest] = future;
+        if (!entry) return;
+
+        future = rest;
+        past = [...past, entry];
+        restore(REDO_ACTION_TYPE, entry.after, entry.changedKeys);
+        updateHistoryState();
+      },
+      clearHistory: () => {
+        past = [];
+        future = [];
+        openGroupKey = null;
+        updateHistoryState();
+      },
+      groupHistory: (fn: () => void) => {
+        // 중첩 호출 시 가장 바깥 그룹으로 기록
+        if (activeGroupKey) {
+          fn();
+          return;
+        }
+
+        activeGroupKey = Symbol('historyGroup');
+
+        try {
+          fn();
+        } finally {
+          activeGroupKey = null;
+          openGroupKey = null;
+        }
+      },
+    };
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from '../createStore';
+import { CancelledError } from '../errors';
+import { onAction } from './onAction';
+
+type CheckoutState = {
+  count: number;
+  status: string;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createCheckoutStore() {
+  return createStore<CheckoutState>({ mode: 'server' })
+    .initialState({ count: 0, status: 'idle' })
+    .actions({
+      add: (by: number) => (state: CheckoutState) => ({ count: state.count + by }),
+      start: () => () => ({ status: 'started' }),
+      confirm: (ok: boolean) => () => ({ status: ok ? 'confirmed' : 'rejected' }),
+    })
+    .build();
+}
+
+test('runs the effect after the action with its arguments and the state before it', () => {
+  const store = createCheckoutStore();
+  const seen: Array<[number, number, number]> = [];
+  onAction(store, 'add', (action, api) => {
+    seen.push([action.args[0], api.getOriginalState().count, api.getState().count]);
+  });
+
+  store.actions.add(2);
+  store.actions.start();
+
+  expect(seen).toEqual([[2, 0, 2]]);
+});
+
+test('cancelActiveListeners keeps only the latest run', async () => {
+  const store = createCheckoutStore();
+  const saved: number[] = [];
+  const cancelled: unknown[] = [];
+  onAction(store, 'add', async (_, api) => {
+    api.cancelActiveListeners();
+    try {
+      await api.delay(10);
+      saved.push(api.getState().count);
+    } catch (error) {
+      cancelled.push(error);
+    }
+  });
+
+  store.actions.add(1);
+  store.actions.add(2);
+  await sleep(20);
+
+  expect(saved).toEqual([3]);
+  expect(cancelled).toHaveLength(1);
+  expect(cancelled[0]).toBeInstanceOf(CancelledError);
+});
+
+test('take waits for the next matching action or returns null on timeout', async () => {
+  const store = createCheckoutStore();
+  const taken: unknown[] = [];
+  onAction(store, 'start', async (_, api) => {
+    const confirmed = await api.take('confirm', 50);
+    taken.push(confirmed?.args);
+    taken.push(await api.take('confirm', 5));
+  });
+
+  store.actions.start();
+  store.actions.confirm(true);
+  await sleep(20);
+
+  expect(taken).toEqual([[true], null]);
+});
+
+test('condition resolves once the state matches', async () => {
+  const store = createCheckoutStore();
+  const results: boolean[] = [];
+  onAction(store, 'start', async (_, api) => {
+    results.push(await api.condition((state) => state.count >= 10, 50));
+    results.push(await api.condition((state) => state.count >= 100, 5));
+  });
+
+  store.actions.start();
+  store.actions.add(10);
+  await sleep(20);
+
+  expect(results).toEqual([true, false]);
+});
+
+test('runs once for each action in a committed transaction', () => {
+  const store = createCheckoutStore();
+  const counts: number[] = [];
+  onAction(store, 'add', (_, api) => {
+    counts.push(api.getState().count);
+  });
+
+  store.transaction(() => {
+    store.actions.add(1);
+    store.actions.add(1);
+  });
+
+  expect(counts).toEqual([2, 2]);
+});
+
+test('unsubscribing stops the listener and cancels running effects', async () => {
+  const store = createCheckoutStore();
+  const effect = jest.fn(async (_: unknown, api: { delay: (ms: number) => Promise<void> }) => {
+    await api.delay(10);
+  });
+  const unsubscribe = onAction(store, 'add', effect);
+
+  store.actions.add(1);
+  const running = effect.mock.results[0].value;
+  unsubscribe();
+  store.actions.add(1);
+
+  await expect(running).rejects.toBeInstanceOf(CancelledError);
+  expect(effect).toHaveBeenCalledTimes(1);
+});
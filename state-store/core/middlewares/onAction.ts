@@ -0,0 +1,332 @@
+import { Action } from '../types/internal/action.ts';
+import { CancelledError } from '../errors.ts';
+import { fx } from '@fxts/core';
+
+/**
+ * onAction이 사용하는 스토어의 최소 형태
+ */
+interface ListenableStore {
+  actions: NonNullable<unknown>;
+  getState: () => NonNullable<unknown>;
+  subscribe: (listener: () => void) => () => void;
+  dispatch: (action: Action) => NonNullable<unknown>;
+}
+
+/**
+ * 스토어에 정의된 액션 이름 타입
+ * @template TStore 스토어 타입
+ */
+export type StoreActionName<TStore extends ListenableStore> = keyof TStore['actions'] & string;
+
+/**
+ * 스토어 상태 타입
+ * @template TStore 스토어 타입
+ */
+export type StoreListenerState<TStore extends ListenableStore> = ReturnType<TStore['getState']>;
+
+/**
+ * 리스너에 전달되는 액션 타입
+ * 상태 업데이트 페이로드와 함께 액션 함수에 전달된 인자를 제공합니다.
+ * @template TStore 스토어 타입
+ * @template K 액션 이름
+ */
+export type ListenerAction<TStore extends ListenableStore, K extends StoreActionName<TStore>> = Action & {
+  type: K;
+  args: TStore['actions'][K] extends (...args: infer TArgs) => unknown ? TArgs : unknown[];
+};
+
+/**
+ * 리스너 API 인터페이스
+ * 대기 메서드는 리스너 실행이 취소되면 CancelledError로 거부됩니다.
+ * @template TStore 스토어 타입
+ */
+export interface ListenerApi<TStore extends ListenableStore> {
+  /**
+   * 현재 상태를 반환합니다.
+   */
+  getState: () => StoreListenerState<TStore>;
+
+  /**
+   * 액션이 적용되기 직전의 상태를 반환합니다.
+   */
+  getOriginalState: () => StoreListenerState<TStore>;
+
+  /**
+   * 스토어의 dispatch 함수
+   */
+  dispatch: TStore['dispatch'];
+
+  /**
+   * 조건을 만족하는 상태가 될 때까지 기다립니다.
+   * @param predicate 상태 조건 함수 (현재 상태와 직전 상태를 받음)
+   * @param timeout 최대 대기 시간(ms)
+   * @returns 조건을 만족하면 true, 시간이 초과되면 false
+   */
+  condition: (
+    predicate: (state: StoreListenerState<TStore>, previousState: StoreListenerState<TStore>) => boolean,
+    timeout?: number,
+  ) => Promise<boolean>;
+
+  /**
+   * 지정한 시간(ms)만큼 기다립니다.
+   */
+  delay: (ms: number) => Promise<void>;
+
+  /**
+   * 지정한 액션이 다음에 디스패치될 때까지 기다립니다.
+   * @param actionName 기다릴 액션 이름
+   * @param timeout 최대 대기 시간(ms)
+   * @returns 디스패치된 액션, 시간이 초과되면 null
+   */
+  take: <K extends StoreActionName<TStore>>(
+    actionName: K,
+    timeout?: number,
+  ) => Promise<ListenerAction<TStore, K> | null>;
+
+  /**
+   * 이 리스너 실행의 취소 신호
+   */
+  signal: AbortSignal;
+
+  /**
+   * 같은 리스너의 진행 중인 다른 실행을 모두 취소합니다. (마지막 실행만 유지할 때 사용)
+   */
+  cancelActiveListeners: () => void;
+
+  /**
+   * 리스너 등록을 해제하고 진행 중인 실행을 모두 취소합니다.
+   */
+  unsubscribe: () => void;
+}
+
+/**
+ * 액션 리스너 효과 함수 타입
+ * @template TStore 스토어 타입
+ * @template K 액션 이름
+ */
+export type ActionEffect<TStore extends ListenableStore, K extends StoreActionName<TStore>> = (
+  action: ListenerAction<TStore, K>,
+  api: ListenerApi<TStore>,
+) => void | Promise<void>;
+
+/**
+ * 스토어별 디스패치 관찰자 (액션과 적용 전 상태를 받음)
+ */
+type DispatchObserver = (action: Action, originalState: NonNullable<unknown>) => void;
+
+// 스토어별 관찰자 목록 (dispatch는 스토어마다 한 번만 감쌈)
+const dispatchObservers = new WeakMap<ListenableStore, Set<DispatchObserver>>();
+
+/**
+ * 스토어의 디스패치 관찰자 목록을 반환합니다.
+ * 처음 호출될 때 dispatch를 감싸, 액션이 적용된 뒤 관찰자에게 알립니다.
+ * 트랜잭션으로 묶인 액션은 커밋된 뒤 안에서 디스패치된 액션 단위로 알립니다.
+ */
+function getDispatchObservers(store: ListenableStore): Set<DispatchObserver> {
+  const registered = dispatchObservers.get(store);
+  if (registered) return registered;
+
+  const observers = new Set<DispatchObserver>();
+  const next = store.dispatch;
+
+  store.dispatch = (action: Action) => {
+    const originalState = store.getState();
+    const result = next(action);
+
+    const dispatchedActions = action.meta?.transaction ? (action.meta.actions as Action[]) : [action];
+
+    fx(dispatchedActions).each((dispatchedAction) => {
+      fx(Array.from(observers)).each((observer) => observer(dispatchedAction, originalState));
+    });
+
+    return result;
+  };
+
+  dispatchObservers.set(store, observers);
+  return observers;
+}
+
+/**
+ * 스토어 액션이 디스패치될 때 실행될 리스너를 등록합니다.
+ * 리스너는 액션이 상태에 적용된 뒤 실행되며, 제공되는 API로 다른 액션이나 상태 조건을 기다리는
+ * 비동기 흐름을 액션 밖에서 선언적으로 작성할 수 있습니다.
+ *
+ * @template TStore 스토어 타입
+ * @template K 액션 이름
+ * @param store 리스너를 등록할 스토어
+ * @param actionName 구독할 액션 이름 (actions로 정의한 키)
+ * @param effect 액션이 디스패치될 때 실행될 함수
+ * @returns 리스너 등록 해제 함수 (진행 중인 실행도 취소)
+ *
+ * @example
+ * onAction(todoStore, 'addTodo', async (action, api) => {
+ *   api.cancelActiveListeners();
+ *   await api.delay(500);
+ *   await saveTodos(api.getState().todos, { signal: api.signal });
+ * });
+ *
+ * onAction(checkoutStore, 'startCheckout', async (_, api) => {
+ *   const confirmed = await api.take('confirmCheckout', 30000);
+ *   if (!confirmed) checkoutStore.actions.cancelCheckout();
+ * });
+ */
+export function onAction<TStore extends ListenableStore, K extends StoreActionName<TStore>>(
+  store: TStore,
+  actionName: K,
+  effect: ActionEffect<TStore, K>,
+): () => void {
+  type TState = StoreListenerState<TStore>;
+
+  const observers = getDispatchObservers(store);
+  const activeControllers = new Set<AbortController>();
+
+  // 취소되면 CancelledError로 거부되는 대기 Promise 생성
+  const waitFor = <T>(
+    signal: AbortSignal,
+    executor: (resolve: (value: T) => void) => () => void,
+  ): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal.reason);
+      };
+
+      const cleanup = executor((value) => {
+        cleanup();
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      });
+
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  // 제한 시간이 지나면 fallback 값으로 이행
+  const withTimeout = <T>(
+    resolve: (value: T) => void,
+    fallback: T,
+    timeout?: number,
+  ): ReturnType<typeof setTimeout> | null => {
+    return timeout === undefined ? null : setTimeout(() => resolve(fallback), timeout);
+  };
+
+  const createApi = (controller: AbortController, originalState: TState): ListenerApi<TStore> => {
+    const { signal } = controller;
+
+    return {
+      getState: () => store.getState() as TState,
+      getOriginalState: () => originalState,
+      dispatch: ((action: Action) => store.dispatch(action)) as TStore['dispatch'],
+
+      condition: (predicate, timeout) => {
+        let previousState = store.getState() as TState;
+
+        if (predicate(previousState, previousState)) {
+          return Promise.resolve(true);
+        }
+
+        return waitFor<boolean>(signal, (resolve) => {
+          const timer = withTimeout(resolve, false, timeout);
+          const unsubscribe = store.subscribe(() => {
+            const state = store.getState() as TState;
+            const matched = predicate(state, previousState);
+            previousState = state;
+
+            if (matched) resolve(true);
+          });
+
+          return () => {
+            if (timer !== null) clearTimeout(timer);
+            unsubscribe();
+          };
+        });
+      },
+
+      delay: (ms) =>
+        waitFor<void>(signal, (resolve) => {
+          const timer = setTimeout(() => resolve(undefined), ms);
+          return () => clearTimeout(timer);
+        }),
+
+      take: <TName extends StoreActionName<TStore>>(takenActionName: TName, timeout?: number) =>
+        waitFor<ListenerAction<TStore, TName> | null>(signal, (resolve) => {
+          const timer = withTimeout<ListenerAction<TStore, TName> | null>(resolve, null, timeout);
+          const observer: DispatchObserver = (action) => {
+            if (action.type === takenActionName) {
+              resolve(toListenerAction(action) as ListenerAction<TStore, TName>);
+            }
+          };
+          observers.add(observer);
+
+          return () => {
+            if (timer !== null) clearTimeout(timer);
+            observers.delete(observer);
+          };
+        }),
+
+      signal,
+
+      cancelActiveListeners: () => {
+        fx(Array.from(activeControllers))
+          .filter((activeController) => activeController !== controller)
+          .each((activeController) => activeController.abort(new CancelledError('listener cancelled')));
+      },
+
+      unsubscribe,
+    };
+  };
+
+  const run: DispatchObserver = (action, originalState) => {
+    if (action.type !== actionName) return;
+
+    const controller = new AbortController();
+    activeControllers.add(controller);
+
+    const finish = (error?: unknown) => {
+      activeControllers.delete(controller);
+
+      // 취소로 인한 중단은 정상 종료로 간주
+      if (error !== undefined && !(error instanceof CancelledError)) {
+        console.error(`[onAction] Error in listener for "${actionName}":`, error);
+      }
+    };
+
+    try {
+      const result = effect(
+        toListenerAction(action) as ListenerAction<TStore, K>,
+        createApi(controller, originalState as TState),
+      );
+
+      if (result instanceof Promise) {
+        result.then(() => finish(), finish);
+      } else {
+        finish();
+      }
+    } catch (error) {
+      finish(error);
+    }
+  };
+
+  function unsubscribe() {
+    observers.delete(run);
+    fx(Array.from(activeControllers)).each((controller) =>
+      controller.abort(new CancelledError('listener unsubscribed')),
+    );
+    activeControllers.clear();
+  }
+
+  observers.add(run);
+  return unsubscribe;
+}
+
+/**
+ * 디스패치된 액션에 액션 함수 인자(meta.args)를 붙입니다.
+ */
+function toListenerAction(action: Action): Action & { args: unknown[] } {
+  return { ...action, args: (action.meta?.args as unknown[] | undefined) ?? [] };
+}
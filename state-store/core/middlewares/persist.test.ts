@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from '../createStore';
+import { createMigrations, persist, PersistOptions } from './persist';
+import { createMemoryStorage, PersistStorage } from './persistStorage';
+
+type SettingsState = {
+  count: number;
+  draft: string;
+  user: { name: string } | null;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createSettingsStore(options: PersistOptions<SettingsState>) {
+  return createStore<SettingsState>({ mode: 'client' })
+    .initialState({ count: 0, draft: '', user: null })
+    .actions({
+      increment: () => (state: SettingsState) => ({ count: state.count + 1 }),
+      setDraft: (draft: string) => () => ({ draft }),
+    })
+    .enhance(persist(options))
+    .build();
+}
+
+function readPayload(storage: PersistStorage, key: string) {
+  return JSON.parse(storage.getItem(key) as string);
+}
+
+test('restores saved state and reports the restore status', async () => {
+  const storage = createMemoryStorage();
+  storage.setItem('settings', JSON.stringify({ version: 0, state: { count: 5 } }));
+
+  const store = createSettingsStore({ key: 'settings', storage });
+  expect(store.persistState.pending).toBe(true);
+
+  await sleep(0);
+
+  expect(store.getState().count).toBe(5);
+  expect(store.persistState).toEqual({ pending: false, error: null, loaded: true });
+});
+
+test('writes only the whitelisted keys after each change', async () => {
+  const storage = createMemoryStorage();
+  const store = createSettingsStore({ key: 'settings', storage, whitelist: ['count'] });
+  await sleep(0);
+
+  store.actions.increment();
+  store.actions.setDraft('unsaved');
+  await sleep(0);
+
+  expect(readPayload(storage, 'settings')).toEqual({ version: 0, state: { count: 1 } });
+});
+
+test('skips blacklisted keys when restoring', async () => {
+  const storage = createMemoryStorage();
+  storage.setItem('settings', JSON.stringify({ version: 0, state: { count: 2, draft: 'stale' } }));
+
+  const store = createSettingsStore({ key: 'settings', storage, blacklist: ['draft'] });
+  await sleep(0);
+
+  expect(store.getState()).toMatchObject({ count: 2, draft: '' });
+});
+
+test('migrates state saved with an older version and writes it back', async () => {
+  const storage = createMemoryStorage();
+  storage.setItem('settings', JSON.stringify({ version: 1, state: { count: 3, userName: 'kim' } }));
+
+  const store = createSettingsStore({
+    key: 'settings',
+    storage,
+    version: 3,
+    migrate: createMigrations({
+      1: () => {
+        throw new Error('already applied');
+      },
+      2: ({ userName, ...state }) => ({ ...state, user: { name: userName } }),
+      3: (state) => ({ ...state, count: state.count * 10 }),
+    }),
+  });
+  await sleep(0);
+
+  expect(store.getState()).toMatchObject({ count: 30, user: { name: 'kim' } });
+  expect(readPayload(storage, 'settings').version).toBe(3);
+});
+
+test('drops state saved with another version when there is no migration', async () => {
+  const storage = createMemoryStorage();
+  storage.setItem('settings', JSON.stringify({ version: 1, state: { count: 9 } }));
+
+  const store = createSettingsStore({ key: 'settings', storage, version: 2 });
+  await sleep(0);
+
+  expect(store.getState().count).toBe(0);
+  expect(store.persistState.loaded).toBe(true);
+});
+
+test('records a restore failure in persistState', async () => {
+  const storage = createMemoryStorage();
+  storage.setItem('settings', '{ broken');
+
+  const store = createSettingsStore({ key: 'settings', storage });
+  await sleep(0);
+
+  expect(store.persistState.loaded).toBe(false);
+  expect(store.persistState.error).toBeInstanceOf(SyntaxError);
+});
+
+test('throttles writes and flushes them on demand', async () => {
+  const storage = createMemoryStorage();
+  const store = createSettingsStore({ key: 'settings', storage, throttle: 1000 });
+  await sleep(0);
+  const restoredWrite = storage.getItem('settings');
+
+  store.actions.increment();
+  store.actions.increment();
+  await sleep(0);
+  expect(storage.getItem('settings')).toBe(restoredWrite);
+
+  await store.persistor.flush();
+  expect(readPayload(storage, 'settings').state.count).toBe(2);
+
+  await store.persistor.purge();
+  expect(storage.getItem('settings')).toBeNull();
+});
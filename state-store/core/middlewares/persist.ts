@@ -0,0 +1,320 @@
+import { AsyncState } from '../types/internal/state.ts';
+import { StoreEnhancer, StoreInternal } from '../types/internal/store.ts';
+import { createWebStorage, PersistStorage } from './persistStorage.ts';
+
+/**
+ * 영속화 마이그레이션 함수 타입
+ * 이전 버전으로 저장된 상태를 받아 현재 버전의 상태로 변환합니다.
+ */
+export type PersistMigrate<TState> = (
+  persistedState: any,
+  persistedVersion: number,
+) => Partial<TState> | Promise<Partial<TState>>;
+
+/**
+ * 영속화 옵션 인터페이스
+ * @template TState 스토어 상태 타입
+ */
+export interface PersistOptions<TState extends Record<string, any>> {
+  /**
+   * 스토리지에 저장될 키
+   */
+  key: string;
+
+  /**
+   * 스토리지 어댑터 (기본값: localStorage, 사용할 수 없으면 메모리)
+   */
+  storage?: PersistStorage;
+
+  /**
+   * 저장할 상태 키 목록 (지정 시 이 키들만 저장)
+   */
+  whitelist?: (keyof TState)[];
+
+  /**
+   * 저장하지 않을 상태 키 목록
+   */
+  blacklist?: (keyof TState)[];
+
+  /**
+   * 저장 간격(ms). 지정 시 마지막 변경 후 간격마다 한 번만 기록합니다. (기본값: 0, 변경마다 기록)
+   */
+  throttle?: number;
+
+  /**
+   * 저장 데이터 버전 (기본값: 0)
+   */
+  version?: number;
+
+  /**
+   * 저장된 버전이 현재 버전과 다를 때 호출되는 마이그레이션 함수
+   * 지정하지 않으면 버전이 다른 데이터는 버려집니다.
+   */
+  migrate?: PersistMigrate<TState>;
+}
+
+/**
+ * 스토리지에 기록되는 페이로드 형태
+ */
+export interface PersistedPayload {
+  version: number;
+  state: Record<string, unknown>;
+}
+
+/**
+ * 영속화 제어 API 인터페이스
+ */
+export interface Persistor {
+  /**
+   * 대기 중인 기록을 즉시 수행합니다.
+   */
+  flush: () => Promise<void>;
+
+  /**
+   * 스토리지에서 저장된 데이터를 삭제합니다.
+   */
+  purge: () => Promise<void>;
+
+  /**
+   * 스토리지에서 상태를 다시 읽어 스토어에 복원합니다.
+   */
+  rehydrate: () => Promise<void>;
+}
+
+/**
+ * persist 인핸서가 스토어에 추가하는 확장 API
+ */
+export interface PersistExtension {
+  /**
+   * 복원 상태 (pending: 복원 중, error: 복원 실패, loaded: 복원 완료)
+   */
+  readonly persistState: AsyncState;
+
+  /**
+   * 복원 상태 변경을 구독합니다.
+   */
+  subscribePersistState: (listener: () => void) => () => void;
+
+  persistor: Persistor;
+}
+
+// 저장된 상태를 복원할 때 디스패치되는 액션 타입
+const REHYDRATE_ACTION_TYPE = '[Persist] Rehydrate';
+
+/**
+ * 버전별 마이그레이션을 순서대로 연결한 migrate 함수를 생성합니다.
+ * 저장된 버전보다 높은 버전의 마이그레이션만 오름차순으로 적용됩니다.
+ *
+ * @template TState 스토어 상태 타입
+ * @param migrations 버전 번호를 키로 하는 마이그레이션 함수 객체
+ * @returns persist 옵션에 전달할 migrate 함수
+ *
+ * @example
+ * persist<AppState>({
+ *   key: 'app',
+ *   version: 2,
+ *   migrate: createMigrations({
+ *     1: (state) => ({ ...state, theme: 'light' }),
+ *     2: ({ userName, ...state }) => ({ ...state, user: { name: userName } }),
+ *   }),
+ * });
+ */
+export function createMigrations<TState extends Record<string, any>>(
+  migrations: Record<number, (state: any) => any>,
+): PersistMigrate<TState> {
+  const versions = Object.keys(migrations)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  return async (persistedState, persistedVersion) => {
+    let state = persistedState;
+
+    for (const version of versions) {
+      if (version > persistedVersion) {
+        state = await migrations[version](state);
+      }
+    }
+
+    return state;
+  };
+}
+
+/**
+ * 스토어 상태를 스토리지에 영속화하는 인핸서를 생성합니다.
+ * 스토어 생성 직후 저장된 상태를 복원하고, 복원이 끝난 뒤의 변경만 기록합니다.
+ * 복원은 '[Persist] Rehydrate' 액션으로 디스패치되어 미들웨어와 스키마 검증을 거치며, 검증에 실패하면 persistState.error에 기록됩니다.
+ * 복원 진행 상황은 store.persistState로 asyncState와 같은 형태로 확인할 수 있습니다.
+ *
+ * @template TState 스토어 상태 타입
+ * @param options 영속화 옵션
+ * @returns 스토어 인핸서
+ *
+ * @example
+ * const store = createStore<AppState>()
+ *   .initialState({ user: null, theme: 'light', draft: '' })
+ *   .enhance(persist({ key: 'app', whitelist: ['user', 'theme'], throttle: 500 }))
+ *   .build();
+ *
+ * store.persistState.loaded; // 복원 완료 여부
+ */
+export function persist<TState extends Record<string, any>>(
+  options: PersistOptions<TState>,
+): StoreEnhancer<TState, PersistExtension> {
+  return (store: StoreInternal<TState>) => {
+    const {
+      key,
+      storage = createWebStorage('local'),
+      whitelist,
+      blacklist,
+      throttle = 0,
+      version = 0,
+    } = options;
+
+    const listeners = new Set<() => void>();
+    let persistState: AsyncState = { pending: false, error: null, loaded: false };
+    let lastWritten: string | null = null;
+    let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const setPersistState = (nextState: AsyncState) => {
+      persistState = nextState;
+      listeners.forEach((listener) => listener());
+    };
+
+    // 저장 대상 키만 추출
+    const pickPersistedState = (state: Readonly<TState>): Record<string, unknown> => {
+      const result: Record<string, unknown> = {};
+
+      for (const stateKey of Object.keys(state)) {
+        if (whitelist && !whitelist.includes(stateKey)) continue;
+        if (blacklist && blacklist.includes(stateKey)) continue;
+        result[stateKey] = state[stateKey];
+      }
+
+      return result;
+    };
+
+    const write = async () => {
+      const serialized = JSON.stringify({ version, state: pickPersistedState(store.getState()) });
+
+      // 변경이 없으면 기록하지 않음
+      if (serialized === lastWritten) return;
+      lastWritten = serialized;
+
+      try {
+        await storage.setItem(key, serialized);
+      } catch (error) {
+        lastWritten = null;
+        console.error(`[persist] Failed to write "${key}":`, error);
+      }
+    };
+
+    const cancelScheduledWrite = () => {
+      if (writeTimer !== null) {
+        clearTimeout(writeTimer);
+        writeTimer = null;
+      }
+    };
+
+    const scheduleWrite = () => {
+      if (throttle <= 0) {
+        void write();
+        return;
+      }
+
+      // 트레일링 스로틀: 간격 내의 변경은 마지막 상태로 한 번만 기록
+      if (writeTimer === null) {
+        writeTimer = setTimeout(() => {
+          writeTimer = null;
+          void write();
+        }, throttle);
+      }
+    };
+
+    const rehydrate = async () => {
+      cancelScheduledWrite();
+      setPersistState({ pending: true, error: null, loaded: false });
+
+      try {
+        const serialized = await storage.getItem(key);
+
+        if (serialized !== null) {
+          const payload = JSON.parse(serialized) as PersistedPayload;
+          let restoredState: Partial<TState> | null = payload.state as Partial<TState>;
+
+          if (payload.version !== version) {
+            restoredState = options.migrate ? await options.migrate(payload.state, payload.version) : null;
+          }
+
+          if (restoredState) {
+            const restoredPayload = pickPersistedState(restoredState as TState);
+
+            // dynamicKeys 모드가 아니면 현재 상태에 없는 키(이전 버전의 키 등)는 복원하지 않음
+            if (!store._dynamicKeys) {
+              const currentState = store.getState();
+              for (const stateKey of Object.keys(restoredPayload)) {
+                if (!Object.hasOwn(currentState, stateKey)) delete restoredPayload[stateKey];
+              }
+            }
+
+            // 미들웨어와 스키마 검증을 거치도록 이름 있는 액션으로 복원
+            store.dispatch({
+              type: REHYDRATE_ACTION_TYPE,
+              payload: restoredPayload,
+              meta: { isStateUpdate: true, persistKey: key },
+            });
+          }
+        }
+
+        setPersistState({ pending: false, error: null, loaded: true });
+
+        // 마이그레이션 결과를 현재 버전으로 다시 기록
+        await write();
+      } catch (error) {
+        setPersistState({
+          pending: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+          loaded: false,
+        });
+      }
+    };
+
+    store.subscribe(() => {
+      // 복원 전의 변경은 저장된 상태를 덮어쓰지 않도록 기록하지 않음
+      if (!persistState.loaded) return;
+      scheduleWrite();
+    });
+
+    void rehydrate();
+
+    // 스토어 해제 시 예약된 기록을 바로 저장
+    store._addTeardown(() => {
+      if (writeTimer === null) return;
+      cancelScheduledWrite();
+      void write();
+    });
+
+    return {
+      get persistState() {
+        return persistState;
+      },
+      subscribePersistState: (listener: () => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      persistor: {
+        flush: async () => {
+          cancelScheduledWrite();
+          await write();
+        },
+        purge: async () => {
+          cancelScheduledWrite();
+          lastWritten = null;
+          await storage.removeItem(key);
+        },
+        rehydrate,
+      },
+    };
+  };
+}
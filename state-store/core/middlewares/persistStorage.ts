@@ -0,0 +1,150 @@
+import { isServer } from '../../utils/env';
+
+/**
+ * 영속화 스토리지 어댑터 인터페이스
+ * 동기(localStorage 등)와 비동기(IndexedDB, 원격 저장소 등) 구현을 모두 허용합니다.
+ */
+export interface PersistStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+/**
+ * IndexedDB 스토리지 옵션 인터페이스
+ */
+export interface IndexedDBStorageOptions {
+  /**
+   * 데이터베이스 이름 (기본값: 'state-store')
+   */
+  dbName?: string;
+
+  /**
+   * 오브젝트 스토어 이름 (기본값: 'persist')
+   */
+  storeName?: string;
+}
+
+/**
+ * 메모리 스토리지를 생성합니다.
+ * 서버 환경이나 테스트, 브라우저 스토리지를 사용할 수 없을 때의 폴백으로 사용합니다.
+ *
+ * @returns 메모리 스토리지 어댑터
+ */
+export function createMemoryStorage(): PersistStorage {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * localStorage 또는 sessionStorage 어댑터를 생성합니다.
+ * 서버 환경이거나 스토리지 접근이 차단된 경우(사파리 사생활 보호 모드 등) 메모리 스토리지로 대체합니다.
+ *
+ * @param type 사용할 웹 스토리지 종류 (기본값: 'local')
+ * @returns 웹 스토리지 어댑터
+ */
+export function createWebStorage(type: 'local' | 'session' = 'local'): PersistStorage {
+  const storage = getWebStorage(type);
+
+  if (!storage) {
+    return createMemoryStorage();
+  }
+
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+  };
+}
+
+/**
+ * IndexedDB 어댑터를 생성합니다.
+ * 데이터베이스는 첫 접근 시 열리며, IndexedDB를 사용할 수 없는 환경에서는 메모리 스토리지로 대체합니다.
+ *
+ * @param options IndexedDB 스토리지 옵션
+ * @returns IndexedDB 스토리지 어댑터
+ */
+export function createIndexedDBStorage(options: IndexedDBStorageOptions = {}): PersistStorage {
+  const { dbName = 'state-store', storeName = 'persist' } = options;
+
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryStorage();
+  }
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    return dbPromise;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (objectStore: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) => {
+      const value = await run('readonly', (objectStore) => objectStore.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await run('readwrite', (objectStore) => objectStore.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (objectStore) => objectStore.delete(key));
+    },
+  };
+}
+
+/**
+ * 사용 가능한 웹 스토리지를 반환합니다.
+ * @param type 웹 스토리지 종류
+ * @returns 사용 가능하면 Storage 객체, 아니면 null
+ */
+function getWebStorage(type: 'local' | 'session'): Storage | null {
+  if (isServer) return null;
+
+  try {
+    const storage = type === 'local' ? window.localStorage : window.sessionStorage;
+
+    // 쓰기 가능 여부 확인 (용량 초과, 접근 차단 등)
+    const testKey = '__state_store_persist_test__';
+    storage.setItem(testKey, testKey);
+    storage.removeItem(testKey);
+
+    return storage;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * @jest-environment node
+ */
+import { deserialize, serialize } from 'v8';
+import { ErrorBoundary } from '../../utils/errorBoundary';
+import { createStore } from '../createStore';
+import { deleteKey } from '../deleteKey';
+import { Action } from '../types/internal/action';
+import { Middleware } from '../types/internal/store';
+import { syncTabs, SyncTabsOptions } from './syncTabs';
+import { createMemoryTransport } from './syncTransport';
+
+type CounterState = {
+  count: number;
+  draft: string;
+};
+
+// jest 27의 node 환경은 structuredClone을 전역으로 노출하지 않으므로 v8 직렬화로 대신함
+globalThis.structuredClone ??= <T>(value: T): T => deserialize(serialize(value));
+
+const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const openTabs: Array<{ stopSync: () => void }> = [];
+
+interface TabOptions {
+  sync?: Partial<SyncTabsOptions<CounterState>>;
+  maxCount?: number;
+  remoteActions?: Action[];
+}
+
+function openTab(channel: string, initialState: CounterState, options: TabOptions = {}) {
+  const { sync, maxCount = Infinity, remoteActions = [] } = options;
+  const recordRemote: Middleware<CounterState> = () => (next) => (action) => {
+    if (action.meta?.remote) remoteActions.push(action);
+    return next(action);
+  };
+  const tab = createStore<CounterState>({ mode: 'client' })
+    .initialState(initialState)
+    .actions({
+      increment: () => (state: CounterState) => ({ count: state.count + 1 }),
+      setCount: (count: number) => () => ({ count }),
+      setDraft: (draft: string) => () => ({ draft }),
+    })
+    .schema((state: CounterState) =>
+      state.count <= maxCount ? [] : [{ path: 'count', message: 'count is too large' }],
+    )
+    .enhance(syncTabs({ channel, keys: ['count'], transport: createMemoryTransport(channel), ...sync }))
+    .middleware([recordRemote])
+    .build();
+
+  openTabs.push(tab);
+  return tab;
+}
+
+afterEach(() => {
+  openTabs.splice(0).forEach((tab) => tab.stopSync());
+});
+
+test('a new tab catches up with the state of an open tab', async () => {
+  openTab('catch-up', { count: 5, draft: 'first' });
+  await tick();
+
+  const second = openTab('catch-up', { count: 0, draft: 'second' });
+  await tick(10);
+
+  expect(second.getState()).toEqual({ count: 5, draft: 'second' });
+});
+
+test('sends changes of synced keys to other tabs as remote actions', async () => {
+  const remoteActions: Action[] = [];
+  const first = openTab('updates', { count: 0, draft: '' });
+  const second = openTab('updates', { count: 0, draft: '' }, { remoteActions });
+  await tick(10);
+
+  first.actions.increment();
+  first.actions.setDraft('local only');
+  await tick(10);
+
+  expect(second.getState()).toEqual({ count: 1, draft: '' });
+  expect(remoteActions.map((action) => action.payload)).toContainEqual({ count: 1 });
+
+  second.actions.increment();
+  await tick(10);
+  expect(first.getState().count).toBe(2);
+});
+
+test('reports remote updates that fail and keeps syncing', async () => {
+  const onError = jest.fn();
+  const first = openTab('errors', { count: 0, draft: '' });
+  const second = openTab(
+    'errors',
+    { count: 0, draft: '' },
+    {
+      maxCount: 100,
+      sync: { errorBoundary: new ErrorBoundary({ onError }) },
+    },
+  );
+  await tick(10);
+
+  first.actions.setCount(500);
+  await tick(10);
+  expect(second.getState().count).toBe(0);
+  expect(onError).toHaveBeenCalledWith(
+    expect.any(Error),
+    expect.objectContaining({ actionType: '[Sync] Remote Update' }),
+  );
+
+  first.actions.setCount(3);
+  await tick(10);
+  expect(second.getState().count).toBe(3);
+});
+
+test('elects one leader and hands over when it stops syncing', async () => {
+  const leaderElection = { heartbeatInterval: 10 };
+  const first = openTab('leader', { count: 0, draft: '' }, { sync: { leaderElection } });
+  await tick(40);
+  const second = openTab('leader', { count: 0, draft: '' }, { sync: { leaderElection } });
+  await tick(40);
+
+  expect(first.syncState.isLeader).toBe(true);
+  expect(second.syncState.isLeader).toBe(false);
+
+  first.stopSync();
+  await tick(40);
+
+  expect(second.syncState.isLeader).toBe(true);
+});
+
+test('stops sending and receiving after stopSync', async () => {
+  const first = openTab('stop', { count: 0, draft: '' });
+  const second = openTab('stop', { count: 0, draft: '' });
+  await tick(10);
+
+  second.stopSync();
+  first.actions.increment();
+  await tick(10);
+
+  expect(second.getState().count).toBe(0);
+});
+
+test('syncs keys added and removed in dynamic key stores', async () => {
+  const openCounters = (initialState: Record<string, number>) => {
+    const tab = createStore<Record<string, number>>({ mode: 'client', dynamicKeys: true })
+      .initialState(initialState)
+      .actions({
+        set: (key: string, value: number) => ({ [key]: value }),
+        remove: (key: string) => ({ [key]: deleteKey }),
+      })
+      .enhance(syncTabs({ channel: 'dynamic', transport: createMemoryTransport('dynamic') }))
+      .build();
+    openTabs.push(tab);
+    return tab;
+  };
+  const first = openCounters({ x: 1, old: 1 });
+  first.actions.remove('old');
+  await tick(10);
+
+  const second = openCounters({ old: 9 });
+  await tick(10);
+  expect(second.getState()).toEqual({ x: 1 });
+
+  first.actions.set('y', 2);
+  second.actions.remove('x');
+  await tick(10);
+
+  expect(first.getState()).toEqual({ y: 2 });
+  expect(second.getState()).toEqual({ y: 2 });
+});
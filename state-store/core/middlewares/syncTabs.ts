@@ -0,0 +1,406 @@
+import { StoreEnhancer, StoreInternal } from '../types/internal/store.ts';
+import { createBroadcastChannelTransport, SyncTransport } from './syncTransport.ts';
+import { deleteKey } from '../deleteKey.ts';
+import { isServer } from '../../utils/env';
+import { ErrorBoundary, globalErrorBoundary } from '../../utils/errorBoundary';
+
+/**
+ * 리더 선출 옵션 인터페이스
+ */
+export interface LeaderElectionOptions {
+  /**
+   * 리더가 하트비트를 보내는 간격(ms). 3회 연속 하트비트가 없으면 다른 탭이 리더가 됩니다. (기본값: 1000)
+   */
+  heartbeatInterval?: number;
+}
+
+/**
+ * 탭 동기화 옵션 인터페이스
+ * @template TState 스토어 상태 타입
+ */
+export interface SyncTabsOptions<TState extends Record<string, any>> {
+  /**
+   * 동기화 채널 이름 (같은 이름을 사용하는 탭끼리 동기화)
+   */
+  channel: string;
+
+  /**
+   * 동기화할 상태 키 목록 (기본값: 모든 키)
+   * 전송 계층이 복제할 수 없는 값(함수 등)을 가진 키는 제외해야 합니다.
+   */
+  keys?: (keyof TState)[];
+
+  /**
+   * 부수 효과를 한 탭에서만 실행하기 위한 리더 탭 선출 여부 (기본값: false)
+   */
+  leaderElection?: boolean | LeaderElectionOptions;
+
+  /**
+   * 전송 계층 (기본값: BroadcastChannel)
+   */
+  transport?: SyncTransport;
+
+  /**
+   * 다른 탭의 변경을 적용하지 못했을 때 오류를 보고할 오류 경계 (기본값: 전역 오류 경계)
+   */
+  errorBoundary?: ErrorBoundary;
+}
+
+/**
+ * 구독 가능한 동기화 상태
+ */
+export interface SyncState {
+  tabId: string;
+  isLeader: boolean; // leaderElection을 사용하지 않으면 항상 false
+}
+
+/**
+ * syncTabs 인핸서가 스토어에 추가하는 확장 API
+ */
+export interface SyncTabsExtension {
+  /**
+   * 현재 탭의 동기화 상태 (변경 시에만 새 객체로 교체)
+   */
+  readonly syncState: SyncState;
+
+  /**
+   * 동기화 상태 변경을 구독합니다.
+   */
+  subscribeSyncState: (listener: () => void) => () => void;
+
+  /**
+   * 동기화를 중단하고 전송 계층을 닫습니다. 리더였다면 리더 자리를 내려놓습니다.
+   */
+  stopSync: () => void;
+}
+
+/**
+ * 탭 사이에 주고받는 메시지 타입
+ * deleteKey는 전송 계층에서 복제할 수 없으므로 제거된 키는 removedKeys 목록으로 전달합니다.
+ */
+type SyncMessage =
+  | { type: 'update'; source: string; state: Record<string, unknown>; removedKeys?: string[] }
+  | { type: 'snapshot-request'; source: string }
+  | { type: 'snapshot'; source: string; target: string; state: Record<string, unknown> }
+  | { type: 'heartbeat'; source: string; createdAt: number }
+  | { type: 'resign'; source: string };
+
+// 다른 탭의 변경을 적용할 때 디스패치되는 액션 타입
+const REMOTE_UPDATE_ACTION_TYPE = '[Sync] Remote Update';
+const DEFAULT_HEARTBEAT_INTERVAL = 1000;
+// 하트비트 없이 이 횟수만큼 간격이 지나면 리더가 없는 것으로 간주
+const LEADER_TIMEOUT_FACTOR = 3;
+
+/**
+ * 같은 출처의 여러 탭 사이에서 스토어 상태를 동기화하는 인핸서를 생성합니다.
+ * 변경된 최상위 키만 다른 탭에 전달하며, 다른 탭에서 받은 변경은 다시 전달하지 않습니다.
+ * 새로 열린 탭은 다른 탭에 전체 상태를 요청하여 따라잡습니다.
+ * dynamicKeys 옵션을 켠 스토어에서는 다른 탭에서 추가/제거된 키도 함께 반영합니다.
+ * 받은 변경은 meta.remote가 true인 상태 업데이트 액션으로 디스패치되므로 미들웨어와 DevTools에서 확인할 수 있습니다.
+ * 받은 변경을 적용하지 못하면 (스키마 검증 실패 등) 오류 경계로 보고하고, 이후 로컬 변경 전달의 기준 상태는 유지합니다.
+ *
+ * @template TState 스토어 상태 타입
+ * @param options 탭 동기화 옵션
+ * @returns 스토어 인핸서
+ *
+ * @example
+ * const chatStore = createStore<ChatState>()
+ *   .initialState({ identity: null, messages: [], draft: '' })
+ *   .enhance(syncTabs({ channel: 'chat', keys: ['identity', 'messages'], leaderElection: true }))
+ *   .build();
+ *
+ * // 소켓 연결은 리더 탭에서만 유지
+ * chatStore.subscribeSyncState(() => {
+ *   if (chatStore.syncState.isLeader) connectSocket();
+ *   else disconnectSocket();
+ * });
+ */
+export function syncTabs<TState extends Record<string, any>>(
+  options: SyncTabsOptions<TState>,
+): StoreEnhancer<TState, SyncTabsExtension> {
+  return (store: StoreInternal<TState>) => {
+    const { channel, keys, leaderElection = false, errorBoundary = globalErrorBoundary } = options;
+    const dynamicKeys = store._dynamicKeys;
+    const heartbeatInterval =
+      (typeof leaderElection === 'object' && leaderElection.heartbeatInterval) || DEFAULT_HEARTBEAT_INTERVAL;
+
+    const createdAt = Date.now();
+    const tabId = `${createdAt.toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+    const listeners = new Set<() => void>();
+    let syncState: SyncState = { tabId, isLeader: false };
+    let stopSync: () => void = () => undefined;
+
+    const extension: SyncTabsExtension = {
+      get syncState() {
+        return syncState;
+      },
+      subscribeSyncState: (listener: () => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      stopSync: () => stopSync(),
+    };
+
+    // 서버에서는 요청 간 상태가 섞이지 않도록 명시적인 전송 계층이 있을 때만 동기화
+    if (isServer && !options.transport) {
+      return extension;
+    }
+
+    const transport = options.transport ?? createBroadcastChannelTransport(channel);
+
+    // 마지막으로 다른 탭과 맞춘 상태 (이후 달라진 키만 전달)
+    let lastState = store.getState();
+    let snapshotReceived = false;
+    let lastHeartbeatAt = Date.now() - heartbeatInterval * (LEADER_TIMEOUT_FACTOR - 1);
+    let stopped = false;
+    // 뒤로/앞으로 캐시에 보관된 동안에는 메시지를 처리하지 않고 리더가 되지 않음
+    let suspended = false;
+
+    const setLeader = (isLeader: boolean) => {
+      if (syncState.isLeader === isLeader) return;
+
+      syncState = { tabId, isLeader };
+      listeners.forEach((listener) => listener());
+    };
+
+    const isSyncedKey = (stateKey: string) => !keys || keys.includes(stateKey);
+
+    const post = (message: SyncMessage) => {
+      try {
+        transport.postMessage(message);
+      } catch (error) {
+        console.error(`[syncTabs] Failed to post message to "${channel}":`, error);
+      }
+    };
+
+    // 동기화 대상 키만 추출
+    const pickSyncedState = (state: Readonly<TState>): Record<string, unknown> => {
+      const result: Record<string, unknown> = {};
+
+      for (const stateKey of Object.keys(state)) {
+        if (isSyncedKey(stateKey)) {
+          result[stateKey] = state[stateKey];
+        }
+      }
+
+      return result;
+    };
+
+    const applyRemoteState = (remoteState: Record<string, unknown>, removedKeys: string[] = []) => {
+      const currentState = store.getState();
+      const patch: Record<string, unknown> = {};
+
+      // 동기화 대상이 아닌 키와 (dynamicKeys 모드가 아니면) 이 스토어에 없는 키는 무시
+      for (const stateKey of Object.keys(remoteState)) {
+        if ((dynamicKeys || Object.hasOwn(currentState, stateKey)) && isSyncedKey(stateKey)) {
+          patch[stateKey] = remoteState[stateKey];
+        }
+      }
+
+      // 다른 탭에서 제거된 키는 dynamicKeys 모드에서만 제거
+      if (dynamicKeys) {
+        for (const stateKey of removedKeys) {
+          if (Object.hasOwn(currentState, stateKey) && isSyncedKey(stateKey)) {
+            patch[stateKey] = deleteKey;
+          }
+        }
+      }
+
+      if (Object.keys(patch).length === 0) return;
+
+      // 받은 변경은 다시 전달하지 않도록 먼저 기준 상태에 반영
+      const nextLastState: Record<string, unknown> = { ...lastState, ...patch };
+      for (const stateKey of removedKeys) {
+        if (patch[stateKey] === deleteKey) {
+          delete nextLastState[stateKey];
+        }
+      }
+      const previousLastState = lastState;
+      lastState = nextLastState as Readonly<TState>;
+
+      try {
+        store.dispatch({
+          type: REMOTE_UPDATE_ACTION_TYPE,
+          payload: patch,
+          meta: { isStateUpdate: true, remote: true },
+        });
+      } catch (error) {
+        // 적용되지 않은 변경은 기준 상태에서도 되돌려 이후 로컬 변경이 올바르게 전달되도록 함
+        if (lastState === nextLastState) {
+          lastState = previousLastState;
+        }
+        errorBoundary.report(error instanceof Error ? error : new Error(String(error)), {
+          actionType: REMOTE_UPDATE_ACTION_TYPE,
+        });
+      }
+    };
+
+    // 리더 선출: 가장 먼저 열린 탭이 우선
+    const isOlderThanThisTab = (otherCreatedAt: number, otherTabId: string) =>
+      otherCreatedAt < createdAt || (otherCreatedAt === createdAt && otherTabId < tabId);
+
+    const checkLeader = () => {
+      if (suspended) return;
+
+      if (syncState.isLeader) {
+        post({ type: 'heartbeat', source: tabId, createdAt });
+        return;
+      }
+
+      if (Date.now() - lastHeartbeatAt >= heartbeatInterval * LEADER_TIMEOUT_FACTOR) {
+        setLeader(true);
+        post({ type: 'heartbeat', source: tabId, createdAt });
+      }
+    };
+
+    const handleMessage = (data: unknown) => {
+      const message = data as SyncMessage;
+      if (stopped || suspended || !message || message.source === tabId) return;
+
+      switch (message.type) {
+        case 'update':
+          applyRemoteState(message.state, message.removedKeys);
+          break;
+        case 'snapshot-request':
+          // 리더를 선출하는 경우 리더만 응답하여 중복 응답을 줄임
+          if (!leaderElection || syncState.isLeader) {
+            post({
+              type: 'snapshot',
+              source: tabId,
+              target: message.source,
+              state: pickSyncedState(store.getState()),
+            });
+          }
+          break;
+        case 'snapshot':
+          // 가장 먼저 도착한 스냅샷만 적용
+          if (message.target === tabId && !snapshotReceived) {
+            snapshotReceived = true;
+            // 스냅샷에 없는 동기화 대상 키는 다른 탭에서 제거된 키로 간주
+            applyRemoteState(
+              message.state,
+              Object.keys(store.getState()).filter((stateKey) => !Object.hasOwn(message.state, stateKey)),
+            );
+          }
+          break;
+        case 'heartbeat':
+          if (!leaderElection) break;
+
+          if (syncState.isLeader) {
+            // 더 먼저 열린 탭이 리더를 주장하면 물러나고, 아니면 상대가 물러나기를 기다림
+            if (!isOlderThanThisTab(message.createdAt, message.source)) break;
+            setLeader(false);
+          }
+
+          lastHeartbeatAt = Date.now();
+          break;
+        case 'resign':
+          if (!leaderElection || syncState.isLeader) break;
+
+          lastHeartbeatAt = 0;
+          checkLeader();
+          break;
+      }
+    };
+
+    const unsubscribeTransport = transport.subscribe(handleMessage);
+
+    // 로컬 변경 중 동기화 대상 키만 다른 탭에 전달
+    const unsubscribeStore = store.subscribe(() => {
+      const state = store.getState();
+      const changed: Record<string, unknown> = {};
+      const removedKeys: string[] = [];
+
+      for (const stateKey of Object.keys(state)) {
+        if (isSyncedKey(stateKey) && state[stateKey] !== lastState[stateKey]) {
+          changed[stateKey] = state[stateKey];
+        }
+      }
+
+      // dynamicKeys 모드에서 제거된 키는 기준 상태와 비교하여 찾음
+      for (const stateKey of Object.keys(lastState)) {
+        if (isSyncedKey(stateKey) && !Object.hasOwn(state, stateKey)) {
+          removedKeys.push(stateKey);
+        }
+      }
+
+      lastState = state;
+
+      if (Object.keys(changed).length > 0 || removedKeys.length > 0) {
+        post({
+          type: 'update',
+          source: tabId,
+          state: changed,
+          ...(removedKeys.length > 0 && { removedKeys }),
+        });
+      }
+    });
+
+    const heartbeatTimer = leaderElection ? setInterval(checkLeader, heartbeatInterval) : null;
+
+    stopSync = () => {
+      if (stopped) return;
+
+      if (syncState.isLeader) {
+        post({ type: 'resign', source: tabId });
+      }
+
+      stopped = true;
+
+      if (heartbeatTimer !== null) {
+        clearInterval(heartbeatTimer);
+      }
+
+      unsubscribeStore();
+      unsubscribeTransport();
+      transport.close();
+      setLeader(false);
+
+      if (!isServer) {
+        window.removeEventListener('pagehide', handlePageHide);
+        window.removeEventListener('pageshow', handlePageShow);
+      }
+    };
+
+    // 탭을 닫을 때 리더 자리를 바로 넘기도록 동기화 중단
+    // 뒤로/앞으로 캐시에 보관되는 페이지는 리더 자리만 넘기고 복원될 때 다시 동기화
+    const handlePageHide = (event: PageTransitionEvent) => {
+      if (!event.persisted) {
+        stopSync();
+        return;
+      }
+
+      if (syncState.isLeader) {
+        post({ type: 'resign', source: tabId });
+      }
+
+      suspended = true;
+      setLeader(false);
+    };
+
+    // 캐시에서 복원되면 보관된 동안 놓친 변경을 따라잡기 위해 현재 상태를 다시 요청
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (!event.persisted || !suspended || stopped) return;
+
+      suspended = false;
+      snapshotReceived = false;
+      lastHeartbeatAt = Date.now() - heartbeatInterval * (LEADER_TIMEOUT_FACTOR - 1);
+      post({ type: 'snapshot-request', source: tabId });
+    };
+
+    if (!isServer) {
+      window.addEventListener('pagehide', handlePageHide);
+      window.addEventListener('pageshow', handlePageShow);
+    }
+
+    // 스토어 해제 시 동기화 중단
+    store._addTeardown(stopSync);
+
+    // 늦게 열린 탭은 다른 탭의 현재 상태를 요청
+    post({ type: 'snapshot-request', source: tabId });
+
+    return extension;
+  };
+}
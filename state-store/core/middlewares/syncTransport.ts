@@ -0,0 +1,90 @@
+/**
+ * 탭 간 동기화 전송 계층 인터페이스
+ * BroadcastChannel과 같이 같은 채널의 다른 참여자에게만 메시지를 전달해야 합니다. (보낸 쪽에는 전달하지 않음)
+ */
+export interface SyncTransport {
+  postMessage: (message: unknown) => void;
+  subscribe: (listener: (message: unknown) => void) => () => void;
+  close: () => void;
+}
+
+// 메모리 채널 이름별 참여자 목록
+const memoryChannels = new Map<string, Set<(message: unknown) => void>>();
+
+/**
+ * 메모리 전송 계층을 생성합니다.
+ * 같은 채널 이름으로 생성된 전송 계층끼리 메시지를 주고받으므로, 테스트나 서버 환경에서
+ * 여러 탭을 한 프로세스 안에서 흉내 낼 때 사용합니다.
+ *
+ * @param channel 채널 이름
+ * @returns 메모리 전송 계층
+ */
+export function createMemoryTransport(channel: string): SyncTransport {
+  const listeners = new Set<(message: unknown) => void>();
+
+  const receive = (message: unknown) => {
+    // 실제 탭 간 통신처럼 비동기로 전달하고 참조를 공유하지 않도록 복제
+    const cloned = structuredClone(message);
+    queueMicrotask(() => listeners.forEach((listener) => listener(cloned)));
+  };
+
+  const peers = memoryChannels.get(channel) ?? new Set();
+  peers.add(receive);
+  memoryChannels.set(channel, peers);
+
+  return {
+    postMessage: (message) => {
+      peers.forEach((peer) => {
+        if (peer !== receive) peer(message);
+      });
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => {
+      listeners.clear();
+      peers.delete(receive);
+
+      if (peers.size === 0) {
+        memoryChannels.delete(channel);
+      }
+    },
+  };
+}
+
+/**
+ * BroadcastChannel 전송 계층을 생성합니다.
+ * BroadcastChannel을 사용할 수 없는 환경(서버, 구형 브라우저)에서는 메모리 전송 계층으로 대체합니다.
+ *
+ * @param channel 채널 이름
+ * @returns BroadcastChannel 전송 계층
+ */
+export function createBroadcastChannelTransport(channel: string): SyncTransport {
+  if (typeof BroadcastChannel === 'undefined') {
+    return createMemoryTransport(channel);
+  }
+
+  const broadcastChannel = new BroadcastChannel(channel);
+  const listeners = new Set<(message: unknown) => void>();
+
+  broadcastChannel.onmessage = (event: MessageEvent) => {
+    listeners.forEach((listener) => listener(event.data));
+  };
+
+  return {
+    postMessage: (message) => broadcastChannel.postMessage(message),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => {
+      listeners.clear();
+      broadcastChannel.close();
+    },
+  };
+}
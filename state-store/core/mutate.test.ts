@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from './createStore';
+import { isMutation, mutate } from './mutate';
+
+type Todo = { id: number; done: boolean };
+
+type TodoState = {
+  todos: Todo[];
+  filter: { query: string };
+};
+
+function createTodoStore() {
+  return createStore<TodoState>({ mode: 'server' })
+    .initialState({
+      todos: [
+        { id: 1, done: false },
+        { id: 2, done: false },
+      ],
+      filter: { query: '' },
+    })
+    .actions({
+      toggle: (id: number) =>
+        mutate<TodoState>((draft) => {
+          const todo = draft.todos.find((item) => item.id === id);
+          if (todo) todo.done = !todo.done;
+        }),
+      returnValue: () =>
+        mutate<TodoState>((draft) => {
+          draft.filter.query = 'a';
+          return { filter: { query: 'b' } } as unknown as void;
+        }),
+    })
+    .build();
+}
+
+test('isMutation recognizes mutate() results', () => {
+  expect(isMutation(mutate(() => {}))).toBe(true);
+  expect(isMutation({ todos: [] })).toBe(false);
+  expect(isMutation(null)).toBe(false);
+});
+
+test('applies draft changes with structural sharing', () => {
+  const store = createTodoStore();
+  const before = store.getState();
+
+  store.actions.toggle(2);
+
+  const after = store.getState();
+  expect(after.todos[1].done).toBe(true);
+  expect(after.todos[0]).toBe(before.todos[0]);
+  expect(after.filter).toBe(before.filter);
+});
+
+test('notifies only subscribers of the changed paths', () => {
+  const store = createTodoStore();
+  const changedTodo = jest.fn();
+  const untouchedTodo = jest.fn();
+  const filter = jest.fn();
+  store.subscribeState((state: TodoState) => state.todos[1].done, changedTodo);
+  store.subscribeState((state: TodoState) => state.todos[0].done, untouchedTodo);
+  store.subscribeState((state: TodoState) => state.filter.query, filter);
+
+  store.actions.toggle(2);
+
+  expect(changedTodo).toHaveBeenCalledWith(true, false);
+  expect(untouchedTodo).not.toHaveBeenCalled();
+  expect(filter).not.toHaveBeenCalled();
+});
+
+test('rejects recipes that return a value', () => {
+  const store = createTodoStore();
+
+  expect(() => store.actions.returnValue()).toThrow('must modify the draft');
+  expect(store.getState().filter.query).toBe('');
+});
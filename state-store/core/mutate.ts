@@ -0,0 +1,48 @@
+import { Draft } from '../utils/draft';
+
+// 드래프트 기반 상태 업데이트의 수정 함수를 담는 심볼
+export const MUTATE = Symbol('mutate');
+
+/**
+ * 드래프트 기반 상태 업데이트 타입
+ * 액션 결과로 반환하면 드래프트에 적용한 수정이 구조적 공유를 유지한 새 상태와 정확한 변경 경로로 반영됩니다.
+ * @template TState 스토어 상태 타입
+ */
+export interface MutationRecipe<TState> {
+  readonly [MUTATE]: (draft: Draft<TState>) => void;
+}
+
+/**
+ * 변경 가능한 드래프트를 직접 수정하는 상태 업데이트 함수를 정의합니다.
+ * 수정된 경로만 복사되며, 변경 경로는 구조 비교 없이 구독 트리에 바로 전달됩니다.
+ * 드래프트는 이 함수로 감싼 업데이트에만 만들어지며, 부분 상태를 반환하는 일반 상태 업데이트 함수는 드래프트 없이 실행됩니다.
+ *
+ * @template TState 스토어 상태 타입
+ * @param recipe 드래프트를 수정하는 함수 (반환값 없음)
+ * @returns 액션 결과로 반환할 수 있는 드래프트 기반 상태 업데이트
+ *
+ * @example
+ * createStore<TodoState>()
+ *   .initialState({ todos: [] })
+ *   .actions({
+ *     toggleTodo: (id: number) =>
+ *       mutate((draft) => {
+ *         const todo = draft.todos.find((item) => item.id === id);
+ *         if (todo) todo.completed = !todo.completed;
+ *       }),
+ *   })
+ *   .build();
+ */
+export function mutate<TState extends Record<string, any>>(
+  recipe: (draft: Draft<TState>) => void,
+): MutationRecipe<TState> {
+  return { [MUTATE]: recipe };
+}
+
+/**
+ * 액션 결과가 드래프트 기반 상태 업데이트인지 확인합니다.
+ * @param result 액션 결과
+ */
+export function isMutation<TState>(result: unknown): result is MutationRecipe<TState> {
+  return !!result && typeof result === 'object' && MUTATE in result;
+}
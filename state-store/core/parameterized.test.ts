@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from './createStore';
+import { parameterized } from './parameterized';
+
+type Todo = { id: number; title: string };
+
+type TodoState = {
+  todos: Todo[];
+  other: number;
+};
+
+function createTodoStore() {
+  const compute = jest.fn((state: TodoState, id: number) => state.todos.find((todo) => todo.id === id));
+  const store = createStore<TodoState>({ mode: 'server' })
+    .initialState({
+      todos: [
+        { id: 1, title: 'alpha' },
+        { id: 2, title: 'beta' },
+      ],
+      other: 0,
+    })
+    .computed({
+      count: (state: TodoState) => state.todos.length,
+      todoById: parameterized(compute),
+      search: parameterized((state: TodoState, query: string, limit: number) =>
+        state.todos.filter((todo) => todo.title.includes(query)).slice(0, limit),
+      ),
+    })
+    .actions({
+      add: (todo: Todo) => (state: TodoState) => ({ todos: [...state.todos, todo] }),
+      bump: () => (state: TodoState) => ({ other: state.other + 1 }),
+    })
+    .build();
+
+  return { store, compute };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+test('caches the result for each argument tuple', () => {
+  const { store, compute } = createTodoStore();
+
+  expect(store.computed.todoById(2)).toEqual({ id: 2, title: 'beta' });
+  expect(store.computed.todoById(2)).toBe(store.computed.todoById(2));
+  store.computed.todoById(1);
+
+  expect(compute).toHaveBeenCalledTimes(2);
+  expect(store.computed.search('a', 1)).toEqual([{ id: 1, title: 'alpha' }]);
+  expect(store.computed.search('a', 2)).toHaveLength(2);
+  expect(store.computed.count).toBe(2);
+});
+
+test('keeps cached entries when unrelated state changes', () => {
+  const { store, compute } = createTodoStore();
+  const todoById = store.computed.todoById;
+  store.computed.todoById(1);
+
+  store.actions.bump();
+
+  expect(store.computed.todoById).toBe(todoById);
+  expect(store.computed.todoById(1)?.title).toBe('alpha');
+  expect(compute).toHaveBeenCalledTimes(1);
+});
+
+test('recomputes entries whose dependencies changed', () => {
+  const { store, compute } = createTodoStore();
+  expect(store.computed.todoById(3)).toBeUndefined();
+
+  store.actions.add({ id: 3, title: 'gamma' });
+
+  expect(store.computed.todoById(3)?.title).toBe('gamma');
+  expect(compute).toHaveBeenCalledTimes(2);
+  expect(store.computed.count).toBe(3);
+});
@@ -0,0 +1,70 @@
+// 인자를 받는 계산된 값 정의를 표시하는 심볼
+export const PARAMETERIZED = Symbol('parameterized');
+
+/**
+ * 인자를 받는 계산 함수 타입
+ * @template TState 스토어 상태 타입
+ * @template TArgs 조회 인자 타입
+ * @template T 계산 결과 타입
+ */
+export type ParameterizedComputeFn<TState, TArgs extends unknown[], T> = (
+  state: Readonly<TState>,
+  ...args: TArgs
+) => T;
+
+/**
+ * 인자를 받는 계산된 값 정의 타입
+ * computed 정의에 그대로 넣을 수 있으며, store.computed[key]는 인자로 값을 조회하는 함수로 노출됩니다.
+ * @template TState 스토어 상태 타입
+ * @template TArgs 조회 인자 타입
+ * @template T 계산 결과 타입
+ */
+export type ParameterizedComputedDef<TState, TArgs extends unknown[], T> = ((
+  state: Readonly<TState>,
+) => (...args: TArgs) => T) & {
+  readonly [PARAMETERIZED]: ParameterizedComputeFn<TState, TArgs, T>;
+};
+
+/**
+ * 인자를 받는 계산된 값을 정의합니다.
+ * 인자 조합별로 결과를 캐시하며, 인자별로 읽은 상태가 바뀐 항목만 다시 계산합니다.
+ * 인자는 JSON.stringify로 캐시 키를 만들므로 직렬화 가능한 값이어야 합니다.
+ *
+ * @template TState 스토어 상태 타입
+ * @template TArgs 조회 인자 타입
+ * @template T 계산 결과 타입
+ * @param compute 상태와 조회 인자를 받아 결과를 반환하는 함수
+ * @returns computed 정의에 넣을 수 있는 인자를 받는 계산된 값 정의
+ *
+ * @example
+ * createStore<TodoState>()
+ *   .initialState({ todos: [] })
+ *   .computed({
+ *     todosByStatus: parameterized((state, completed: boolean) =>
+ *       state.todos.filter((todo) => todo.completed === completed),
+ *     ),
+ *   })
+ *   .build();
+ *
+ * todoStore.computed.todosByStatus(true);
+ */
+export function parameterized<TState extends Record<string, any>, TArgs extends unknown[], T>(
+  compute: ParameterizedComputeFn<TState, TArgs, T>,
+): ParameterizedComputedDef<TState, TArgs, T> {
+  const definition =
+    (state: Readonly<TState>) =>
+    (...args: TArgs): T =>
+      compute(state, ...args);
+
+  return Object.assign(definition, { [PARAMETERIZED]: compute });
+}
+
+/**
+ * 계산된 값 정의가 인자를 받는 계산된 값인지 확인합니다.
+ * @param computedFn 계산된 값 정의
+ */
+export function isParameterized<TState, TArgs extends unknown[], T>(
+  computedFn: unknown,
+): computedFn is ParameterizedComputedDef<TState, TArgs, T> {
+  return typeof computedFn === 'function' && PARAMETERIZED in computedFn;
+}
@@ -8,6 +8,14 @@ export interface ActionMeta {
   originalActionType?: string;
   originalActionPayload?: NonNullable<unknown>[];
 
+  // 비동기 액션 생명주기 액션(`키/pending`, `키/fulfilled`, `키/rejected`) 정보
+  asyncAction?: string; // 비동기 액션 키
+  phase?: 'pending' | 'fulfilled' | 'rejected';
+  requestId?: string;
+  args?: unknown[]; // 액션 함수에 전달된 인자
+  startedAt?: number; // 요청 시작 시각 (ms)
+  duration?: number; // 요청 시작부터 끝날 때까지 걸린 시간(ms), 끝난 요청에만 포함
+
   [key: string]: unknown;
 }
 
@@ -50,8 +58,18 @@ export type ActionsApi<
   ) => StoreInternal<TState, TComputed, TActions, TAsyncActions>;
 };
 
+/**
+ * 비동기 액션 호출 결과 타입 - abort()로 해당 요청을 취소할 수 있는 Promise
+ * @template TResult 결과 타입
+ */
+export type AsyncActionPromise<TResult> = Promise<TResult> & {
+  abort: (reason?: unknown) => void;
+};
+
 /**
  * 비동기 액션 API 타입
+ * 각 액션은 해당 키의 진행 중인 요청을 모두 취소하는 cancel()과
+ * 캐시 항목을 무효화하는 invalidate()를 제공합니다. (invalidate는 cache 옵션을 지정한 액션에서만 동작)
  * @template TState 스토어 상태 타입
  * @template TAsyncActions 비동기 액션 정의 타입
  */
@@ -59,7 +77,10 @@ export type AsyncActionsApi<
   TState extends Record<string, NonNullable<unknown>>,
   TAsyncActions extends AsyncActionsDef<TState>,
 > = {
-  [K in keyof TAsyncActions]: (
+  [K in keyof TAsyncActions]: ((
     ...args: Parameters<TAsyncActions[K]>
-  ) => Promise<AsyncResult<Partial<TState>>>;
+  ) => AsyncActionPromise<AsyncResult<Partial<TState>>>) & {
+    cancel: (reason?: unknown) => void;
+    invalidate: (target?: string | ((args: Parameters<TAsyncActions[K]>, key: string) => boolean)) => void;
+  };
 };
@@ -0,0 +1,46 @@
+import { StoreInternalMethods } from './store.ts';
+
+/**
+ * 스토어 패밀리가 관리할 수 있는 스토어 타입 (제거 시 해제할 수 있어야 함)
+ */
+export type FamilyStore = Pick<StoreInternalMethods<any>, 'destroy'>;
+
+/**
+ * 키로 스토어 인스턴스를 생성하는 함수 타입
+ * 스토어 빌더를 반환하면 build()를 호출하여 인스턴스를 생성합니다.
+ * @template TKey 인스턴스 키 타입
+ * @template TStore 스토어 인스턴스 타입
+ */
+export type StoreFamilyFactory<TKey, TStore extends FamilyStore> = (
+  key: TKey,
+) => TStore | { build(): TStore };
+
+/**
+ * 스토어 패밀리 옵션 인터페이스
+ * @template TKey 인스턴스 키 타입
+ * @template TStore 스토어 인스턴스 타입
+ */
+export interface StoreFamilyOptions<TKey, TStore extends FamilyStore> {
+  /**
+   * 참조가 없는 인스턴스를 보관할 최대 개수 (기본값: 10)
+   * 넘치면 가장 오래 사용되지 않은 인스턴스부터 제거합니다.
+   */
+  maxIdle?: number;
+
+  /**
+   * 참조가 없는 인스턴스를 보관하는 시간(ms) (기본값: 제한 없음)
+   * 시간이 지난 인스턴스는 다음에 패밀리에 접근할 때 제거됩니다.
+   */
+  idleTime?: number;
+
+  /**
+   * 키를 인스턴스 식별 문자열로 변환하는 함수 (기본값: JSON 문자열)
+   */
+  hashKey?: (key: TKey) => string;
+
+  /**
+   * 인스턴스가 제거될 때 호출되는 함수
+   * 호출이 끝나면 인스턴스를 destroy()로 해제합니다. (비동기 작업 취소, 구독자 제거)
+   */
+  onEvict?: (store: TStore, key: TKey) => void;
+}
@@ -0,0 +1,241 @@
+import {
+  ActionResult,
+  ActionsDef,
+  AsyncActionsDef,
+  AsyncActionsOptions,
+  AsyncResult,
+  ComputedDef,
+} from '../public-types';
+import { AsyncActionsApi } from './action';
+import { AsyncState, ComputedState } from './state';
+import { IStoreConfigBuilder } from './store';
+
+/**
+ * 슬라이스 설정 인터페이스
+ * @template TState 슬라이스 상태 타입
+ * @template TComputed 계산된 속성 정의 타입
+ * @template TActions 액션 정의 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
+ */
+export interface SliceConfig<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+> {
+  initialState: TState;
+  computed: TComputed;
+  actions: TActions;
+  asyncActions: TAsyncActions;
+  asyncActionOptions: AsyncActionsOptions<TAsyncActions, TState>;
+}
+
+/**
+ * 슬라이스 정의 인터페이스 (createSlice로 생성)
+ */
+export interface SliceDef<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+> {
+  readonly config: SliceConfig<TState, TComputed, TActions, TAsyncActions>;
+}
+
+/**
+ * 이름별 슬라이스 정의 타입
+ */
+export type SlicesDef = Record<string, SliceDef<any, any, any, any>>;
+
+// 제네릭 타입이 제약 조건을 만족함을 알리는 헬퍼
+type Constrain<T, TConstraint> = T extends TConstraint ? T : never;
+
+// 유니온 타입을 교차 타입으로 변환하는 헬퍼
+type UnionToIntersection<U> = (U extends unknown ? (value: U) => void : never) extends (
+  value: infer I,
+) => void
+  ? I
+  : never;
+
+// 슬라이스별 정의를 'name/key' 키로 옮긴 뒤 하나의 객체 타입으로 합치는 헬퍼
+type Namespaced<
+  TSlices extends SlicesDef,
+  TDefs extends 'computed' | 'actions' | 'asyncActions',
+> = UnionToIntersection<
+  {
+    [N in keyof TSlices & string]: {
+      [K in keyof TSlices[N]['config'][TDefs] & string as `${N}/${K}`]: SliceDefMapper<
+        TSlices,
+        TDefs,
+        TSlices[N]['config'][TDefs][K]
+      >;
+    };
+  }[keyof TSlices & string]
+>;
+
+// 슬라이스 정의 함수 하나를 루트 상태 기준의 정의 함수 타입으로 변환
+type SliceDefMapper<
+  TSlices extends SlicesDef,
+  TDefs extends 'computed' | 'actions' | 'asyncActions',
+  TFn,
+> = TFn extends (...params: infer TParams) => infer TResult
+  ? TDefs extends 'computed'
+    ? (state: Readonly<CombinedState<TSlices>>) => TResult
+    : TDefs extends 'actions'
+    ? (...args: TParams) => ActionResult<CombinedState<TSlices>>
+    : (...args: TParams) => Promise<AsyncResult<CombinedState<TSlices>>>
+  : never;
+
+/**
+ * 슬라이스를 합친 루트 상태 타입 (슬라이스 이름 -> 슬라이스 상태)
+ * @template TSlices 이름별 슬라이스 정의 타입
+ */
+export type CombinedState<TSlices extends SlicesDef> = {
+  [N in keyof TSlices]: TSlices[N]['config']['initialState'];
+};
+
+/**
+ * 슬라이스의 계산된 속성을 'name/key' 키로 합친 루트 계산된 속성 정의 타입
+ * @template TSlices 이름별 슬라이스 정의 타입
+ */
+export type CombinedComputed<TSlices extends SlicesDef> = Namespaced<TSlices, 'computed'>;
+
+/**
+ * 슬라이스의 액션을 'name/key' 키로 합친 루트 액션 정의 타입
+ * @template TSlices 이름별 슬라이스 정의 타입
+ */
+export type CombinedActions<TSlices extends SlicesDef> = Namespaced<TSlices, 'actions'>;
+
+/**
+ * 슬라이스의 비동기 액션을 'name/key' 키로 합친 루트 비동기 액션 정의 타입
+ * @template TSlices 이름별 슬라이스 정의 타입
+ */
+export type CombinedAsyncActions<TSlices extends SlicesDef> = Namespaced<TSlices, 'asyncActions'>;
+
+/**
+ * 루트 스토어에 설정되는 계산된 속성 정의 타입 (슬라이스 계산된 속성 + 루트 계산된 속성)
+ * @template TSlices 이름별 슬라이스 정의 타입
+ * @template TComputed 슬라이스를 가로지르는 계산된 속성 정의 타입
+ */
+export type CombinedComputedDef<
+  TSlices extends SlicesDef,
+  TComputed extends ComputedDef<CombinedState<TSlices>> = NonNullable<unknown>,
+> = Constrain<CombinedComputed<TSlices> & TComputed, ComputedDef<CombinedState<TSlices>>>;
+
+/**
+ * 루트 스토어에 설정되는 액션 정의 타입
+ * @template TSlices 이름별 슬라이스 정의 타입
+ */
+export type CombinedActionsDef<TSlices extends SlicesDef> = Constrain<
+  CombinedActions<TSlices>,
+  ActionsDef<CombinedState<TSlices>>
+>;
+
+/**
+ * 루트 스토어에 설정되는 비동기 액션 정의 타입
+ * @template TSlices 이름별 슬라이스 정의 타입
+ */
+export type CombinedAsyncActionsDef<TSlices extends SlicesDef> = Constrain<
+  CombinedAsyncActions<TSlices>,
+  AsyncActionsDef<CombinedState<TSlices>>
+>;
+
+/**
+ * 루트 스토어에서 개별 슬라이스를 다루는 API
+ * @template TState 슬라이스 상태 타입
+ * @template TComputed 계산된 속성 정의 타입
+ * @template TActions 액션 정의 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
+ */
+export interface SliceApi<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+> {
+  /**
+   * 현재 슬라이스 상태를 반환합니다.
+   */
+  getState(): Readonly<TState>;
+
+  /**
+   * 슬라이스 상태 변경을 구독합니다.
+   * @param listener 슬라이스 상태가 바뀌면 호출될 리스너
+   * @returns 구독 해제 함수
+   */
+  subscribe(listener: (state: Readonly<TState>, oldState: Readonly<TState> | undefined) => void): () => void;
+
+  /**
+   * 슬라이스의 계산된 값
+   */
+  readonly computed: ComputedState<TState, TComputed>;
+
+  /**
+   * 슬라이스의 액션 (루트 스토어의 'name/key' 액션으로 디스패치)
+   */
+  readonly actions: { [K in keyof TActions]: (...args: Parameters<TActions[K]>) => void };
+
+  /**
+   * 슬라이스의 비동기 액션 (성공 결과의 state는 슬라이스 상태)
+   */
+  readonly asyncActions: AsyncActionsApi<TState, TAsyncActions>;
+
+  /**
+   * 슬라이스의 비동기 액션 상태
+   */
+  readonly asyncState: { readonly [K in keyof TAsyncActions]: AsyncState };
+}
+
+/**
+ * combineStores가 루트 스토어에 추가하는 확장 API
+ * @template TSlices 이름별 슬라이스 정의 타입
+ */
+export interface CombinedStoresExtension<TSlices extends SlicesDef> {
+  /**
+   * 이름별 슬라이스 API
+   */
+  readonly slices: {
+    readonly [N in keyof TSlices]: SliceApi<
+      TSlices[N]['config']['initialState'],
+      TSlices[N]['config']['computed'],
+      TSlices[N]['config']['actions'],
+      TSlices[N]['config']['asyncActions']
+    >;
+  };
+}
+
+/**
+ * 루트 스토어 설정 빌더 타입
+ * 루트의 계산된 속성, 액션, 비동기 액션은 슬라이스로 정의하므로 다시 설정할 수 없습니다.
+ * @template TSlices 이름별 슬라이스 정의 타입
+ * @template TComputed 슬라이스를 가로지르는 계산된 속성 정의 타입
+ */
+export type CombinedStoreBuilder<
+  TSlices extends SlicesDef,
+  TComputed extends ComputedDef<CombinedState<TSlices>> = NonNullable<unknown>,
+> = Omit<
+  IStoreConfigBuilder<
+    CombinedState<TSlices>,
+    CombinedComputedDef<TSlices, TComputed>,
+    CombinedActionsDef<TSlices>,
+    CombinedAsyncActionsDef<TSlices>,
+    CombinedStoresExtension<TSlices>
+  >,
+  'computed' | 'actions' | 'asyncActions'
+>;
+
+/**
+ * combineStores가 반환하는 루트 스토어 설정 빌더 타입
+ * computed로 여러 슬라이스의 상태를 읽는 계산된 속성을 한 번 추가할 수 있습니다.
+ * @template TSlices 이름별 슬라이스 정의 타입
+ */
+export type CombinedStoreConfigBuilder<TSlices extends SlicesDef> = CombinedStoreBuilder<TSlices> & {
+  /**
+   * 루트 상태로 계산하는 계산된 속성을 설정합니다. (읽은 슬라이스 경로로 의존성을 추적)
+   * @param computedDefs 계산된 속성 정의 객체 (루트 상태를 받음)
+   * @returns 업데이트된 루트 스토어 설정 빌더
+   */
+  computed<NewComputed extends ComputedDef<CombinedState<TSlices>>>(
+    computedDefs: NewComputed,
+  ): CombinedStoreBuilder<TSlices, NewComputed>;
+};
@@ -7,10 +7,54 @@ export interface AsyncState {
   pending: boolean;
   error: Error | null;
   loaded: boolean;
+  pendingCount?: number; // 진행 중이거나 대기 중인 요청 수 (every, queue 정책에서 1보다 클 수 있음)
+  attempt?: number; // 마지막 요청의 시도 번호 (1부터 시작, 재시도할 때마다 증가)
+  cancelled?: boolean; // 마지막으로 끝난 요청이 호출자에 의해 취소되었는지 여부
+  revalidating?: boolean; // 캐시된 결과를 유지한 채 백그라운드에서 다시 가져오는 중인지 여부 (pending, loaded는 바뀌지 않음)
+}
+
+/**
+ * 비동기 액션 캐시 항목 상태 타입
+ * @template TData 캐시된 결과 타입
+ */
+export interface AsyncCacheState<TData = unknown> {
+  data: TData; // 마지막으로 성공한 요청의 결과 상태
+  updatedAt: number; // 결과를 받은 시각 (ms)
+  isStale: boolean; // staleTime이 지났거나 무효화되어 다음 호출 시 다시 가져와야 하는지 여부
+}
+
+/**
+ * 비동기 계산된 값 상태 타입
+ * 다시 계산하는 동안(pending)과 실패한 경우(error)에도 마지막으로 성공한 값을 유지합니다.
+ * @template T 계산 결과 타입
+ */
+export interface AsyncComputedValue<T = unknown> {
+  status: 'pending' | 'success' | 'error';
+  value: T | undefined; // 마지막으로 성공한 계산 결과 (없으면 initialValue)
+  error: Error | null;
+}
+
+/**
+ * 직렬화된 비동기 액션 상태 타입
+ * Error 객체는 JSON으로 전달할 수 없으므로 name과 message만 기록합니다.
+ */
+export interface DehydratedAsyncState {
+  error: { name: string; message: string } | null;
+  loaded: boolean;
+}
+
+/**
+ * 서버에서 클라이언트로 전달되는 스토어 상태 페이로드 타입
+ * @template TState 스토어 상태 타입
+ */
+export interface DehydratedState<TState extends Record<string, NonNullable<unknown>>> {
+  state: Partial<TState>;
+  asyncState?: Record<string, DehydratedAsyncState>;
 }
 
 /**
  * 계산된 상태 타입
+ * 인자를 받는 계산된 값(parameterized)은 인자로 값을 조회하는 함수로 노출됩니다.
  * @template TState 스토어 상태 타입
  * @template TComputed 계산된 속성 정의 타입
  */
@@ -1,6 +1,157 @@
 import { Action, ActionsApi, AsyncActionsApi } from './action.ts';
-import { ActionsDef, AsyncActionsDef, ComputedDef } from '../public-types.ts';
-import { AsyncState, ComputedState } from './state.ts';
+import { ActionsDef, AsyncActionsDef, AsyncActionsOptions, ComputedDef } from '../public-types.ts';
+import { AsyncCacheState, AsyncState, ComputedState, DehydratedState } from './state.ts';
+import { StateSchema, StateValidator } from '../../../utils/schema.ts';
+import { ErrorBoundary } from '../../../utils/errorBoundary';
+
+/**
+ * 스토어 직렬화 옵션 인터페이스
+ */
+export interface DehydrateOptions {
+  /**
+   * 비동기 액션 상태(error, loaded)를 함께 직렬화할지 여부 (기본값: true)
+   */
+  includeAsyncState?: boolean;
+}
+
+/**
+ * 경로 구독 옵션 인터페이스
+ */
+export interface PathSubscribeOptions {
+  /**
+   * 리스너의 우선순위 (높을수록 먼저 실행)
+   */
+  priority?: number;
+
+  /**
+   * 리스너 호출 제한 시간(ms)
+   */
+  throttle?: number;
+
+  /**
+   * 리스너 실행 중 오류 발생 시 처리할 함수
+   */
+  errorHandler?: (error: Error) => void;
+}
+
+/**
+ * 트랜잭션 옵션 인터페이스
+ */
+export interface TransactionOptions {
+  /**
+   * 미들웨어와 DevTools에 전달될 묶음 액션의 타입 (기본값: '[Transaction]')
+   */
+  name?: string;
+}
+
+/**
+ * 트랜잭션 핸들 인터페이스
+ * 비동기 트랜잭션에서 await 이후에 호출하는 액션을 트랜잭션에 포함할 때 사용합니다.
+ */
+export interface TransactionHandle {
+  /**
+   * 함수를 트랜잭션 안에서 동기적으로 실행합니다.
+   * 트랜잭션이 이미 끝난 뒤에 호출하면 오류를 던집니다.
+   * @param fn 실행할 함수
+   * @returns 함수의 반환값
+   */
+  run: <T>(fn: () => T) => T;
+}
+
+/**
+ * 상태 스키마 검증 옵션 인터페이스
+ */
+export interface SchemaOptions {
+  /**
+   * 검증 실패를 보고할 오류 경계 (기본값: 전역 오류 경계)
+   * 보고된 오류는 오류 경계의 onError로 전달됩니다.
+   */
+  errorBoundary?: ErrorBoundary;
+}
+
+/**
+ * 스토어 생명주기 훅 인터페이스
+ * 훅에서 발생한 오류는 콘솔에 기록되며 스토어 동작을 중단하지 않습니다.
+ * @template TStore 훅에 전달될 스토어 타입
+ */
+export interface StoreLifecycleHooks<TStore> {
+  /**
+   * 미들웨어, 인핸서, DevTools 적용까지 끝나 스토어가 만들어진 직후 호출
+   */
+  onInit?: (store: TStore) => void;
+
+  /**
+   * 구독자가 없다가 처음 생겼을 때 호출 (스토어 생성 중 인핸서가 등록한 구독은 세지 않음)
+   */
+  onFirstSubscribe?: (store: TStore) => void;
+
+  /**
+   * 마지막 구독자가 구독을 해제했을 때 호출
+   */
+  onLastUnsubscribe?: (store: TStore) => void;
+
+  /**
+   * destroy()로 스토어의 비동기 작업, 구독자, DevTools 연결을 모두 정리한 뒤 호출
+   */
+  onDestroy?: (store: TStore) => void;
+}
+
+/**
+ * 런타임 주입 설정 인터페이스
+ * 주입된 키는 스토어에 이미 정의된 키와 겹칠 수 없습니다.
+ * @template TState 스토어 상태 타입
+ * @template TComputed 주입할 계산된 속성 정의 타입
+ * @template TActions 주입할 액션 정의 타입
+ * @template TAsyncActions 주입할 비동기 액션 정의 타입
+ */
+export interface InjectConfig<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+> {
+  /**
+   * 주입 이름 (같은 이름으로 다시 주입하면 이전 주입을 해제한 뒤 주입)
+   */
+  name: string;
+  // 주입하지 않는 항목의 타입이 기본값({})으로 정해져도 함수 인자 타입을 추론할 수 있도록 정의 타입과 교차
+  computed?: TComputed & ComputedDef<TState>;
+  actions?: TActions & ActionsDef<TState>;
+  asyncActions?: TAsyncActions & AsyncActionsDef<TState>;
+  asyncActionOptions?: AsyncActionsOptions<TAsyncActions, TState>;
+
+  /**
+   * 빌더에서 적용한 미들웨어 안쪽에서 주입 순서대로 실행될 미들웨어
+   */
+  middleware?: Middleware<TState>[];
+}
+
+/**
+ * 런타임 주입 핸들 인터페이스 - 주입된 API를 타입과 함께 제공합니다.
+ * 주입된 계산된 값과 액션은 스토어의 computed, actions, asyncActions 네임스페이스에도 추가됩니다.
+ * @template TState 스토어 상태 타입
+ * @template TComputed 주입된 계산된 속성 정의 타입
+ * @template TActions 주입된 액션 정의 타입
+ * @template TAsyncActions 주입된 비동기 액션 정의 타입
+ */
+export interface InjectedHandle<
+  TState extends Record<string, NonNullable<unknown>>,
+  TComputed extends ComputedDef<TState>,
+  TActions extends ActionsDef<TState>,
+  TAsyncActions extends AsyncActionsDef<TState>,
+> {
+  readonly name: string;
+  readonly computed: ComputedState<TState, TComputed>;
+  readonly actions: ActionsApi<TState, TActions, TComputed, TAsyncActions>;
+  readonly asyncActions: AsyncActionsApi<TState, TAsyncActions>;
+  readonly asyncState: { [K in keyof TAsyncActions]: AsyncState };
+
+  /**
+   * 이 주입을 해제합니다. 같은 이름으로 다시 주입된 뒤에는 아무 동작도 하지 않습니다.
+   * @returns 해제 여부
+   */
+  eject: () => boolean;
+}
 
 /**
  * 스토어 내부 메서드 인터페이스
@@ -17,7 +168,29 @@ export interface StoreInternalMethods<TState extends Record<string, NonNullable<
     selectors: { [K in keyof S]: (state: Readonly<TState>) => S[K] },
     listener: (values: S, oldValues?: S) => void,
   ) => () => void;
+  subscribePath: <T = unknown>(
+    path: string,
+    listener: (value: T, oldValue: T | undefined, path: string) => void,
+    options?: PathSubscribeOptions,
+  ) => () => void;
+  subscribeAsyncState: (listener: () => void) => () => void;
+  cancelAllAsync: (reason?: unknown) => void;
+  dehydrate: (options?: DehydrateOptions) => DehydratedState<TState>;
+  hydrate: (payload: DehydratedState<TState>) => void;
+  transaction: <R>(fn: (tx: TransactionHandle) => R, options?: TransactionOptions) => R;
+  destroy: () => void;
+  inject: <
+    TComputed extends ComputedDef<TState> = NonNullable<unknown>,
+    TActions extends ActionsDef<TState> = NonNullable<unknown>,
+    TAsyncActions extends AsyncActionsDef<TState> = NonNullable<unknown>,
+  >(
+    config: InjectConfig<TState, TComputed, TActions, TAsyncActions>,
+  ) => InjectedHandle<TState, TComputed, TActions, TAsyncActions>;
+  eject: (name: string) => boolean;
   _setState: (newState: Partial<TState>) => void;
+  _init: () => void;
+  _addTeardown: (teardown: () => void) => void;
+  _dynamicKeys: boolean;
   dispatch: (action: Action) => NonNullable<unknown>;
 }
 
@@ -34,6 +207,9 @@ export type StoreInternal<
   asyncState: {
     [K in keyof TAsyncActions]: AsyncState;
   };
+  asyncCache: {
+    [K in keyof TAsyncActions]: Record<string, AsyncCacheState<Partial<TState>>>;
+  };
 } & StoreInternalMethods<TState>;
 
 /**
@@ -44,6 +220,18 @@ export type Middleware<TState extends Record<string, NonNullable<unknown>>> = (
   store: StoreInternal<TState>,
 ) => (next: (action: Action) => NonNullable<unknown>) => (action: Action) => NonNullable<unknown>;
 
+/**
+ * 스토어 인핸서 타입
+ * 생성된 스토어를 받아 기능을 확장하고, 스토어에 추가될 확장 API 객체를 반환합니다.
+ * 반환된 객체의 속성(getter 포함)은 스토어에 그대로 정의됩니다.
+ * @template TState 스토어 상태 타입
+ * @template TExtension 스토어에 추가될 확장 API 타입
+ */
+export type StoreEnhancer<
+  TState extends Record<string, NonNullable<unknown>>,
+  TExtension = NonNullable<unknown>,
+> = (store: StoreInternal<TState>) => TExtension;
+
 /**
  * 스토어 설정 인터페이스
  * @template TState 스토어 상태 타입
@@ -61,6 +249,36 @@ export interface StoreConfig<
   computed?: TComputed;
   actions?: TActions;
   asyncActions?: TAsyncActions;
+  asyncActionOptions?: AsyncActionsOptions<TAsyncActions, TState>;
+  hydration?: DehydratedState<TState>;
+  enhancers?: StoreEnhancer<TState>[];
+  schema?: StateValidator<TState>;
+  schemaOptions?: SchemaOptions;
+  lifecycle?: StoreLifecycleHooks<StoreInternal<TState>>;
+  dynamicKeys?: boolean;
+}
+
+/**
+ * 스토어 빌더 옵션 인터페이스
+ */
+export interface StoreBuilderOptions {
+  /**
+   * 빌더 실행 모드 (기본값: 실행 환경에서 자동 감지)
+   * 테스트에서 서버/클라이언트 동작을 명시적으로 선택할 때 사용합니다.
+   */
+  mode?: 'server' | 'client';
+
+  /**
+   * 서버 모드에서도 미들웨어를 적용할지 여부 (기본값: false)
+   */
+  serverMiddleware?: boolean;
+
+  /**
+   * 초기 상태에 없는 키의 추가와 deleteKey를 사용한 키 제거를 허용할지 여부 (기본값: false)
+   * id를 키로 쓰는 맵 형태의 상태에 사용합니다. 끄면 초기 상태에 없는 키는 무시되며 개발 환경에서 경고를 출력합니다.
+   * 추가된 키는 store.키 속성으로는 노출되지 않으므로 getState()나 구독으로 읽습니다.
+   */
+  dynamicKeys?: boolean;
 }
 
 /**
@@ -75,7 +293,7 @@ export type Store<
   TComputed extends ComputedDef<TState> = NonNullable<unknown>,
   TActions extends ActionsDef<TState> = NonNullable<unknown>,
   TAsyncActions extends AsyncActionsDef<TState> = NonNullable<unknown>,
-> = Omit<StoreInternal<TState, TComputed, TActions, TAsyncActions>, '_setState'>;
+> = Omit<StoreInternal<TState, TComputed, TActions, TAsyncActions>, '_setState' | '_init' | '_addTeardown'>;
 
 /**
  * 스토어 빌더 인터페이스 - DevTools 설정 단계
@@ -85,8 +303,9 @@ export interface IStoreDevToolsBuilder<
   TComputed extends ComputedDef<TState>,
   TActions extends ActionsDef<TState>,
   TAsyncActions extends AsyncActionsDef<TState>,
+  TExtension = NonNullable<unknown>,
 > {
-  build(): Store<TState, TComputed, TActions, TAsyncActions>;
+  build(): Store<TState, TComputed, TActions, TAsyncActions> & TExtension;
 }
 
 /**
@@ -97,10 +316,11 @@ export interface IStoreMiddlewareBuilder<
   TComputed extends ComputedDef<TState>,
   TActions extends ActionsDef<TState>,
   TAsyncActions extends AsyncActionsDef<TState>,
+  TExtension = NonNullable<unknown>,
 > {
-  devTool(name: string): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions>;
+  devTool(name: string): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>;
 
-  build(): StoreInternal<TState, TComputed, TActions, TAsyncActions>;
+  build(): StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension;
 }
 
 /**
@@ -111,24 +331,43 @@ export interface IStoreConfigBuilder<
   TComputed extends ComputedDef<TState>,
   TActions extends ActionsDef<TState>,
   TAsyncActions extends AsyncActionsDef<TState>,
+  TExtension = NonNullable<unknown>,
 > {
   computed<NewComputed extends ComputedDef<TState>>(
     computedDefs: NewComputed,
-  ): IStoreConfigBuilder<TState, NewComputed, TActions, TAsyncActions>;
+  ): IStoreConfigBuilder<TState, NewComputed, TActions, TAsyncActions, TExtension>;
 
   actions<NewActions extends ActionsDef<TState>>(
     actionDefs: NewActions,
-  ): IStoreConfigBuilder<TState, TComputed, NewActions, TAsyncActions>;
+  ): IStoreConfigBuilder<TState, TComputed, NewActions, TAsyncActions, TExtension>;
 
   asyncActions<NewAsyncActions extends AsyncActionsDef<TState>>(
     asyncActionDefs: NewAsyncActions,
-  ): IStoreConfigBuilder<TState, TComputed, TActions, NewAsyncActions>;
+    options?: AsyncActionsOptions<NewAsyncActions, TState>,
+  ): IStoreConfigBuilder<TState, TComputed, TActions, NewAsyncActions, TExtension>;
+
+  hydrate(
+    payload: DehydratedState<TState>,
+  ): IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>;
+
+  schema(
+    schema: StateValidator<TState> | StateSchema<TState>,
+    options?: SchemaOptions,
+  ): IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>;
+
+  enhance<NewExtension extends NonNullable<unknown>>(
+    enhancer: StoreEnhancer<TState, NewExtension>,
+  ): IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension & NewExtension>;
+
+  lifecycle(
+    hooks: StoreLifecycleHooks<StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension>,
+  ): IStoreConfigBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>;
 
   middleware(
     middlewares: Middleware<TState>[],
-  ): IStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions>;
+  ): IStoreMiddlewareBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>;
 
-  devTool(name: string): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions>;
+  devTool(name: string): IStoreDevToolsBuilder<TState, TComputed, TActions, TAsyncActions, TExtension>;
 
-  build(): StoreInternal<TState, TComputed, TActions, TAsyncActions>;
+  build(): StoreInternal<TState, TComputed, TActions, TAsyncActions> & TExtension;
 }
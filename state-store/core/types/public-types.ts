@@ -1,5 +1,9 @@
+import { DeleteKey } from '../deleteKey.ts';
+import { MutationRecipe } from '../mutate';
+
 /**
  * 계산된 속성 정의 타입
+ * 인자를 받는 계산된 값은 parameterized()로 정의하며, store.computed.key(...args)로 읽습니다.
  * @template TState 스토어 상태 타입
  */
 export type ComputedDef<TState extends Record<string, any>> = Record<
@@ -9,9 +13,21 @@ export type ComputedDef<TState extends Record<string, any>> = Record<
 
 /**
  * 액션 결과 타입 - 부분 상태 또는 상태 업데이트 함수
+ * 상태 업데이트 함수는 현재 상태를 받아 부분 상태를 반환합니다.
+ * 드래프트를 직접 수정하려면 mutate()로 감싼 함수를 반환합니다.
+ * @template TState 스토어 상태 타입
+ */
+export type ActionResult<TState> =
+  | StateUpdate<TState>
+  | ((state: Readonly<TState>) => StateUpdate<TState>)
+  | MutationRecipe<TState>;
+
+/**
+ * 상태 업데이트 타입 - 부분 상태
+ * dynamicKeys 옵션을 켠 스토어에서는 값으로 deleteKey를 지정하여 키를 제거할 수 있습니다.
  * @template TState 스토어 상태 타입
  */
-export type ActionResult<TState> = Partial<TState> | ((state: Readonly<TState>) => Partial<TState>);
+export type StateUpdate<TState> = { [K in keyof TState]?: TState[K] | DeleteKey };
 
 /**
  * 액션 정의 타입
@@ -44,3 +60,154 @@ export type AsyncActionsDef<TState extends Record<string, any>> = Record<
   string,
   (...args: any[]) => Promise<AsyncResult<TState>>
 >;
+
+/**
+ * 비동기 액션 실행 컨텍스트
+ * 비동기 액션 함수의 마지막 인자로 전달됩니다.
+ * @template TState 스토어 상태 타입
+ */
+export interface AsyncActionContext<TState = any> {
+  /**
+   * 요청이 취소될 때(새 요청, cancel, 시간 초과) 중단되는 신호
+   */
+  signal: AbortSignal;
+
+  /**
+   * 고유 요청 ID
+   */
+  requestId: string;
+
+  /**
+   * 비동기 액션 키
+   */
+  key: string;
+
+  /**
+   * 진행 중인 낙관적 업데이트를 제외한 최신 확정 상태를 반환합니다.
+   * await 이후의 최신 상태를 바탕으로 결과 상태를 만들 때 사용합니다.
+   */
+  getState: () => Readonly<TState>;
+}
+
+/**
+ * 비동기 액션 동시 실행 정책
+ * - latest: 이전 진행 중인 요청을 취소하고 마지막 요청 결과만 반영 (기본값)
+ * - every: 모든 요청을 동시에 실행하고 각 결과를 반영
+ * - leading: 진행 중인 요청이 있으면 새 호출을 무시하고 진행 중인 요청의 결과를 반환
+ * - queue: 요청을 호출 순서대로 하나씩 실행
+ * - debounce: 마지막 호출 후 wait(ms) 동안 추가 호출이 없을 때 한 번만 실행
+ */
+export type AsyncActionPolicy = 'latest' | 'every' | 'leading' | 'queue' | { type: 'debounce'; wait: number };
+
+/**
+ * 비동기 액션 재시도 옵션
+ */
+export interface AsyncRetryOptions {
+  /**
+   * 최대 재시도 횟수 (첫 시도 제외)
+   */
+  attempts: number;
+
+  /**
+   * 재시도 간격 증가 방식 (기본값: 'exponential')
+   * - exponential: delay * 2^(시도 번호 - 1)
+   * - linear: delay * 시도 번호
+   */
+  backoff?: 'exponential' | 'linear';
+
+  /**
+   * 기준 재시도 간격(ms) (기본값: 1000)
+   */
+  delay?: number;
+
+  /**
+   * 재시도 간격을 0 ~ 계산된 간격 사이의 임의 값으로 분산할지 여부 (기본값: false)
+   */
+  jitter?: boolean;
+
+  /**
+   * 재시도할 오류인지 판별하는 함수 (기본값: 모든 오류 재시도)
+   */
+  retryIf?: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * 비동기 액션 결과 캐시 옵션
+ * 같은 인자로 호출된 결과를 캐시하고, 같은 인자의 동시 호출은 하나의 요청으로 합칩니다.
+ * @template TArgs 비동기 액션 인자 타입
+ */
+export interface AsyncCacheOptions<TArgs extends any[] = any[]> {
+  /**
+   * 결과를 최신으로 간주하는 시간(ms) (기본값: 0)
+   * 이 시간 안의 호출은 액션을 실행하지 않고 캐시 결과를 반환하며,
+   * 이후의 호출은 캐시 결과를 먼저 반환하고 백그라운드에서 다시 가져옵니다.
+   */
+  staleTime?: number;
+
+  /**
+   * 사용되지 않은 캐시 항목을 보관하는 시간(ms) (기본값: 300000)
+   */
+  cacheTime?: number;
+
+  /**
+   * 보관할 최대 캐시 항목 수. 넘치면 가장 오래 사용되지 않은 항목부터 제거합니다. (기본값: 100)
+   */
+  maxSize?: number;
+
+  /**
+   * 인자로 캐시 키를 만드는 함수 (기본값: 인자 배열의 JSON 문자열)
+   */
+  key?: (...args: TArgs) => string;
+}
+
+/**
+ * 개별 비동기 액션 옵션
+ * @template TState 스토어 상태 타입
+ * @template TArgs 비동기 액션 인자 타입
+ */
+export interface AsyncActionOptions<TState = any, TArgs extends any[] = any[]> {
+  /**
+   * 동시 실행 정책 (기본값: 'latest')
+   */
+  policy?: AsyncActionPolicy;
+
+  /**
+   * 시도별 제한 시간(ms). 초과하면 TimeoutError로 실패합니다. 0이면 제한 없음 (기본값: 60000)
+   */
+  timeout?: number;
+
+  /**
+   * 실패 시 재시도 옵션 (기본값: 재시도 없음)
+   */
+  retry?: AsyncRetryOptions;
+
+  /**
+   * 요청 시작 시 즉시 적용할 낙관적 상태 패치를 반환하는 함수
+   * 요청이 실패하면 되돌리고, 성공하면 제거한 뒤 result.state를 확정 상태에 반영합니다.
+   * 여러 요청이 겹치면 남은 패치는 확정 상태 위에 호출 순서대로 다시 계산됩니다.
+   */
+  optimistic?: (state: Readonly<TState>, ...args: TArgs) => Partial<TState>;
+
+  /**
+   * 성공 결과의 state를 적용 시점의 상태와 합쳐 실제로 반영할 패치를 반환하는 함수 (기본값: 결과를 그대로 반영)
+   * 결과가 중첩된 상태의 일부만 담고 있을 때 사용하며, 캐시된 결과를 다시 적용할 때도 호출됩니다.
+   */
+  mergeResult?: (state: Readonly<TState>, resultState: Partial<TState>) => Partial<TState>;
+
+  /**
+   * 인자별 결과 캐시 옵션 (지정하지 않으면 호출마다 실행)
+   */
+  cache?: AsyncCacheOptions<TArgs>;
+}
+
+/**
+ * 비동기 액션 키별 옵션 타입
+ * @template TAsyncActions 비동기 액션 정의 타입
+ * @template TState 스토어 상태 타입
+ */
+export type AsyncActionsOptions<TAsyncActions, TState = any> = {
+  [K in keyof TAsyncActions]?: AsyncActionOptions<
+    TState,
+    TAsyncActions[K] extends (...args: infer TArgs) => any ? TArgs : any[]
+  >;
+};
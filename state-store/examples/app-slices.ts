@@ -0,0 +1,117 @@
+import { createSlice } from '../core/createSlice';
+import { combineStores } from '../core/combineStores';
+import { mutate } from '../core/mutate';
+import { parameterized } from '../core/parameterized';
+import { createLogger } from '../core/middlewares/createLogger';
+
+// 인증 슬라이스 상태 타입 정의
+interface AuthState {
+  user: { id: number; name: string } | null;
+  token: string;
+}
+
+// 채팅 슬라이스 상태 타입 정의
+interface ChatState {
+  messages: { id: number; from: number; text: string; read: boolean }[];
+}
+
+// 설정 슬라이스 상태 타입 정의
+interface SettingsState {
+  theme: 'light' | 'dark';
+  notifications: boolean;
+}
+
+// 인증 슬라이스
+// 로그인한 사용자와 토큰을 관리합니다.
+const authSlice = createSlice<AuthState>()
+  .initialState({ user: null, token: '' })
+  .computed({
+    // 로그인 여부
+    isLoggedIn: (state) => state.user !== null,
+  })
+  .actions({
+    // 로그아웃
+    logout: () => ({ user: null, token: '' }),
+  })
+  .asyncActions({
+    // 로그인 요청 (성공 결과의 state는 인증 슬라이스의 부분 상태)
+    login: async (name: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      return { success: true, state: { user: { id: 1, name }, token: `token-${name}` } };
+    },
+  });
+
+// 채팅 슬라이스
+// 메시지 목록과 읽음 상태를 관리합니다.
+const chatSlice = createSlice<ChatState>()
+  .initialState({ messages: [] })
+  .computed({
+    // 읽지 않은 메시지 수
+    unreadCount: (state) => state.messages.filter((message) => !message.read).length,
+
+    // 보낸 사람별 메시지 (인자를 받는 계산된 값)
+    messagesFrom: parameterized((state, userId: number) =>
+      state.messages.filter((message) => message.from === userId),
+    ),
+  })
+  .actions({
+    // 메시지 수신 - 슬라이스 드래프트를 직접 수정
+    receive: (from: number, text: string) =>
+      mutate((draft) => {
+        draft.messages.push({ id: draft.messages.length + 1, from, text, read: false });
+      }),
+
+    // 모두 읽음 처리
+    markAllRead: () =>
+      mutate((draft) => {
+        draft.messages.forEach((message) => {
+          message.read = true;
+        });
+      }),
+  });
+
+// 설정 슬라이스
+const settingsSlice = createSlice<SettingsState>()
+  .initialState({ theme: 'light', notifications: true })
+  .actions({
+    // 테마 전환
+    toggleTheme: () => (state) => ({ theme: state.theme === 'light' ? 'dark' : 'light' }),
+  });
+
+// 앱 스토어 예제
+// 세 슬라이스를 하나의 루트 스토어로 합쳐 미들웨어 체인과 DevTools 인스턴스를 공유합니다.
+export const appStore = combineStores({ auth: authSlice, chat: chatSlice, settings: settingsSlice })
+  .computed({
+    // 여러 슬라이스를 읽는 계산된 값 - 읽은 경로(auth.user, chat.messages, settings.notifications)로 의존성 추적
+    badgeCount: (state) =>
+      state.auth.user && state.settings.notifications
+        ? state.chat.messages.filter((message) => !message.read).length
+        : 0,
+  })
+  .middleware([createLogger()])
+  .devTool('App Store')
+  .build();
+
+// 사용 예시
+const { auth, chat, settings } = appStore.slices;
+
+// 슬라이스 상태 구독
+const unsubscribeChat = chat.subscribe((state) => {
+  console.log('채팅 메시지 수:', state.messages.length);
+});
+
+auth.asyncActions.login('kim').then((result) => {
+  console.log('로그인 결과:', result.success, auth.computed.isLoggedIn);
+
+  // 슬라이스 액션은 루트 스토어의 'chat/receive' 액션으로 디스패치됨
+  chat.actions.receive(2, '안녕하세요');
+  chat.actions.receive(3, '반가워요');
+  console.log('배지 수:', appStore.computed.badgeCount); // 2
+  console.log('2번 사용자 메시지:', chat.computed.messagesFrom(2));
+
+  chat.actions.markAllRead();
+  settings.actions.toggleTheme();
+  console.log('루트 상태:', appStore.getState());
+
+  unsubscribeChat();
+});
@@ -1,6 +1,8 @@
 import { ActionResult, ActionsDef, ComputedDef } from '../core/types/public-types';
 import { createLogger } from '../core/middlewares/createLogger';
 import { createStore } from '../core/createStore';
+import { mutate } from '../core/mutate';
+import { history } from '../core/middlewares/history';
 
 // 검증 규칙 타입
 interface ValidationRule {
@@ -297,22 +299,13 @@ export const formStore = createStore<FormState>()
     },
 
     // 필드 터치 상태 설정
-    touchField: (field: keyof FormState['fields']) => (state: FormState) => {
-      const touchedField = {
-        ...state.fields[field],
-        touched: true,
-      };
+    touchField: (field: keyof FormState['fields']) =>
+      mutate((draft) => {
+        draft.fields[field].touched = true;
 
-      // 터치 시 해당 필드 재검증
-      const validatedField = validateField(touchedField, field as string, state);
-
-      return {
-        fields: {
-          ...state.fields,
-          [field]: validatedField,
-        },
-      };
-    },
+        // 터치 시 해당 필드 재검증
+        draft.fields[field] = validateField(draft.fields[field], field as string, draft);
+      }),
 
     // 모든 필드 터치 상태로 설정 (폼 제출 시)
     touchAllFields: () => (state: FormState) => {
@@ -470,6 +463,14 @@ export const formStore = createStore<FormState>()
       };
     },
   })
+  .enhance(
+    history({
+      limit: 50,
+      // 같은 필드의 연속 입력은 하나의 항목으로 묶어 되돌리기
+      groupBy: (action) =>
+        action.type === 'setField' ? `setField:${(action.meta?.args as string[])[0]}` : null,
+    }),
+  )
   .middleware([createLogger()])
   .devTool('Form Validation Example')
   .build();
@@ -482,6 +483,11 @@ formStore.actions.setField('email', 'john.doe@example.com');
 formStore.actions.setField('password', 'Password123');
 formStore.actions.setField('confirmPassword', 'Password123');
 
+// 입력 되돌리기/다시 실행
+formStore.undo(); // confirmPassword 입력 취소
+console.log(formStore.historyState.canRedo); // true
+formStore.redo();
+
 // 유효성 검사 결과 확인
 console.log(formStore.computed.isUsernameValid); // true
 console.log(formStore.computed.isEmailValid); // true
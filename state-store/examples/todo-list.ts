@@ -1,6 +1,9 @@
 import { ActionResult, ActionsDef, ComputedDef } from '../core/types/public-types';
 import { createLogger } from '../core/middlewares/createLogger';
 import { createStore } from '../core/createStore';
+import { mutate } from '../core/mutate';
+import { history } from '../core/middlewares/history';
+import { onAction } from '../core/middlewares/onAction';
 import { fx } from '@fxts/core';
 
 // Todo 아이템 타입
@@ -137,15 +140,19 @@ export const todoStore = createStore<TodoState>()
       todos: state.todos.filter((todo) => todo.id !== id),
     }),
 
-    // 할 일 내용 수정
-    updateTodoText: (id: number, text: string) => (state) => ({
-      todos: state.todos.map((todo) => (todo.id === id ? { ...todo, text: text.trim() } : todo)),
-    }),
+    // 할 일 내용 수정 (드래프트를 직접 수정)
+    updateTodoText: (id: number, text: string) =>
+      mutate((draft) => {
+        const todo = draft.todos.find((item) => item.id === id);
+        if (todo) todo.text = text.trim();
+      }),
 
-    // 할 일 완료 상태 토글
-    toggleTodo: (id: number) => (state) => ({
-      todos: state.todos.map((todo) => (todo.id === id ? { ...todo, completed: !todo.completed } : todo)),
-    }),
+    // 할 일 완료 상태 토글 (드래프트를 직접 수정)
+    toggleTodo: (id: number) =>
+      mutate((draft) => {
+        const todo = draft.todos.find((item) => item.id === id);
+        if (todo) todo.completed = !todo.completed;
+      }),
 
     // 모든 할 일 완료 상태 토글
     toggleAll: () => (state) => {
@@ -206,6 +213,8 @@ export const todoStore = createStore<TodoState>()
       return newState;
     },
   })
+  // 필터 변경은 되돌리기 대상에서 제외
+  .enhance(history({ limit: 100, filter: (action) => action.type !== 'setFilter' }))
   .middleware([createLogger()])
   .devTool('Todo List Example')
   .build();
@@ -225,6 +234,13 @@ const unsubscribeFilter = todoStore.subscribeState(
   },
 );
 
+// 액션 리스너 예제: 할 일이 연달아 추가되면 마지막 추가 후 0.5초 뒤에 한 번만 저장
+const stopAutoSave = onAction(todoStore, 'addTodo', async (action, api) => {
+  api.cancelActiveListeners();
+  await api.delay(500);
+  console.log(`"${action.args[0]}" 추가 후 저장:`, api.getState().todos);
+});
+
 // 할 일 추가
 todoStore.actions.addTodo('우유 사기');
 todoStore.actions.addTodo('이메일 확인하기');
@@ -258,6 +274,27 @@ console.log(todoStore.computed.allCompleted); // true
 todoStore.actions.clearCompleted();
 console.log(todoStore.computed.totalCount); // 0
 
+// 완료 항목 제거 되돌리기
+todoStore.undo();
+console.log(todoStore.computed.totalCount); // 3
+
+// 여러 작업을 하나의 히스토리 항목으로 묶기
+todoStore.groupHistory(() => {
+  todoStore.actions.addTodo('장보기');
+  todoStore.actions.toggleTodo(4);
+});
+todoStore.undo(); // 두 작업이 함께 취소됨
+
+// 여러 액션을 원자적으로 실행 (알림은 한 번만, 중간에 실패하면 전체 롤백)
+todoStore.transaction(
+  () => {
+    todoStore.actions.addTodo('우유 사기');
+    todoStore.actions.addTodo('빵 사기');
+    todoStore.actions.setFilter('active');
+  },
+  { name: 'addGroceries' },
+);
+
 const processBatchedTodos = async (todos: Todo[], concurrencyLimit = 3) => {
   // 각 할 일 항목을 비동기적으로 처리하는 예제 (실제로는 서버 API 호출 등을 수행)
   const processTodoAsync = async (todo: Todo): Promise<Todo> => {
@@ -293,3 +330,4 @@ processBatchedTodos(testTodos, 3).then((result) => console.log('처리 결과:',
 // 구독 해제
 unsubscribe();
 unsubscribeFilter();
+stopAutoSave();
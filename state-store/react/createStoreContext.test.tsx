@@ -0,0 +1,104 @@
+import { act, render, renderHook, waitFor } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
+import { createStore } from '../core/createStore';
+import { createStoreContext } from './createStoreContext';
+
+interface CounterState {
+  count: number;
+}
+
+function setup() {
+  const createInstance = jest.fn((initialData?: Partial<CounterState>) =>
+    createStore<CounterState>({ mode: 'client' })
+      .initialState({ count: 0, ...initialData })
+      .computed({
+        doubled: (state: CounterState) => state.count * 2,
+      })
+      .actions({
+        increment: () => (state: CounterState) => ({ count: state.count + 1 }),
+      })
+      .build(),
+  );
+
+  return { createInstance, ...createStoreContext(createInstance) };
+}
+
+test('StoreProvider creates the store once per mount with the initial data', () => {
+  const { createInstance, StoreProvider, useStore } = setup();
+
+  function Count() {
+    return <span>{useStore((state) => state.count)}</span>;
+  }
+
+  const { container, rerender } = render(
+    <StoreProvider initialData={{ count: 3 }}>
+      <Count />
+    </StoreProvider>,
+  );
+  rerender(
+    <StoreProvider initialData={{ count: 10 }}>
+      <Count />
+    </StoreProvider>,
+  );
+
+  expect(createInstance).toHaveBeenCalledTimes(1);
+  expect(container.textContent).toBe('3');
+});
+
+test('bound hooks read and update the provided store', async () => {
+  const { StoreProvider, useStore, useComputed, useActions } = setup();
+  const { result } = renderHook(
+    () => ({
+      count: useStore((state) => state.count),
+      doubled: useComputed('doubled'),
+      actions: useActions(),
+    }),
+    { wrapper: ({ children }) => <StoreProvider>{children}</StoreProvider> },
+  );
+
+  act(() => {
+    result.current.actions.increment();
+  });
+
+  await waitFor(() => expect(result.current.count).toBe(1));
+  expect(result.current.doubled).toBe(2);
+});
+
+test('StoreProvider uses a given store instead of calling the factory', () => {
+  const { createInstance, StoreProvider, useStoreInstance } = setup();
+  const store = createInstance({ count: 7 });
+  createInstance.mockClear();
+
+  const { result } = renderHook(() => useStoreInstance(), {
+    wrapper: ({ children }) => <StoreProvider store={store}>{children}</StoreProvider>,
+  });
+
+  expect(result.current).toBe(store);
+  expect(createInstance).not.toHaveBeenCalled();
+});
+
+test('each server render gets its own store', () => {
+  const { createInstance, StoreProvider, useStore } = setup();
+
+  function Count() {
+    return <span>{useStore((state) => state.count)}</span>;
+  }
+
+  const markup = [1, 2].map((count) =>
+    renderToString(
+      <StoreProvider initialData={{ count }}>
+        <Count />
+      </StoreProvider>,
+    ),
+  );
+
+  expect(createInstance).toHaveBeenCalledTimes(2);
+  expect(markup).toEqual(['<span>1</span>', '<span>2</span>']);
+});
+
+test('hooks throw outside of a StoreProvider', () => {
+  const { useStoreInstance } = setup();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  expect(() => renderHook(() => useStoreInstance())).toThrow('must be used within a StoreProvider');
+});
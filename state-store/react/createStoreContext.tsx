@@ -0,0 +1,90 @@
+import { createContext, ReactNode, useContext, useState } from 'react';
+import { AsyncState } from '../core/types/internal/state.ts';
+import { StoreInternalMethods } from '../core/types/internal/store.ts';
+import { EqualityFn, useActions, useAsyncState, useComputed, useStore } from './hooks.ts';
+
+/**
+ * 컨텍스트로 공유할 수 있는 스토어의 최소 형태
+ */
+type ContextStore = Pick<StoreInternalMethods<any>, 'getState' | 'subscribe' | 'subscribeState' | 'subscribeAsyncState'> & {
+  computed: Record<string, unknown>;
+  actions: unknown;
+  asyncState: Record<string, AsyncState>;
+};
+
+/**
+ * StoreProvider 속성 타입
+ * @template TStore 스토어 타입
+ */
+export interface StoreProviderProps<TStore extends ContextStore> {
+  children?: ReactNode;
+  /**
+   * 스토어 생성 시 초기 상태에 병합될 데이터 (최초 마운트 시에만 사용)
+   */
+  initialData?: Partial<ReturnType<TStore['getState']>>;
+  /**
+   * 이미 생성된 스토어 인스턴스 (지정 시 팩토리를 호출하지 않음)
+   */
+  store?: TStore;
+}
+
+/**
+ * 스토어 컨텍스트 API를 생성합니다.
+ * StoreProvider가 마운트될 때(서버에서는 요청마다 렌더링될 때) 팩토리를 한 번 호출하여 스토어를 생성하므로
+ * 모듈 수준 싱글톤 없이 렌더 트리 전체에서 하나의 인스턴스를 공유할 수 있습니다.
+ *
+ * @template TStore 스토어 타입
+ * @param createInstance 초기 데이터를 받아 스토어 인스턴스를 생성하는 함수
+ * @returns Provider 컴포넌트와 컨텍스트에 바인딩된 훅 모음
+ *
+ * @example
+ * const { StoreProvider, useStore, useActions } = createStoreContext((initialData?: Partial<AppState>) =>
+ *   createStore<AppState>()
+ *     .initialState({ count: 0, user: null, ...initialData })
+ *     .build(),
+ * );
+ *
+ * // 서버 측 렌더링 (요청마다 새 스토어)
+ * renderToString(<StoreProvider initialData={{ user: req.user }}><App /></StoreProvider>);
+ */
+export function createStoreContext<TStore extends ContextStore>(
+  createInstance: (initialData?: Partial<ReturnType<TStore['getState']>>) => TStore,
+) {
+  type TState = ReturnType<TStore['getState']>;
+
+  const StoreContext = createContext<TStore | null>(null);
+
+  /**
+   * 하위 트리에 스토어를 제공하는 컴포넌트
+   */
+  function StoreProvider({ children, initialData, store }: StoreProviderProps<TStore>) {
+    // 마운트(또는 서버 렌더링 요청)당 한 번만 지연 생성
+    const [instance] = useState<TStore>(() => store ?? createInstance(initialData));
+
+    return <StoreContext.Provider value={instance}>{children}</StoreContext.Provider>;
+  }
+
+  /**
+   * 컨텍스트의 스토어 인스턴스를 반환합니다.
+   * @throws StoreProvider 외부에서 호출된 경우
+   */
+  function useStoreInstance(): TStore {
+    const store = useContext(StoreContext);
+    if (!store) {
+      throw new Error('[StoreContext] useStoreInstance must be used within a StoreProvider');
+    }
+    return store;
+  }
+
+  return {
+    StoreProvider,
+    useStoreInstance,
+    useStore: <T,>(selector: (state: TState) => T, equalityFn?: EqualityFn<T>): T =>
+      useStore(useStoreInstance(), selector, equalityFn),
+    useComputed: <K extends keyof TStore['computed']>(key: K): TStore['computed'][K] =>
+      useComputed(useStoreInstance(), key),
+    useActions: (): TStore['actions'] => useActions(useStoreInstance()),
+    useAsyncState: <K extends keyof TStore['asyncState']>(key: K): AsyncState =>
+      useAsyncState(useStoreInstance(), key),
+  };
+}
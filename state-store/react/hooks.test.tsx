@@ -0,0 +1,106 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { createStore } from '../core/createStore';
+import { useActions, useAsyncState, useComputed, useStore } from './hooks';
+
+interface CounterState {
+  count: number;
+  label: string;
+}
+
+function createCounterStore() {
+  return createStore<CounterState>({ mode: 'client' })
+    .initialState({ count: 0, label: 'counter' })
+    .computed({
+      doubled: (state: CounterState) => state.count * 2,
+    })
+    .actions({
+      increment: () => (state: CounterState) => ({ count: state.count + 1 }),
+      rename: (label: string) => () => ({ label }),
+    })
+    .asyncActions({
+      load: async (count: number) => ({ success: true as const, state: { count } }),
+    })
+    .build();
+}
+
+const selectCount = (state: CounterState) => state.count;
+
+test('useStore returns the selected value and updates when it changes', async () => {
+  const store = createCounterStore();
+  const { result } = renderHook(() => useStore(store, selectCount));
+
+  expect(result.current).toBe(0);
+
+  act(() => {
+    store.actions.increment();
+  });
+
+  await waitFor(() => expect(result.current).toBe(1));
+});
+
+test('useStore does not re-render when an unrelated key changes', async () => {
+  const store = createCounterStore();
+  let hookRuns = 0;
+  renderHook(() => {
+    hookRuns += 1;
+    return useStore(store, selectCount);
+  });
+  const { result: labelResult } = renderHook(() => useStore(store, (state: CounterState) => state.label));
+  const runsBefore = hookRuns;
+
+  act(() => {
+    store.actions.rename('renamed');
+  });
+
+  await waitFor(() => expect(labelResult.current).toBe('renamed'));
+  expect(hookRuns).toBe(runsBefore);
+});
+
+test('useStore keeps the previous reference for equal selections', async () => {
+  const store = createCounterStore();
+  const selectSummary = (state: CounterState) => ({ even: state.count % 2 === 0 });
+  const { result } = renderHook(() => useStore(store, selectSummary));
+  const first = result.current;
+
+  act(() => {
+    store.actions.increment();
+    store.actions.increment();
+  });
+
+  await waitFor(() => expect(store.getState().count).toBe(2));
+  expect(result.current).toBe(first);
+});
+
+test('useComputed follows the computed value', async () => {
+  const store = createCounterStore();
+  const { result } = renderHook(() => useComputed(store, 'doubled'));
+
+  expect(result.current).toBe(0);
+
+  act(() => {
+    store.actions.increment();
+  });
+
+  await waitFor(() => expect(result.current).toBe(2));
+});
+
+test('useActions returns the store actions', () => {
+  const store = createCounterStore();
+  const { result } = renderHook(() => useActions(store));
+
+  expect(result.current).toBe(store.actions);
+});
+
+test('useAsyncState reports the async action status', async () => {
+  const store = createCounterStore();
+  const { result } = renderHook(() => useAsyncState(store, 'load'));
+
+  expect(result.current.pending).toBe(false);
+
+  await act(async () => {
+    await store.asyncActions.load(5);
+  });
+
+  await waitFor(() => expect(result.current.loaded).toBe(true));
+  expect(store.getState().count).toBe(5);
+});
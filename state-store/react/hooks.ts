@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { AsyncState } from '../core/types/internal/state.ts';
+import { StoreInternalMethods } from '../core/types/internal/store.ts';
+import { deepEqual } from '../utils/compare';
+
+/**
+ * 선택자 구독에 필요한 최소 스토어 형태
+ */
+type SelectableStore = Pick<StoreInternalMethods<any>, 'getState' | 'subscribeState'>;
+
+/**
+ * 선택된 값 비교 함수 타입
+ */
+export type EqualityFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * 스토어 상태의 일부를 선택하여 구독합니다.
+ * 선택된 값이 equalityFn 기준으로 변경되지 않으면 리렌더링하지 않습니다.
+ *
+ * 선택자는 의존성 추적에 사용되므로 컴포넌트 외부에 정의하거나 useCallback으로 고정하는 것을 권장합니다.
+ *
+ * @template TStore 스토어 타입
+ * @template T 선택된 값 타입
+ * @param store 구독할 스토어
+ * @param selector 상태에서 관심 있는 부분을 선택하는 함수
+ * @param equalityFn 이전 값과 새 값을 비교하는 함수 (기본값: deepEqual)
+ * @returns 선택된 값
+ */
+export function useStore<TStore extends SelectableStore, T>(
+  store: TStore,
+  selector: (state: ReturnType<TStore['getState']>) => T,
+  equalityFn: EqualityFn<T> = deepEqual,
+): T {
+  // 마지막으로 커밋된 선택 결과 (동일한 값이면 같은 참조를 반환하기 위함)
+  const selectionRef = useRef<{ value: T } | null>(null);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => store.subscribeState(selector as (state: Readonly<any>) => T, () => onStoreChange()),
+    [store, selector],
+  );
+
+  const getSnapshot = useMemo(() => {
+    // 렌더링 단위로 마지막 선택 결과를 기억하여 getSnapshot이 항상 안정적인 참조를 반환하도록 함
+    let memoized: { value: T } | null = selectionRef.current;
+
+    return () => {
+      const nextValue = selector(store.getState() as ReturnType<TStore['getState']>);
+
+      if (memoized && equalityFn(memoized.value, nextValue)) {
+        return memoized.value;
+      }
+
+      memoized = { value: nextValue };
+      return nextValue;
+    };
+  }, [store, selector, equalityFn]);
+
+  const value = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  // 커밋된 값만 기록하여 동시성 렌더링에서 버려진 렌더의 결과가 남지 않도록 함
+  useEffect(() => {
+    selectionRef.current = { value };
+  }, [value]);
+
+  return value;
+}
+
+/**
+ * 계산된 속성을 구독합니다.
+ * 계산된 값은 변경 시에만 새 참조로 교체되므로 값이 같으면 리렌더링하지 않습니다.
+ *
+ * @template TStore 스토어 타입
+ * @template K 계산된 속성 키
+ * @param store 구독할 스토어
+ * @param key 계산된 속성의 키
+ * @returns 계산된 값
+ */
+export function useComputed<
+  TStore extends Pick<StoreInternalMethods<any>, 'subscribe'> & { computed: Record<string, unknown> },
+  K extends keyof TStore['computed'],
+>(store: TStore, key: K): TStore['computed'][K] {
+  const getSnapshot = useCallback(() => store.computed[key as string], [store, key]) as () => TStore['computed'][K];
+
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * 스토어의 액션 API를 반환합니다.
+ * 액션 네임스페이스는 스토어 생성 시 고정되므로 구독 없이 안정적인 참조를 반환합니다.
+ *
+ * @template TStore 스토어 타입
+ * @param store 액션을 가져올 스토어
+ * @returns 액션 API 객체
+ */
+export function useActions<TStore extends { actions: unknown }>(store: TStore): TStore['actions'] {
+  return store.actions;
+}
+
+/**
+ * 비동기 액션의 상태(pending, error, loaded)를 구독합니다.
+ *
+ * @template TStore 스토어 타입
+ * @template K 비동기 액션 키
+ * @param store 구독할 스토어
+ * @param key 비동기 액션의 키
+ * @returns 비동기 액션 상태
+ */
+export function useAsyncState<
+  TStore extends Pick<StoreInternalMethods<any>, 'subscribeAsyncState'> & {
+    asyncState: Record<string, AsyncState>;
+  },
+  K extends keyof TStore['asyncState'],
+>(store: TStore, key: K): AsyncState {
+  const getSnapshot = useCallback(() => store.asyncState[key as string], [store, key]) as () => AsyncState;
+
+  return useSyncExternalStore(store.subscribeAsyncState, getSnapshot, getSnapshot);
+}
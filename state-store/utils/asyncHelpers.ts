@@ -1,4 +1,4 @@
-import { AsyncResult } from '../core/types/public-types';
+import { AsyncActionPolicy, AsyncResult } from '../core/types/public-types';
 import { AsyncState } from '../core/types/internal/state';
 
 /**
@@ -33,6 +33,22 @@ export function getAsyncStatus(asyncState: AsyncState) {
   };
 }
 
+/**
+ * 비동기 액션의 debounce 실행 정책을 생성합니다.
+ * 마지막 호출 후 wait(ms) 동안 추가 호출이 없을 때 마지막 인자로 한 번만 실행됩니다.
+ *
+ * @param wait 대기 시간(ms)
+ * @returns debounce 정책
+ *
+ * @example
+ * createStore<SearchState>()
+ *   .initialState({ results: [] })
+ *   .asyncActions({ search }, { search: { policy: debounce(300) } });
+ */
+export function debounce(wait: number): Extract<AsyncActionPolicy, { type: 'debounce' }> {
+  return { type: 'debounce', wait };
+}
+
 /**
  * 여러 비동기 액션을 순차적으로 실행하는 헬퍼 함수
  *
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+import { isDraft, produceWithPaths } from './draft';
+
+type Todo = { id: number; done: boolean; createdAt: Date };
+
+type FormState = {
+  todos: Todo[];
+  form: { email: { value: string }; password: { value: string } };
+};
+
+function createBase(): FormState {
+  return {
+    todos: [
+      { id: 1, done: false, createdAt: new Date(0) },
+      { id: 2, done: false, createdAt: new Date(0) },
+    ],
+    form: { email: { value: '' }, password: { value: '' } },
+  };
+}
+
+test('copies only the modified path and shares the rest', () => {
+  const base = createBase();
+
+  const { state, changedPaths, modified } = produceWithPaths(base, (draft) => {
+    draft.form.email.value = 'a@b.com';
+  });
+
+  expect(modified).toBe(true);
+  expect(changedPaths).toEqual(['form.email.value']);
+  expect(state.form.email.value).toBe('a@b.com');
+  expect(state.form.password).toBe(base.form.password);
+  expect(state.todos).toBe(base.todos);
+  expect(base.form.email.value).toBe('');
+});
+
+test('records array element and length changes', () => {
+  const base = createBase();
+
+  const { state, changedPaths } = produceWithPaths(base, (draft) => {
+    draft.todos[0].done = true;
+    draft.todos.push({ id: 3, done: false, createdAt: new Date(0) });
+  });
+
+  expect(changedPaths).toEqual(['todos[0].done', 'todos[2]', 'todos.length']);
+  expect(state.todos[1]).toBe(base.todos[1]);
+  expect(state.todos[2].createdAt).toBeInstanceOf(Date);
+  expect(base.todos).toHaveLength(2);
+});
+
+test('records deleted keys and replaced subtrees', () => {
+  const base = createBase();
+
+  const { state, changedPaths } = produceWithPaths(base, (draft) => {
+    draft.todos = draft.todos.filter((todo) => todo.id !== 1);
+    delete (draft.form as Partial<FormState['form']>).password;
+  });
+
+  expect(changedPaths).toEqual(['todos', 'form.password']);
+  expect(state.todos[0]).toBe(base.todos[1]);
+  expect(Object.keys(state.form)).toEqual(['email']);
+});
+
+test('returns the original state when nothing is modified', () => {
+  const base = createBase();
+
+  const { state, changedPaths, modified } = produceWithPaths(base, (draft) => {
+    void draft.form.email.value;
+  });
+
+  expect(modified).toBe(false);
+  expect(changedPaths).toEqual([]);
+  expect(state).toBe(base);
+});
+
+test('replaces drafts in the returned value with final values', () => {
+  const base = createBase();
+
+  const { result } = produceWithPaths(base, (draft) => ({ todos: draft.todos }));
+
+  expect(isDraft((result as Pick<FormState, 'todos'>).todos)).toBe(false);
+  expect((result as Pick<FormState, 'todos'>).todos).toBe(base.todos);
+});
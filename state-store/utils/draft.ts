@@ -0,0 +1,328 @@
+/**
+ * 변경 가능한 드래프트 기반 상태 업데이트 유틸리티
+ *
+ * 액션이 드래프트를 직접 수정하면, 수정된 경로만 복사하여(copy-on-write)
+ * 변경되지 않은 하위 객체는 참조를 그대로 공유하는 새 불변 상태를 만듭니다.
+ * 수정이 일어난 정확한 경로 목록도 함께 수집하여 구독 트리에 바로 전달할 수 있습니다.
+ */
+
+/**
+ * 드래프트 노드 - 프록시 하나에 대응하는 복사본 관리 정보
+ */
+interface DraftNode {
+  base: any; // 원본 값
+  copy: any | null; // 수정 시 생성되는 얕은 복사본
+  parent: DraftNode | null;
+  path: string; // 상태 루트로부터의 경로 (예: 'fields.email', 'todos[0]')
+  children: Map<PropertyKey, DraftNode>; // 접근한 하위 드래프트
+  assignedKeys: Set<PropertyKey>; // 새 값이 대입된 키 (최종화 시 내부 드래프트 검사 대상)
+  proxy: any;
+}
+
+/**
+ * 드래프트 생성 결과
+ * @template T 상태 타입
+ */
+export interface DraftResult<T> {
+  /**
+   * 레시피 함수의 반환값 (드래프트가 포함된 경우 최종 값으로 치환됨)
+   */
+  result: unknown;
+
+  /**
+   * 드래프트 수정이 반영된 새 상태 (수정이 없으면 원본과 동일한 참조)
+   */
+  state: T;
+
+  /**
+   * 드래프트에서 수정된 경로 목록
+   */
+  changedPaths: string[];
+
+  /**
+   * 드래프트가 수정되었는지 여부
+   */
+  modified: boolean;
+}
+
+/**
+ * 드래프트 타입 - 읽기 전용 속성을 변경 가능하게 만듭니다.
+ * @template T 원본 타입
+ */
+export type Draft<T> = T extends Date | RegExp | ((...args: any[]) => unknown)
+  ? T
+  : T extends object
+  ? { -readonly [K in keyof T]: Draft<T[K]> }
+  : T;
+
+// 프록시에서 드래프트 노드를 찾기 위한 맵
+const draftNodes = new WeakMap<object, DraftNode>();
+
+/**
+ * 드래프트로 감쌀 수 있는 값인지 확인합니다 (일반 객체와 배열만 해당).
+ */
+function isDraftable(value: unknown): value is object {
+  if (!value || typeof value !== 'object') return false;
+  if (Array.isArray(value)) return true;
+
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * 부모 경로와 키로 하위 경로를 만듭니다.
+ * 숫자 키는 배열 표기법, 그 외에는 점 표기법을 사용합니다.
+ */
+function joinPath(parentPath: string, key: PropertyKey): string {
+  const segment = String(key);
+
+  if (/^\d+$/.test(segment)) return `${parentPath}[${segment}]`;
+  return parentPath ? `${parentPath}.${segment}` : segment;
+}
+
+/**
+ * 현재 노드의 값(복사본이 있으면 복사본)을 반환합니다.
+ */
+function latest(node: DraftNode): any {
+  return node.copy ?? node.base;
+}
+
+/**
+ * 드래프트이면 현재 값을, 아니면 값 자체를 반환합니다.
+ */
+function peek(value: unknown): any {
+  const node = value && typeof value === 'object' ? draftNodes.get(value) : undefined;
+  return node ? latest(node) : value;
+}
+
+/**
+ * 노드와 모든 상위 노드에 얕은 복사본을 만듭니다.
+ */
+function prepareCopy(node: DraftNode): void {
+  if (node.copy) return;
+
+  node.copy = Array.isArray(node.base) ? node.base.slice() : { ...node.base };
+
+  if (node.parent) {
+    prepareCopy(node.parent);
+  }
+}
+
+/**
+ * 드래프트 안의 프록시를 최종 값으로 치환합니다.
+ * 수정되지 않은 드래프트는 원본 참조를 그대로 반환하여 구조적 공유를 유지합니다.
+ */
+function finalize(value: unknown, visited = new WeakSet<object>()): any {
+  if (!value || typeof value !== 'object') return value;
+
+  const node = draftNodes.get(value);
+  if (node) {
+    return finalizeNode(node, visited);
+  }
+
+  // 사용자가 새로 만든 객체/배열 안에 드래프트가 섞여 있을 수 있으므로 순회하며 치환
+  if (!isDraftable(value) || visited.has(value)) return value;
+  visited.add(value);
+
+  for (const key of Object.keys(value)) {
+    const child = (value as Record<string, unknown>)[key];
+    const finalized = finalize(child, visited);
+
+    if (finalized !== child) {
+      (value as Record<string, unknown>)[key] = finalized;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * 드래프트 노드의 최종 값을 계산합니다.
+ */
+function finalizeNode(node: DraftNode, visited: WeakSet<object>): any {
+  if (!node.copy) return node.base;
+
+  // 접근했던 하위 드래프트를 최종 값으로 교체
+  for (const [key, child] of node.children) {
+    if (node.copy[key] === child.base) {
+      node.copy[key] = finalizeNode(child, visited);
+    }
+  }
+
+  // 새로 대입된 값 안의 드래프트 치환
+  for (const key of node.assignedKeys) {
+    if (key in node.copy) {
+      node.copy[key] = finalize(node.copy[key], visited);
+    }
+  }
+
+  return node.copy;
+}
+
+/**
+ * 드래프트 프록시를 생성합니다.
+ */
+function createDraftNode(
+  base: any,
+  parent: DraftNode | null,
+  path: string,
+  changedPaths: Set<string>,
+): DraftNode {
+  const node: DraftNode = {
+    base,
+    copy: null,
+    parent,
+    path,
+    children: new Map(),
+    assignedKeys: new Set(),
+    proxy: null,
+  };
+
+  // 원본이 동결되어 있어도 프록시 불변 조건을 위반하지 않도록 빈 대상 객체 사용
+  const target = Array.isArray(base) ? [] : {};
+
+  node.proxy = new Proxy(target, {
+    get(_, key) {
+      const source = latest(node);
+      const value = source[key];
+
+      if (typeof key === 'symbol' || !Object.hasOwn(source, key) || !isDraftable(value)) {
+        return value;
+      }
+
+      // 이미 드래프트인 값(다른 위치의 드래프트를 대입한 경우)은 그대로 반환
+      if (draftNodes.has(value)) return value;
+
+      const cached = node.children.get(key);
+      if (cached && cached.base === value) {
+        return cached.proxy;
+      }
+
+      const child = createDraftNode(value, node, joinPath(node.path, key), changedPaths);
+      node.children.set(key, child);
+      return child.proxy;
+    },
+
+    set(_, key, value) {
+      const source = latest(node);
+      const current = source[key];
+      const cached = typeof key === 'symbol' ? undefined : node.children.get(key);
+
+      // 동일한 값 또는 자기 자신의 드래프트를 다시 대입하는 경우는 변경 없음
+      if (Object.hasOwn(source, key) && (current === value || (cached && cached.proxy === value))) {
+        return true;
+      }
+
+      prepareCopy(node);
+      const previousLength = Array.isArray(node.copy) ? node.copy.length : undefined;
+      node.copy[key] = value;
+      node.children.delete(key);
+      node.assignedKeys.add(key);
+
+      if (typeof key !== 'symbol') {
+        const isArrayLength = Array.isArray(node.copy) && key === 'length';
+        const path = isArrayLength ? `${node.path}.length` : joinPath(node.path, key);
+        // 하위 경로 구독자는 구독 트리가 교체된 경로로부터 찾아 알림
+        changedPaths.add(path);
+
+        // 인덱스 대입으로 배열 길이가 늘어난 경우 (push 등)
+        if (previousLength !== undefined && node.copy.length !== previousLength) {
+          changedPaths.add(`${node.path}.length`);
+        }
+      }
+
+      return true;
+    },
+
+    deleteProperty(_, key) {
+      const source = latest(node);
+      if (!Object.hasOwn(source, key)) return true;
+
+      prepareCopy(node);
+      delete node.copy[key];
+      node.children.delete(key);
+      node.assignedKeys.delete(key);
+
+      if (typeof key !== 'symbol') {
+        const path = joinPath(node.path, key);
+        changedPaths.add(path);
+      }
+
+      return true;
+    },
+
+    has(_, key) {
+      return key in latest(node);
+    },
+
+    ownKeys() {
+      return Reflect.ownKeys(latest(node));
+    },
+
+    getOwnPropertyDescriptor(_, key) {
+      const source = latest(node);
+      const descriptor = Reflect.getOwnPropertyDescriptor(source, key);
+      if (!descriptor) return undefined;
+
+      // 배열의 length는 대상 객체와 동일하게 non-configurable로 보고해야 함
+      const isArrayLength = Array.isArray(source) && key === 'length';
+
+      return {
+        value: node.proxy[key],
+        writable: true,
+        enumerable: descriptor.enumerable,
+        configurable: !isArrayLength,
+      };
+    },
+
+    getPrototypeOf() {
+      return Object.getPrototypeOf(node.base);
+    },
+  });
+
+  draftNodes.set(node.proxy, node);
+  return node;
+}
+
+/**
+ * 값이 드래프트 프록시인지 확인합니다.
+ * @param value 확인할 값
+ * @returns 드래프트 프록시이면 true
+ */
+export function isDraft(value: unknown): boolean {
+  return !!value && typeof value === 'object' && draftNodes.has(value);
+}
+
+/**
+ * 드래프트를 만들어 레시피 함수를 실행하고, 수정 결과를 불변 상태로 만듭니다.
+ * 수정되지 않은 하위 객체는 원본 참조를 공유하며, 수정된 경로 목록을 함께 반환합니다.
+ *
+ * @template T 상태 타입
+ * @param base 원본 상태
+ * @param recipe 드래프트를 수정하거나 새 값을 반환하는 함수
+ * @returns 레시피 반환값, 새 상태, 변경 경로 목록
+ *
+ * @example
+ * const { state, changedPaths } = produceWithPaths(formState, (draft) => {
+ *   draft.fields.email.value = 'a@b.com';
+ * });
+ * // changedPaths: ['fields.email.value']
+ * // state.fields.password === formState.fields.password (참조 공유)
+ */
+export function produceWithPaths<T extends object>(
+  base: T,
+  recipe: (draft: Draft<T>) => unknown,
+): DraftResult<T> {
+  const changedPaths = new Set<string>();
+  const root = createDraftNode(base, null, '', changedPaths);
+
+  const result = finalize(recipe(root.proxy));
+  const state = finalizeNode(root, new WeakSet()) as T;
+
+  return {
+    result,
+    state,
+    changedPaths: Array.from(changedPaths),
+    modified: root.copy !== null,
+  };
+}
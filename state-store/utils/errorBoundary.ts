@@ -96,21 +96,7 @@ export class ErrorBoundary {
         recoverable: this.options.enableRecovery && this.canRecover(context),
       };
 
-      // 오류 핸들러 호출
-      if (this.options.onError) {
-        try {
-          this.options.onError(error as Error, errorContext);
-        } catch (handlerError) {
-          console.error('[ErrorBoundary] Error in error handler:', handlerError);
-        }
-      }
-
-      // 콘솔에 오류 로깅
-      console.error(
-        `[ErrorBoundary] Error in ${context.actionType || 'operation'}` +
-          `${context.statePath ? ` for path ${context.statePath}` : ''}:`,
-        error,
-      );
+      this.report(error as Error, errorContext);
 
       // 복구 시도
       if (errorContext.recoverable) {
@@ -122,6 +108,35 @@ export class ErrorBoundary {
     }
   }
 
+  /**
+   * 오류를 오류 핸들러(onError)와 콘솔에 보고합니다.
+   * 직접 처리한 오류(검증 실패 등)를 복구 시도 없이 보고할 때도 사용합니다.
+   * @param error 보고할 오류
+   * @param context 오류 컨텍스트
+   */
+  report(
+    error: Error,
+    context: { actionType?: string; statePath?: string; recoverable?: boolean } = {},
+  ): void {
+    const errorContext = { ...context, recoverable: context.recoverable ?? false };
+
+    // 오류 핸들러 호출
+    if (this.options.onError) {
+      try {
+        this.options.onError(error, errorContext);
+      } catch (handlerError) {
+        console.error('[ErrorBoundary] Error in error handler:', handlerError);
+      }
+    }
+
+    // 콘솔에 오류 로깅
+    console.error(
+      `[ErrorBoundary] Error in ${context.actionType || 'operation'}` +
+        `${context.statePath ? ` for path ${context.statePath}` : ''}:`,
+      error,
+    );
+  }
+
   /**
    * 특정 컨텍스트에서 복구 가능 여부 확인
    */
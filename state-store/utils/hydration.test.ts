@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from '../core/createStore';
+import { serializeDehydratedState, toJSONSafe } from './hydration';
+
+type PageState = {
+  count: number;
+  html: string;
+  updatedAt: string | null;
+};
+
+function createPageStore() {
+  return createStore<PageState>({ mode: 'server' })
+    .initialState({ count: 0, html: '', updatedAt: null })
+    .asyncActions({
+      load: async () => ({ success: true as const, state: { count: 10, html: '</script><b>' } }),
+      fail: async () => ({ success: false as const, error: new TypeError('not found') }),
+    });
+}
+
+test('toJSONSafe drops functions and converts dates to strings', () => {
+  const value = { date: new Date(0), fn: () => 1, nested: { ok: true } };
+
+  expect(toJSONSafe(value)).toEqual({ date: '1970-01-01T00:00:00.000Z', nested: { ok: true } });
+});
+
+test('serializeDehydratedState escapes characters that could close the script tag', () => {
+  const serialized = serializeDehydratedState({ state: { html: '</script><b>&\u2028' } });
+
+  expect(serialized).not.toContain('</script>');
+  expect(serialized).toBe('{"state":{"html":"\\u003C/script\\u003E\\u003Cb\\u003E\\u0026\\u2028"}}');
+  expect(JSON.parse(serialized)).toEqual({ state: { html: '</script><b>&\u2028' } });
+});
+
+test('dehydrate returns state and async state that the builder can hydrate', async () => {
+  const server = createPageStore().build();
+  await server.asyncActions.load();
+  await server.asyncActions.fail();
+
+  const payload = JSON.parse(serializeDehydratedState(server.dehydrate()));
+  const client = createPageStore().hydrate(payload).build();
+
+  expect(client.getState()).toEqual({ count: 10, html: '</script><b>', updatedAt: null });
+  expect(client.asyncState.load).toMatchObject({ pending: false, loaded: true, error: null });
+  expect(client.asyncState.fail.loaded).toBe(false);
+  expect(client.asyncState.fail.error).toBeInstanceOf(Error);
+  expect(client.asyncState.fail.error?.name).toBe('TypeError');
+  expect(client.asyncState.fail.error?.message).toBe('not found');
+});
+
+test('dehydrate can leave out async state', async () => {
+  const server = createPageStore().build();
+  await server.asyncActions.load();
+
+  expect(server.dehydrate({ includeAsyncState: false })).toEqual({
+    state: { count: 10, html: '</script><b>', updatedAt: null },
+  });
+});
+
+test('store.hydrate restores state on an existing store and ignores unknown keys', () => {
+  const store = createPageStore().build();
+
+  store.hydrate({
+    state: { count: 3, unknown: true } as Partial<PageState>,
+    asyncState: { load: { loaded: true, error: null } },
+  });
+
+  expect(store.getState()).toEqual({ count: 3, html: '', updatedAt: null });
+  expect(store.asyncState.load.loaded).toBe(true);
+});
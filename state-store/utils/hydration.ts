@@ -0,0 +1,38 @@
+/**
+ * 서버-클라이언트 상태 전달(dehydrate/hydrate)을 위한 직렬화 유틸리티
+ */
+
+// <script> 태그 안에서 의미를 가지는 문자와 JS 문자열에서 줄바꿈으로 해석되는 문자
+const UNSAFE_SCRIPT_CHARS: Record<string, string> = {
+  '<': '\\u003C',
+  '>': '\\u003E',
+  '&': '\\u0026',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029',
+};
+
+/**
+ * 값을 JSON으로 표현 가능한 형태로 변환합니다.
+ * 함수와 undefined는 제거되고, Date는 ISO 문자열로 변환됩니다.
+ *
+ * @param value 변환할 값
+ * @returns JSON 안전 값
+ */
+export function toJSONSafe<T>(value: T): T {
+  if (value === undefined) return value;
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * 직렬화된 스토어 상태를 <script> 태그에 그대로 삽입할 수 있는 문자열로 변환합니다.
+ * `</script>` 등으로 태그가 조기 종료되거나 마크업이 주입되지 않도록 위험 문자를 유니코드 이스케이프합니다.
+ *
+ * @param payload store.dehydrate()가 반환한 페이로드
+ * @returns 스크립트에 삽입 가능한 JSON 문자열
+ *
+ * @example
+ * const html = `<script>window.__STORE_STATE__ = ${serializeDehydratedState(store.dehydrate())}</script>`;
+ */
+export function serializeDehydratedState(payload: unknown): string {
+  return JSON.stringify(payload).replace(/[<>&\u2028\u2029]/g, (char) => UNSAFE_SCRIPT_CHARS[char] ?? char);
+}
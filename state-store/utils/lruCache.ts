@@ -40,12 +40,14 @@ export class LRUCache<K, V> {
   private tail: LRUNode<K, V> | null = null; // 가장 오래 전에 사용됨
   private ttl: number | null = null; // Time To Live (밀리초)
   private timestamps: Map<K, number> = new Map(); // 각 키의 마지막 접근 시간
+  private readonly onEvict?: (key: K, value: V) => void; // 용량 초과나 만료로 제거될 때 호출
 
   /**
    * @param capacity 최대 항목 개수
    * @param ttl 항목의 수명 (밀리초, 선택적)
+   * @param onEvict 항목이 용량 초과나 만료로 제거될 때 호출될 함수 (delete, clear로 제거할 때는 호출되지 않음)
    */
-  constructor(capacity: number, ttl?: number) {
+  constructor(capacity: number, ttl?: number, onEvict?: (key: K, value: V) => void) {
     if (capacity <= 0) {
       throw new Error('Capacity must be a positive number');
     }
@@ -53,6 +55,7 @@ export class LRUCache<K, V> {
     if (ttl !== undefined) {
       this.ttl = ttl;
     }
+    this.onEvict = onEvict;
   }
 
   /**
@@ -97,7 +100,7 @@ export class LRUCache<K, V> {
 
     // TTL 체크 - 만료된 경우 제거하고 undefined 반환
     if (this.isExpired(key)) {
-      this.delete(key);
+      this.evict(key);
       return undefined;
     }
 
@@ -169,7 +172,7 @@ export class LRUCache<K, V> {
 
     // TTL 체크
     if (this.isExpired(key)) {
-      this.delete(key);
+      this.evict(key);
       return false;
     }
 
@@ -214,6 +217,18 @@ export class LRUCache<K, V> {
     return true;
   }
 
+  /**
+   * 만료된 항목을 제거하고 onEvict를 호출합니다.
+   * @param key 제거할 키
+   */
+  private evict(key: K): void {
+    const node = this.cache.get(key);
+    if (!node) return;
+
+    this.delete(key);
+    this.onEvict?.(key, node.value);
+  }
+
   /**
    * 모든 캐시 항목을 제거합니다.
    */
@@ -255,7 +270,7 @@ export class LRUCache<K, V> {
 
     for (const key of keys) {
       if (this.isExpired(key)) {
-        this.delete(key);
+        this.evict(key);
         count++;
       }
     }
@@ -304,6 +319,8 @@ export class LRUCache<K, V> {
   private removeTail(): void {
     if (!this.tail) return;
 
+    const evicted = this.tail;
+
     // 캐시 맵에서 제거
     this.cache.delete(this.tail.key);
     this.timestamps.delete(this.tail.key);
@@ -316,6 +333,8 @@ export class LRUCache<K, V> {
       // 캐시가 비어있게 됨
       this.head = null;
     }
+
+    this.onEvict?.(evicted.key, evicted.value);
   }
 
   /**
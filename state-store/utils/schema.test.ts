@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+import { createStore } from '../core/createStore';
+import { SchemaValidationError } from '../core/errors';
+import { ErrorBoundary } from './errorBoundary';
+import { createSchemaValidator, s } from './schema';
+
+type ProfileState = {
+  count: number;
+  user: { name: string; age: number | null };
+  tags: string[];
+  filter: 'all' | 'done';
+};
+
+const initialState: ProfileState = { count: 0, user: { name: 'kim', age: null }, tags: [], filter: 'all' };
+
+const profileSchema = {
+  count: s.number({ integer: true, min: 0 }),
+  user: s.object({ name: s.string(), age: s.nullable(s.number()) }),
+  tags: s.array(s.string()),
+  filter: s.literal('all', 'done'),
+};
+
+function createProfileStore(onError = jest.fn()) {
+  return createStore<ProfileState>({ mode: 'server' })
+    .initialState(initialState)
+    .schema(profileSchema, { errorBoundary: new ErrorBoundary({ onError }) })
+    .actions({
+      set: (patch: Partial<ProfileState>) => patch,
+    })
+    .asyncActions({
+      load: async (count: number) => ({ success: true as const, state: { count } }),
+    })
+    .build();
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+test('schemas report every issue with its path', () => {
+  const validate = createSchemaValidator<ProfileState>(profileSchema);
+
+  const issues = validate(
+    { count: -2, user: { name: 'kim', age: '3' }, tags: ['a', 1], filter: 'x' } as unknown as ProfileState,
+    { changedKeys: ['count', 'user', 'tags', 'filter'], actionType: 'set' },
+  );
+
+  expect(issues).toEqual([
+    { path: 'count', message: 'Expected integer >= 0, received -2' },
+    { path: 'user.age', message: 'Expected number, received string' },
+    { path: 'tags[1]', message: 'Expected string, received number' },
+    { path: 'filter', message: 'Expected "all" | "done", received "x"' },
+  ]);
+});
+
+test('the validator checks only the changed keys', () => {
+  const validate = createSchemaValidator<ProfileState>(profileSchema);
+
+  const issues = validate({ ...initialState, filter: 'x' } as unknown as ProfileState, {
+    changedKeys: ['count'],
+    actionType: 'set',
+  });
+
+  expect(issues).toEqual([]);
+});
+
+test('rejects invalid updates without applying them and reports them', () => {
+  const onError = jest.fn();
+  const store = createProfileStore(onError);
+
+  expect(() => store.actions.set({ count: 1, filter: 'x' as 'all' })).toThrow(SchemaValidationError);
+  expect(store.getState()).toEqual(initialState);
+  expect(onError).toHaveBeenCalledWith(
+    expect.any(SchemaValidationError),
+    expect.objectContaining({ actionType: 'set', statePath: 'filter' }),
+  );
+
+  store.actions.set({ count: 2 });
+  expect(store.getState().count).toBe(2);
+});
+
+test('fails async results that do not match the schema', async () => {
+  const store = createProfileStore();
+
+  const result = await store.asyncActions.load(1.5);
+
+  expect(result.success).toBe(false);
+  expect(store.asyncState.load.error).toBeInstanceOf(SchemaValidationError);
+  expect(store.getState().count).toBe(0);
+});
+
+test('rolls back a transaction when one of its updates is rejected', () => {
+  const store = createProfileStore();
+
+  expect(() =>
+    store.transaction(() => {
+      store.actions.set({ count: 5 });
+      store.actions.set({ count: -1 });
+    }),
+  ).toThrow(SchemaValidationError);
+  expect(store.getState().count).toBe(0);
+});
+
+test('validates hydrated state', () => {
+  const store = createProfileStore();
+
+  expect(() => store.hydrate({ state: { count: -3 } })).toThrow(SchemaValidationError);
+  expect(store.getState().count).toBe(0);
+});
+
+test('accepts a validator function with the update context', () => {
+  const validator = jest.fn((state: ProfileState) =>
+    state.count > 10 ? [{ path: 'count', message: 'too big' }] : [],
+  );
+  const store = createStore<ProfileState>({ mode: 'server' })
+    .initialState(initialState)
+    .schema(validator)
+    .actions({
+      set: (patch: Partial<ProfileState>) => patch,
+    })
+    .build();
+
+  expect(() => store.actions.set({ count: 11 })).toThrow('count: too big');
+  expect(validator).toHaveBeenCalledWith(
+    expect.objectContaining({ count: 11 }),
+    expect.objectContaining({ changedKeys: ['count'], actionType: 'set' }),
+  );
+});
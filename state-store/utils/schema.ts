@@ -0,0 +1,283 @@
+import { fx } from '@fxts/core';
+
+/**
+ * 상태 스키마 검증 유틸리티
+ * 상태 업데이트를 커밋하기 전에 값의 형태를 검사하기 위한 작은 스키마 DSL을 제공합니다.
+ */
+
+/**
+ * 스키마 검증 실패 항목
+ */
+export interface SchemaIssue {
+  /**
+   * 문제가 발견된 상태 경로 (예: 'user.profile.age', 'todos[0].title')
+   */
+  path: string;
+
+  /**
+   * 오류 메시지
+   */
+  message: string;
+}
+
+/**
+ * 값 스키마 인터페이스
+ * @template T 스키마가 허용하는 값의 타입
+ */
+export interface Schema<T = unknown> {
+  /**
+   * 기대하는 값의 설명 (오류 메시지에 사용)
+   */
+  readonly expected: string;
+
+  /**
+   * 값을 검사하고 발견된 문제 목록을 반환합니다. (문제가 없으면 빈 배열)
+   * @param value 검사할 값
+   * @param path 값의 상태 경로
+   */
+  validate(value: unknown, path: string): SchemaIssue[];
+
+  /**
+   * 타입 추론용 필드 (런타임에는 존재하지 않음)
+   */
+  readonly _type?: T;
+}
+
+/**
+ * 상태 키별 스키마 정의 타입 (정의하지 않은 키는 검사하지 않음)
+ * @template TState 스토어 상태 타입
+ */
+export type StateSchema<TState extends Record<string, any>> = {
+  [K in keyof TState]?: Schema<TState[K]>;
+};
+
+/**
+ * 상태 검증 함수 타입
+ * 업데이트가 적용된 다음 상태를 받아 문제 목록을 반환합니다. 빈 배열이나 undefined를 반환하면 통과입니다.
+ * 외부 검증 라이브러리를 연결할 때는 그 결과를 SchemaIssue 목록으로 변환하여 반환합니다.
+ * @template TState 스토어 상태 타입
+ */
+export type StateValidator<TState extends Record<string, any>> = (
+  nextState: Readonly<TState>,
+  context: {
+    /**
+     * 이번 업데이트로 값이 바뀌는 최상위 키 목록
+     */
+    changedKeys: string[];
+
+    /**
+     * 업데이트를 일으킨 액션 타입
+     */
+    actionType: string;
+  },
+) => SchemaIssue[] | void;
+
+/**
+ * 값의 타입을 오류 메시지용 문자열로 변환합니다.
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return typeof value;
+}
+
+/**
+ * 하위 경로를 생성합니다. (숫자 키는 배열 표기법, 그 외에는 점 표기법)
+ */
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number' || /^\d+$/.test(key)) return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * 검사 함수로 스키마를 생성합니다.
+ */
+function createSchema<T>(
+  expected: string,
+  check: (value: unknown, path: string) => SchemaIssue[],
+): Schema<T> {
+  return { expected, validate: check };
+}
+
+/**
+ * 기대한 타입과 다른 값에 대한 문제 항목을 생성합니다.
+ */
+function typeIssue(path: string, expected: string, value: unknown): SchemaIssue[] {
+  return [{ path, message: `Expected ${expected}, received ${describe(value)}` }];
+}
+
+/**
+ * 타입 검사만 하는 원시 값 스키마를 생성합니다.
+ */
+function primitive<T>(expected: string, is: (value: unknown) => boolean): Schema<T> {
+  return createSchema<T>(expected, (value, path) => (is(value) ? [] : typeIssue(path, expected, value)));
+}
+
+/**
+ * 스키마 DSL
+ *
+ * @example
+ * const todoSchema = s.object({ id: s.number({ integer: true }), title: s.string(), done: s.boolean() });
+ *
+ * createStore<TodoState>()
+ *   .initialState({ todos: [], filter: 'all' })
+ *   .schema({ todos: s.array(todoSchema), filter: s.literal('all', 'active', 'done') })
+ *   .build();
+ */
+export const s = {
+  /**
+   * 문자열 스키마
+   */
+  string: (): Schema<string> => primitive('string', (value) => typeof value === 'string'),
+
+  /**
+   * 숫자 스키마 (NaN은 허용하지 않음)
+   * @param options 최소/최대값, 정수 여부
+   */
+  number: (options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> => {
+    const { min, max, integer = false } = options;
+    const expected = integer ? 'integer' : 'number';
+
+    return createSchema<number>(expected, (value, path) => {
+      if (typeof value !== 'number' || Number.isNaN(value) || (integer && !Number.isInteger(value))) {
+        return typeIssue(path, expected, value);
+      }
+      if (min !== undefined && value < min) {
+        return [{ path, message: `Expected ${expected} >= ${min}, received ${value}` }];
+      }
+      if (max !== undefined && value > max) {
+        return [{ path, message: `Expected ${expected} <= ${max}, received ${value}` }];
+      }
+      return [];
+    });
+  },
+
+  /**
+   * 불리언 스키마
+   */
+  boolean: (): Schema<boolean> => primitive('boolean', (value) => typeof value === 'boolean'),
+
+  /**
+   * 지정한 값 중 하나만 허용하는 스키마
+   * @param values 허용할 값 목록
+   */
+  literal: <T extends string | number | boolean | null>(...values: T[]): Schema<T> => {
+    const expected = values.map((value) => JSON.stringify(value)).join(' | ');
+
+    return createSchema<T>(expected, (value, path) =>
+      values.includes(value as T)
+        ? []
+        : [{ path, message: `Expected ${expected}, received ${JSON.stringify(value)}` }],
+    );
+  },
+
+  /**
+   * 배열 스키마 (모든 항목을 item 스키마로 검사)
+   * @param item 항목 스키마
+   */
+  array: <T>(item: Schema<T>): Schema<T[]> =>
+    createSchema<T[]>(`${item.expected}[]`, (value, path) => {
+      if (!Array.isArray(value)) return typeIssue(path, 'array', value);
+
+      return fx(value.entries())
+        .map(([index, element]) => item.validate(element, joinPath(path, index)))
+        .toArray()
+        .flat();
+    }),
+
+  /**
+   * 객체 스키마 (정의한 속성만 검사하며, 정의하지 않은 속성은 허용)
+   * @param shape 속성별 스키마
+   */
+  object: <T extends Record<string, any>>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> =>
+    createSchema<T>('object', (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return typeIssue(path, 'object', value);
+      }
+
+      return fx(Object.keys(shape))
+        .map((key) => shape[key].validate((value as Record<string, unknown>)[key], joinPath(path, key)))
+        .toArray()
+        .flat();
+    }),
+
+  /**
+   * 키가 임의인 객체 스키마 (모든 값을 value 스키마로 검사)
+   * @param valueSchema 값 스키마
+   */
+  record: <T>(valueSchema: Schema<T>): Schema<Record<string, T>> =>
+    createSchema<Record<string, T>>(`Record<string, ${valueSchema.expected}>`, (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return typeIssue(path, 'object', value);
+      }
+
+      return fx(Object.entries(value))
+        .map(([key, element]) => valueSchema.validate(element, joinPath(path, key)))
+        .toArray()
+        .flat();
+    }),
+
+  /**
+   * null을 허용하는 스키마
+   * @param schema 원래 스키마
+   */
+  nullable: <T>(schema: Schema<T>): Schema<T | null> =>
+    createSchema<T | null>(`${schema.expected} | null`, (value, path) =>
+      value === null ? [] : schema.validate(value, path),
+    ),
+
+  /**
+   * undefined를 허용하는 스키마
+   * @param schema 원래 스키마
+   */
+  optional: <T>(schema: Schema<T>): Schema<T | undefined> =>
+    createSchema<T | undefined>(`${schema.expected} | undefined`, (value, path) =>
+      value === undefined ? [] : schema.validate(value, path),
+    ),
+
+  /**
+   * 여러 스키마 중 하나라도 통과하면 허용하는 스키마
+   * @param schemas 후보 스키마 목록
+   */
+  union: <T extends Schema[]>(...schemas: T): Schema<NonNullable<T[number]['_type']>> => {
+    const expected = schemas.map((schema) => schema.expected).join(' | ');
+
+    return createSchema(expected, (value, path) =>
+      schemas.some((schema) => schema.validate(value, path).length === 0)
+        ? []
+        : typeIssue(path, expected, value),
+    );
+  },
+
+  /**
+   * 검사 함수로 정의하는 스키마 (Date, 클래스 인스턴스 등)
+   * @param expected 기대하는 값의 설명
+   * @param is 값이 올바른지 판별하는 함수
+   */
+  custom: <T>(expected: string, is: (value: unknown) => boolean): Schema<T> => primitive<T>(expected, is),
+
+  /**
+   * 모든 값을 허용하는 스키마
+   */
+  any: <T = any>(): Schema<T> => createSchema<T>('any', () => []),
+};
+
+/**
+ * 상태 키별 스키마 정의로 상태 검증 함수를 생성합니다.
+ * 업데이트마다 값이 바뀌는 키만 검사합니다.
+ *
+ * @template TState 스토어 상태 타입
+ * @param shape 상태 키별 스키마 정의
+ * @returns 상태 검증 함수
+ */
+export function createSchemaValidator<TState extends Record<string, any>>(
+  shape: StateSchema<TState>,
+): StateValidator<TState> {
+  return (nextState, { changedKeys }) =>
+    fx(changedKeys)
+      .filter((key) => Object.hasOwn(shape, key))
+      .map((key) => (shape[key] as Schema).validate(nextState[key], key))
+      .toArray()
+      .flat();
+}
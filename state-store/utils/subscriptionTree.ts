@@ -46,6 +46,9 @@ export class SubscriptionTree {
     }
   >;
 
+  // 중간 세그먼트에 와일드카드가 있는 패턴 구독 맵 (예: 'todos.*.completed')
+  private patternSubscriberMap: Map<string, string[]>;
+
   // 성능 통계용 카운터
   private notificationCounter = 0;
   private skippedNotificationCounter = 0;
@@ -55,6 +58,7 @@ export class SubscriptionTree {
     this.subscriberRegistry = new Map();
     this.pathSubscriberMap = new Map();
     this.wildcardSubscriberMap = new Map();
+    this.patternSubscriberMap = new Map();
   }
 
   /**
@@ -74,6 +78,25 @@ export class SubscriptionTree {
     return true;
   }
 
+  /**
+   * 와일드카드 패턴 일치 여부 확인
+   * 패턴과 경로 중 짧은 쪽의 길이만큼 비교하므로 상위 경로 변경과 하위 경로 변경 모두 일치로 판단합니다.
+   * '*'는 한 세그먼트, '**'는 이후 모든 세그먼트와 일치합니다.
+   * @param pattern 패턴 세그먼트 배열
+   * @param path 변경된 경로 세그먼트 배열
+   * @returns 일치하면 true
+   */
+  private isPatternMatch(pattern: string[], path: string[]): boolean {
+    const length = Math.min(pattern.length, path.length);
+
+    for (let i = 0; i < length; i++) {
+      if (pattern[i] === '**') return true;
+      if (pattern[i] !== '*' && pattern[i] !== path[i]) return false;
+    }
+
+    return true;
+  }
+
   /**
    * 새 트리 노드 생성
    */
@@ -210,6 +233,12 @@ export class SubscriptionTree {
       return;
     }
 
+    // 중간 세그먼트의 와일드카드는 트리 대신 패턴 맵으로 관리
+    if (segments.slice(0, -1).some((segment) => segment === '*' || segment === '**')) {
+      this.patternSubscriberMap.set(subscriber.id, segments);
+      return;
+    }
+
     // 와일드카드 구독 확인 ('*' 또는 '**' 패턴)
     const lastSegment = segments[segments.length - 1];
 
@@ -318,12 +347,38 @@ export class SubscriptionTree {
     this.subscriberRegistry.delete(subscriberId);
   }
 
+  /**
+   * 모든 구독자 제거
+   * 알림 중에 호출되면 현재 알림이 끝난 뒤 제거합니다.
+   */
+  clear(): void {
+    if (this.isNotifying) {
+      this.pendingSubscriptionChanges.push(() => this.clear());
+      return;
+    }
+
+    this.root.subscribers.clear();
+    this.root.children.clear();
+    delete this.root.singleLevelWildcardNode;
+    delete this.root.multiLevelWildcardNode;
+
+    this.subscriberRegistry.clear();
+    this.pathSubscriberMap.clear();
+    this.wildcardSubscriberMap.clear();
+    this.patternSubscriberMap.clear();
+  }
+
   /**
    * 특정 경로에서 구독자 제거 (최적화 버전)
    * @param path 상태 경로
    * @param subscriberId 구독자 ID
    */
   private removeSubscriberFromPath(path: string, subscriberId: string): void {
+    // 패턴 구독 확인
+    if (this.patternSubscriberMap.delete(subscriberId)) {
+      return;
+    }
+
     // 와일드카드 맵 확인 (O(1) 접근 가능)
     if (this.wildcardSubscriberMap.has(subscriberId)) {
       const wildcard = this.wildcardSubscriberMap.get(subscriberId);
@@ -422,25 +477,38 @@ export class SubscriptionTree {
           // 현재 변경 경로가 와일드카드 구독 패턴과 일치하는지 확인
           if (type === SINGLE_LEVEL_WILDCARD) {
             // 단일 레벨 와일드카드의 경우, 부모 경로에 하나의 추가 세그먼트가 있는지 확인
+            // (부모 경로 자체나 그 상위 경로가 교체된 경우도 포함)
             if (
-              segments.length === parentSegments.length + 1 &&
-              this.isPathPrefixMatch(parentSegments, segments)
+              (segments.length === parentSegments.length + 1 &&
+                this.isPathPrefixMatch(parentSegments, segments)) ||
+              this.isPathPrefixMatch(segments, parentSegments)
             ) {
               subscribersToNotify.set(subscriberId, subscriber);
             }
           } else if (type === MULTI_LEVEL_WILDCARD) {
-            // 다중 레벨 와일드카드의 경우, 부모 경로가 현재 경로의 접두사인지 확인
+            // 다중 레벨 와일드카드의 경우, 부모 경로와 현재 경로 중 한쪽이 다른 쪽의 접두사인지 확인
             if (
-              segments.length >= parentSegments.length &&
-              this.isPathPrefixMatch(parentSegments, segments)
+              this.isPathPrefixMatch(parentSegments, segments) ||
+              this.isPathPrefixMatch(segments, parentSegments)
             ) {
               subscribersToNotify.set(subscriberId, subscriber);
             }
           }
         }
 
+        // 중간 와일드카드 패턴 구독자 추가
+        for (const [subscriberId, patternSegments] of this.patternSubscriberMap.entries()) {
+          const subscriber = this.subscriberRegistry.get(subscriberId);
+          if (!subscriber || !subscriber.active || notifiedSubscribers.has(subscriberId)) continue;
+
+          if (this.isPatternMatch(patternSegments, segments)) {
+            subscribersToNotify.set(subscriberId, subscriber);
+          }
+        }
+
         // 기존 트리 순회 방식도 유지 (완전한 마이그레이션을 위한 점진적 접근)
         let currentNode = this.root;
+        let reachedNode = true;
 
         for (let i = 0; i < segments.length; i++) {
           const segment = segments[i];
@@ -475,6 +543,7 @@ export class SubscriptionTree {
           const nextNode = currentNode.children.get(segment);
           if (!nextNode) {
             // 노드가 없으면 새로 생성하지 않고 중단
+            reachedNode = false;
             break;
           }
 
@@ -488,6 +557,11 @@ export class SubscriptionTree {
             }
           }
         }
+
+        // 경로가 통째로 교체되었을 수 있으므로 하위 경로 구독자에게도 알림
+        if (reachedNode && segments.length > 0) {
+          this.collectDescendantSubscribers(currentNode, subscribersToNotify);
+        }
       }
 
       // 우선순위에 따라 구독자 정렬
@@ -557,6 +631,28 @@ export class SubscriptionTree {
     }
   }
 
+  /**
+   * 노드 하위의 모든 구독자 수집
+   * 상위 경로가 변경되면 하위 경로의 값도 바뀔 수 있으므로 하위 노드와 와일드카드 노드를 모두 순회합니다.
+   * @param node 시작 노드 (자기 자신의 구독자는 제외)
+   * @param result 수집 결과 맵
+   */
+  private collectDescendantSubscribers(node: TreeNode, result: Map<string, Subscriber>): void {
+    const childNodes = [...node.children.values(), node.singleLevelWildcardNode, node.multiLevelWildcardNode];
+
+    for (const childNode of childNodes) {
+      if (!childNode) continue;
+
+      for (const subscriber of childNode.subscribers.values()) {
+        if (subscriber.active) {
+          result.set(subscriber.id, subscriber);
+        }
+      }
+
+      this.collectDescendantSubscribers(childNode, result);
+    }
+  }
+
   /**
    * 특정 경로에 의존하는 구독자 ID 목록 반환
    * @param path 상태 경로
@@ -571,6 +667,13 @@ export class SubscriptionTree {
       result.add(subscriber.id);
     }
 
+    // 중간 와일드카드 패턴 구독자
+    for (const [subscriberId, patternSegments] of this.patternSubscriberMap.entries()) {
+      if (this.isPatternMatch(patternSegments, segments)) {
+        result.add(subscriberId);
+      }
+    }
+
     // 경로를 따라가며 구독자 수집
     let currentPath = '';
     for (let i = 0; i < segments.length; i++) {